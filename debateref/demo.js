@@ -5,23 +5,26 @@
  * This script demonstrates the core functionality without requiring user input
  */
 
-import { DebateStore, DebateAnalyzer, ResultPrinter } from './dist/index.js';
+import { createDebateStore, DebateAnalyzer, ResultPrinter } from './dist/index.js';
 
 // Mock runtime for demo purposes
 const mockRuntime = {
   generateText: async ({ prompt }) => {
+    // Argument IDs are listed in the prompt in argument order
+    const [firstId, secondId] = [...prompt.matchAll(/^Argument \d+ \(ID: ([^,)]+)/gm)].map(match => match[1]);
+
     // Simulate AI response based on prompt content
     if (prompt.includes('AI replace human teachers')) {
       return JSON.stringify({
-        scores: {
-          "user1": {
+        arguments: {
+          [firstId]: {
             clarity: 8,
             logic: 7,
             evidence: 6,
             relevance: 9,
             reasoning: "Clear argument with good structure and relevant points about AI benefits"
           },
-          "user2": {
+          [secondId]: {
             clarity: 7,
             logic: 8,
             evidence: 7,
@@ -35,8 +38,8 @@ const mockRuntime = {
     
     // Fallback response
     return JSON.stringify({
-      scores: {
-        "user1": {
+      arguments: {
+        [firstId]: {
           clarity: 6,
           logic: 6,
           evidence: 5,
@@ -49,13 +52,32 @@ const mockRuntime = {
   }
 };
 
+// Fixed clock and sequential IDs so the demo prints the same output on every run
+const demoClock = { now: () => Date.UTC(2025, 0, 15, 12, 0, 0) };
+function createDemoIds() {
+  let counter = 0;
+  return prefix => `${prefix}_demo_${String(++counter).padStart(4, '0')}`;
+}
+
+// Reuse a registered participant across demo runs, or register them on first use
+async function findOrRegister(store, displayName, affiliation) {
+  const existing = (await store.listParticipants()).find(p => p.displayName === displayName);
+  return existing ?? await store.registerParticipant(displayName, { affiliation });
+}
+
 async function runDemo() {
   console.log('🎯 Debate Referee AI - Demo Mode\n');
   
   try {
     // Initialize components
-    const store = new DebateStore('./demo-data');
-    const analyzer = new DebateAnalyzer(mockRuntime);
+    // Backend comes from DEBATE_STORE_BACKEND (json, memory or sql). Without it the demo runs in
+    // memory with fixed IDs; persistent backends keep the default IDs so runs never collide.
+    const persistent = Boolean(process.env.DEBATE_STORE_BACKEND) && process.env.DEBATE_STORE_BACKEND !== 'memory';
+    const dataDir = process.env.DATA_DIR || './demo-data';
+    const store = persistent
+      ? createDebateStore({ dataDir })
+      : createDebateStore({ backend: 'memory', dataDir }, { clock: demoClock, generateId: createDemoIds() });
+    const analyzer = new DebateAnalyzer(mockRuntime, { clock: demoClock });
     const printer = new ResultPrinter();
     
     await store.initialize();
@@ -65,52 +87,48 @@ async function runDemo() {
     const session = await store.createSession('Should AI replace human teachers?');
     console.log(`✅ Session created: ${session.id}\n`);
     
+    // Register the debaters
+    const alice = await findOrRegister(store, 'Alice Johnson', 'EdTech Society');
+    const bob = await findOrRegister(store, 'Bob Smith', 'Teachers Union');
+    
     // Add demo arguments
     console.log('💬 Adding arguments...');
     
-    const arg1 = await store.addArgument(
+    await store.addArgument(
       session.id,
-      'user1',
-      'Alice Johnson',
+      alice.id,
       'AI can provide personalized learning experiences that adapt to each student\'s pace and learning style. With machine learning algorithms, AI can identify knowledge gaps and provide targeted interventions. Studies show that AI tutoring systems can improve learning outcomes by 30-40% compared to traditional methods. Additionally, AI can provide 24/7 availability and consistent quality of instruction.'
     );
     
-    const arg2 = await store.addArgument(
+    await store.addArgument(
       session.id,
-      'user2',
-      'Bob Smith',
+      bob.id,
       'While AI has technological advantages, it lacks the human touch that is crucial for education. Teachers provide emotional support, motivation, and social learning opportunities that AI cannot replicate. Human teachers can read non-verbal cues, provide encouragement during difficult times, and foster critical thinking through dialogue. The relationship between teacher and student is fundamental to the learning process and cannot be replaced by algorithms.'
     );
     
-    console.log(`✅ Added ${arg1.userName}'s argument`);
-    console.log(`✅ Added ${arg2.userName}'s argument\n`);
+    console.log(`✅ Added ${alice.displayName}'s argument`);
+    console.log(`✅ Added ${bob.displayName}'s argument\n`);
     
-    // Get the updated session with arguments
-    const updatedSession = await store.getSession(session.id);
+    // Close the session to further arguments so it can be judged
+    const updatedSession = await store.closeSession(session.id);
     if (!updatedSession) {
       throw new Error('Session not found');
     }
     
     // Analyze the debate
     console.log('🤖 Analyzing debate with AI...');
-    const result = await analyzer.analyzeDebate(updatedSession);
-    
-    // Fill in user names
-    for (const [userId, userResult] of Object.entries(result.results)) {
-      const argument = updatedSession.arguments.find(arg => arg.userId === userId);
-      if (argument) {
-        userResult.userName = argument.userName;
-      }
-    }
+    const result = await analyzer.analyzeDebate(updatedSession, await store.getSessionParticipants(updatedSession.id));
+    
+    // Save results as the session's first analysis run
+    const savedResult = await store.saveResults(result);
+    await store.markSessionJudged(updatedSession.id);
     
-    // Save results
-    await store.saveResults(result);
-    await store.markSessionProcessed(updatedSession.id);
+    await store.close();
     
     console.log('✅ Analysis complete!\n');
     
     // Display results
-    printer.printDebateResults(result);
+    printer.printDebateResults(savedResult);
     
     console.log('\n🎉 Demo completed successfully!');
     console.log('\nTo run the interactive version:');
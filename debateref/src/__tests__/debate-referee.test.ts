@@ -1,8 +1,22 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { DebateStore } from '../debateStore.js';
+import { DebateStore, PRO_CON_SIDES, STANDARD_ROUNDS, activeArguments, createDebateStore, loadStoreConfig, replyThreads, type DebateSession } from '../debateStore.js';
+import { JsonFileBackend } from '../storage/jsonFileBackend.js';
+import { MemoryBackend } from '../storage/memoryBackend.js';
+import { SqlBackend } from '../storage/sqlBackend.js';
+import { createUlidGenerator } from '../clock.js';
+import { CURRENT_SCHEMA_VERSION, runMigrations } from '../storage/migrations.js';
+import { withFileLock } from '../storage/fileSafety.js';
+import { DataCipher } from '../storage/encryption.js';
 import { ResultPrinter } from '../resultPrinter.js';
+import { DebateAnalyzer, createJudgePanel, loadAnalyzerOptions } from '../debateAnalyzer.js';
+import { DEFAULT_RUBRIC, loadRubrics, parseRubric } from '../rubric.js';
+import { krippendorffAlpha, median, standardDeviation, trimmedMean } from '../agreement.js';
+import { fitBradleyTerry, winProbability } from '../bradleyTerry.js';
+import { blindSession } from '../blind.js';
+import { PGlite } from '@electric-sql/pglite';
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { createHash } from 'crypto';
+import { join, relative } from 'path';
 
 describe('Debate Referee AI', () => {
   const testDataDir = './test-data';
@@ -10,13 +24,15 @@ describe('Debate Referee AI', () => {
   let printer: ResultPrinter;
 
   beforeEach(async () => {
-    // Use a separate test data directory
-    store = new DebateStore(testDataDir);
+    // Use a separate test data directory; the backend comes from DEBATE_STORE_BACKEND
+    store = createDebateStore({ dataDir: testDataDir });
     printer = new ResultPrinter();
     await store.initialize();
   });
 
   afterEach(async () => {
+    await store.close();
+
     // Clean up test data
     try {
       await fs.rm(testDataDir, { recursive: true, force: true });
@@ -39,16 +55,15 @@ describe('Debate Referee AI', () => {
 
     it('should add arguments to a session', async () => {
       const session = await store.createSession('Test topic');
+      const john = await store.registerParticipant('John Doe');
       const argument = await store.addArgument(
         session.id,
-        'user1',
-        'John Doe',
+        john.id,
         'This is a test argument with some evidence and logical reasoning.'
       );
       
       expect(argument).toBeDefined();
-      expect(argument.userId).toBe('user1');
-      expect(argument.userName).toBe('John Doe');
+      expect(argument.participantId).toBe(john.id);
       expect(argument.text).toBe('This is a test argument with some evidence and logical reasoning.');
       
       const updatedSession = await store.getSession(session.id);
@@ -66,6 +81,1923 @@ describe('Debate Referee AI', () => {
     });
   });
 
+  describe('Participant registry', () => {
+    it('should register participants with a stable ID and optional affiliation', async () => {
+      const madhav = await store.registerParticipant('Madhav', { affiliation: 'Debate Club' });
+
+      expect(madhav.id).toMatch(/^participant_/);
+      expect(await store.getParticipant(madhav.id)).toEqual(madhav);
+      expect((await store.listParticipants()).map(p => p.displayName)).toEqual(['Madhav']);
+    });
+
+    it('should reject duplicate display names regardless of case', async () => {
+      await store.registerParticipant('Madhav');
+      await expect(store.registerParticipant('madhav')).rejects.toThrow('already registered');
+    });
+
+    it('should reject arguments from unregistered participants', async () => {
+      const session = await store.createSession('Registry topic');
+      await expect(store.addArgument(session.id, 'maddy', 'Unknown speaker')).rejects.toThrow('not registered');
+    });
+
+    it('should resolve result names from the registry', async () => {
+      const session = await store.createSession('Registry topic');
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      await store.addArgument(session.id, alice.id, 'First, research shows this works.');
+      await store.addArgument(session.id, bob.id, 'However, it does not.');
+      await store.addArgument(session.id, alice.id, 'A follow-up point.');
+      const closed = await store.closeSession(session.id);
+
+      const participants = await store.getSessionParticipants(session.id);
+      expect(participants.map(p => p.displayName)).toEqual(['Alice', 'Bob']);
+
+      const analyzer = new DebateAnalyzer({ generateText: async () => { throw new Error('offline'); } } as any);
+      const result = await analyzer.analyzeDebate(closed, participants);
+      expect(result.results[alice.id].userName).toBe('Alice');
+      expect(result.results[bob.id].userName).toBe('Bob');
+    });
+  });
+
+  describe('Session lifecycle', () => {
+    it('should open new sessions unless they are created as drafts', async () => {
+      expect((await store.createSession('Open topic')).state).toBe('open');
+      expect((await store.createSession('Draft topic', { draft: true })).state).toBe('draft');
+    });
+
+    it('should reject arguments once a session is closed', async () => {
+      const session = await store.createSession('Closing topic');
+      const alice = await store.registerParticipant('Alice');
+      await store.addArgument(session.id, alice.id, 'Before closing');
+      await store.closeSession(session.id);
+
+      await expect(store.addArgument(session.id, alice.id, 'After closing')).rejects.toThrow('only be added while it is open');
+      expect((await store.getSession(session.id))?.arguments).toHaveLength(1);
+    });
+
+    it('should reject arguments on drafts until they are opened', async () => {
+      const session = await store.createSession('Draft topic', { draft: true });
+      const alice = await store.registerParticipant('Alice');
+      await expect(store.addArgument(session.id, alice.id, 'Too early')).rejects.toThrow('is draft');
+
+      await store.openSession(session.id);
+      await store.addArgument(session.id, alice.id, 'Now it is open');
+      expect((await store.getSession(session.id))?.arguments).toHaveLength(1);
+    });
+
+    it('should only allow judging closed sessions', async () => {
+      const session = await store.createSession('Judging topic');
+      await expect(store.markSessionJudged(session.id)).rejects.toThrow('from open to judged');
+
+      await store.closeSession(session.id);
+      const judged = await store.markSessionJudged(session.id);
+      expect(judged.state).toBe('judged');
+    });
+
+    it('should not leave the archived state through a regular transition', async () => {
+      const session = await store.createSession('Archived topic');
+      await store.archiveSession(session.id);
+      await expect(store.openSession(session.id)).rejects.toThrow('from archived to open');
+    });
+
+    it('should only archive through archiveSession', async () => {
+      const session = await store.createSession('Side door topic');
+      await expect(store.transitionSession(session.id, 'archived')).rejects.toThrow('archiveSession()');
+      expect((await store.getSession(session.id))?.state).toBe('open');
+    });
+
+    it('should restore archived sessions to the state they were archived from', async () => {
+      const session = await store.createSession('Restorable topic');
+      await store.closeSession(session.id);
+      await store.archiveSession(session.id);
+
+      const restored = await store.unarchiveSession(session.id);
+      expect(restored.state).toBe('closed');
+      expect(restored.archivedFrom).toBeUndefined();
+      await expect(store.unarchiveSession(session.id)).rejects.toThrow('not archived');
+    });
+
+    it('should delete a session together with its results', async () => {
+      const doomed = await store.createSession('Junk topic');
+      const kept = await store.createSession('Kept topic');
+      for (const session of [doomed, kept]) {
+        await store.saveResults({
+          sessionId: session.id,
+          topic: session.topic,
+          results: {},
+          winner: null,
+          isTie: false,
+          consensusStatement: 'None',
+          processedAt: Date.now(),
+        });
+      }
+
+      expect(await store.deleteSession(doomed.id)).toEqual({ sessionId: doomed.id, resultsDeleted: 1 });
+      expect(await store.getSession(doomed.id)).toBeNull();
+      expect(await store.listResultRuns(doomed.id)).toHaveLength(0);
+      expect(await store.listResultRuns(kept.id)).toHaveLength(1);
+      await expect(store.deleteSession(doomed.id)).rejects.toThrow('not found');
+    });
+
+    it('should leave archived sessions out of queries on request', async () => {
+      const visible = await store.createSession('Visible topic');
+      const hidden = await store.createSession('Hidden topic');
+      await store.archiveSession(hidden.id);
+
+      const page = await store.querySessions({ includeArchived: false });
+      expect(page.sessions.map(session => session.id)).toEqual([visible.id]);
+      expect((await store.querySessions()).total).toBe(2);
+    });
+
+    it('should require a closed session for analysis', async () => {
+      const session = await store.createSession('Analyzer topic');
+      const alice = await store.registerParticipant('Alice');
+      await store.addArgument(session.id, alice.id, 'Some argument');
+      const analyzer = new DebateAnalyzer({} as any);
+
+      await expect(analyzer.analyzeDebate((await store.getSession(session.id))!)).rejects.toThrow('must be closed');
+    });
+  });
+
+  describe('Sides', () => {
+    it('should require participants to be assigned to a side before they argue', async () => {
+      const session = await store.createSession('Sided motion', { sides: PRO_CON_SIDES });
+      expect(session.sides).toEqual([{ id: 'proposition', name: 'Proposition' }, { id: 'opposition', name: 'Opposition' }]);
+      const alice = await store.registerParticipant('Alice');
+
+      await expect(store.addArgument(session.id, alice.id, 'Unassigned')).rejects.toThrow('Assign participant');
+      await expect(store.assignSide(session.id, alice.id, 'government')).rejects.toThrow('has no side government');
+
+      await store.assignSide(session.id, alice.id, 'proposition');
+      await store.addArgument(session.id, alice.id, 'For the motion.');
+      await expect(store.assignSide(session.id, alice.id, 'opposition')).rejects.toThrow('cannot switch sides');
+      await expect(store.setSessionSides(session.id, ['Left', 'Right'])).rejects.toThrow('already has arguments');
+    });
+
+    it('should validate side names', async () => {
+      await expect(store.createSession('One-sided', { sides: ['Only'] })).rejects.toThrow('at least two sides');
+      await expect(store.createSession('Twins', { sides: ['Red', 'red'] })).rejects.toThrow('must be unique');
+
+      const session = await store.createSession('Three-way', { draft: true });
+      const updated = await store.setSessionSides(session.id, ['Keep', 'Reform', 'Abolish']);
+      expect(updated.sides?.map(side => side.id)).toEqual(['keep', 'reform', 'abolish']);
+      expect((await store.setSessionSides(session.id, [])).sides).toBeUndefined();
+    });
+
+    it('should report a winning side alongside individual scores', async () => {
+      const session = await store.createSession('Should homework be banned?', { sides: PRO_CON_SIDES });
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const carol = await store.registerParticipant('Carol');
+      await store.assignSide(session.id, alice.id, 'proposition');
+      await store.assignSide(session.id, bob.id, 'proposition');
+      await store.assignSide(session.id, carol.id, 'opposition');
+      const first = await store.addArgument(session.id, alice.id, 'Homework crowds out rest.');
+      const second = await store.addArgument(session.id, bob.id, 'Homework widens gaps between students.');
+      const third = await store.addArgument(session.id, carol.id, 'Practice at home consolidates learning.');
+      await store.closeSession(session.id);
+      const closed = (await store.getSession(session.id))!;
+
+      let prompt = '';
+      const score = (clarity: number) => ({ clarity, logic: 5, evidence: 5, relevance: 5, reasoning: 'ok' });
+      const analyzer = new DebateAnalyzer({
+        generateText: async ({ prompt: text }: { prompt: string }) => {
+          prompt = text;
+          return JSON.stringify({
+            arguments: { [first.id]: score(9), [second.id]: score(4), [third.id]: score(7) },
+            sides: { proposition: { defense: 5, reasoning: 'Two loose points' }, opposition: { defense: 8, reasoning: 'One sharp case' } },
+            consensusStatement: 'Close debate.',
+          });
+        },
+      } as any);
+      const result = await analyzer.analyzeDebate(closed, await store.listParticipants());
+
+      expect(prompt).toContain('Side: Proposition');
+      expect(prompt).toContain('how well it defended its position');
+      expect(result.winner?.userId).toBe(alice.id);
+      expect(result.winningSide).toEqual({ sideId: 'opposition', sideName: 'Opposition', finalScore: 8 });
+      expect(result.sides?.proposition.participantIds).toEqual([alice.id, bob.id]);
+      expect(result.isSideTie).toBe(false);
+    });
+
+    it('should fall back to averaging speaker scores per side', async () => {
+      const session = await store.createSession('Fallback sides', { sides: ['North', 'South', 'East'] });
+      const alice = await store.registerParticipant('Alice');
+      await store.assignSide(session.id, alice.id, 'north');
+      await store.addArgument(session.id, alice.id, 'First, according to research shows the north is right.');
+      await store.closeSession(session.id);
+
+      const analyzer = new DebateAnalyzer({ generateText: async () => { throw new Error('offline'); } } as any);
+      const result = await analyzer.analyzeDebate((await store.getSession(session.id))!, await store.listParticipants());
+
+      expect(result.sides?.north.finalScore).toBe(result.results[alice.id].finalScore);
+      expect(result.sides?.south).toMatchObject({ participantIds: [], finalScore: 0 });
+      expect(result.winningSide?.sideId).toBe('north');
+    });
+  });
+
+  describe('Rounds', () => {
+    it('should tag arguments with the current round and advance in order', async () => {
+      const session = await store.createSession('Phased motion', { rounds: STANDARD_ROUNDS });
+      expect(session.rounds?.map(round => round.id)).toEqual(['opening', 'rebuttal', 'closing']);
+      expect(session.currentRoundId).toBe('opening');
+      const alice = await store.registerParticipant('Alice');
+
+      const opening = await store.addArgument(session.id, alice.id, 'My case.');
+      await store.advanceRound(session.id);
+      const rebuttal = await store.addArgument(session.id, alice.id, 'Your case fails.');
+      await store.advanceRound(session.id);
+      await expect(store.advanceRound(session.id)).rejects.toThrow('already in its last round');
+
+      expect(opening.roundId).toBe('opening');
+      expect(rebuttal.roundId).toBe('rebuttal');
+      expect((await store.listEvents({ sessionId: session.id })).filter(event => event.type === 'session.round_advanced')).toHaveLength(2);
+      await expect(store.setSessionRounds(session.id, [])).rejects.toThrow('already has arguments');
+    });
+
+    it('should validate round definitions', async () => {
+      await expect(store.createSession('Bad rounds', { rounds: [{ name: 'Opening', kind: 'opening' }, { name: 'opening', kind: 'closing' }] }))
+        .rejects.toThrow('must be unique');
+      await expect(store.createSession('Bad kind', { rounds: [{ name: 'Cross', kind: 'crossfire' as any }] }))
+        .rejects.toThrow('Round kind must be one of');
+
+      const flat = await store.createSession('Flat');
+      await expect(store.advanceRound(flat.id)).rejects.toThrow('has no rounds');
+    });
+
+    it('should judge each round and the debate overall', async () => {
+      const session = await store.createSession('Should cities ban cars?', { rounds: STANDARD_ROUNDS.slice(0, 2) });
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const opening = await store.addArgument(session.id, alice.id, 'Cars pollute city centres.');
+      const reply = await store.addArgument(session.id, bob.id, 'Cars carry goods and people.');
+      await store.advanceRound(session.id);
+      const rebuttal = await store.addArgument(session.id, bob.id, 'Pollution falls with electric cars anyway.');
+      await store.closeSession(session.id);
+
+      let prompt = '';
+      const score = (clarity: number) => ({ clarity, logic: 5, evidence: 5, relevance: 5, reasoning: 'ok' });
+      const analyzer = new DebateAnalyzer({
+        generateText: async ({ prompt: text }: { prompt: string }) => {
+          prompt = text;
+          return JSON.stringify({
+            arguments: { [opening.id]: score(7), [reply.id]: score(6), [rebuttal.id]: score(10) },
+            consensusStatement: 'Split decision.',
+          });
+        },
+      } as any);
+      const result = await analyzer.analyzeDebate((await store.getSession(session.id))!, await store.listParticipants());
+
+      expect(prompt).toContain('ROUND 2: Rebuttal (rebuttal, ID: rebuttal)');
+      expect(prompt).toContain('answers the opposing arguments from the previous round');
+      expect(result.winner?.userId).toBe(bob.id);
+      expect(result.rounds?.opening.winner?.userId).toBe(alice.id);
+      expect(Object.keys(result.rounds?.rebuttal.results ?? {})).toEqual([bob.id]);
+    });
+  });
+
+  describe('Reply threads', () => {
+    it('should link a rebuttal to the argument it answers', async () => {
+      const session = await store.createSession('Threaded motion');
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const claim = await store.addArgument(session.id, alice.id, 'Claim.');
+      const rebuttal = await store.addArgument(session.id, bob.id, 'Counter-claim.', { replyTo: claim.id });
+      const counter = await store.addArgument(session.id, alice.id, 'Counter-counter.', { replyTo: rebuttal.id });
+      const second = await store.addArgument(session.id, bob.id, 'Unrelated point.');
+
+      expect(rebuttal.replyTo).toBe(claim.id);
+      const threads = replyThreads((await store.getSession(session.id))!.arguments);
+      expect(threads.map(({ argument, depth }) => [argument.id, depth])).toEqual([
+        [claim.id, 0], [rebuttal.id, 1], [counter.id, 2], [second.id, 0],
+      ]);
+    });
+
+    it('should reject replies to missing, withdrawn, own or same-side arguments', async () => {
+      const session = await store.createSession('Validated replies', { sides: PRO_CON_SIDES });
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const carol = await store.registerParticipant('Carol');
+      await store.assignSide(session.id, alice.id, 'proposition');
+      await store.assignSide(session.id, bob.id, 'proposition');
+      await store.assignSide(session.id, carol.id, 'opposition');
+      const claim = await store.addArgument(session.id, alice.id, 'Claim.');
+      const retracted = await store.addArgument(session.id, carol.id, 'Retracted.');
+      await store.withdrawArgument(session.id, retracted.id, carol.id);
+
+      await expect(store.addArgument(session.id, carol.id, 'Reply.', { replyTo: 'arg_missing' })).rejects.toThrow('does not exist');
+      await expect(store.addArgument(session.id, alice.id, 'Reply.', { replyTo: retracted.id })).rejects.toThrow('has been withdrawn');
+      await expect(store.addArgument(session.id, alice.id, 'Reply.', { replyTo: claim.id })).rejects.toThrow('their own arguments');
+      await expect(store.addArgument(session.id, bob.id, 'Reply.', { replyTo: claim.id })).rejects.toThrow('same side');
+      await store.addArgument(session.id, carol.id, 'Reply.', { replyTo: claim.id });
+    });
+
+    it('should show the thread structure to the judge', async () => {
+      const session = await store.createSession('Judged threads');
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const claim = await store.addArgument(session.id, alice.id, 'Claim.');
+      await store.addArgument(session.id, bob.id, 'Counter-claim.', { replyTo: claim.id });
+      await store.closeSession(session.id);
+
+      let prompt = '';
+      const analyzer = new DebateAnalyzer({ generateText: async ({ prompt: text }: { prompt: string }) => { prompt = text; throw new Error('offline'); } } as any);
+      await analyzer.analyzeDebate((await store.getSession(session.id))!, await store.listParticipants());
+
+      expect(prompt).toContain('Replying to: Argument 1');
+      expect(prompt).toContain('- Argument 1\n  - Argument 2');
+      expect(prompt).toContain('Judge responsiveness');
+    });
+  });
+
+  describe('Session rules', () => {
+    const mockScores = (session: DebateSession) => ({
+      generateText: async () => JSON.stringify({
+        arguments: Object.fromEntries(session.arguments.map(arg => [arg.id, { clarity: 8, logic: 8, evidence: 8, relevance: 8, reasoning: 'Solid.' }])),
+        consensusStatement: 'Close debate.',
+      }),
+    }) as any;
+
+    it('should reject arguments that break hard rules with every broken rule named', async () => {
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const session = await store.createSession('Hard rules', {
+        rules: { minWords: 3, maxWords: 6, maxArgumentsPerParticipant: 1, speakingOrder: [alice.id, bob.id] },
+      });
+
+      await expect(store.addArgument(session.id, bob.id, 'Too short')).rejects.toThrow(
+        /below the minimum of 3.*it is .*'s turn to speak/
+      );
+      await expect(store.addArgument(session.id, alice.id, 'one two three four five six seven')).rejects.toThrow('above the maximum of 6');
+      await store.addArgument(session.id, alice.id, 'Three words here');
+      await expect(store.addArgument(session.id, alice.id, 'Three more words')).rejects.toThrow('at most 1 arguments');
+      const accepted = await store.addArgument(session.id, bob.id, 'Bob replies now');
+      expect(accepted.penalties).toBeUndefined();
+    });
+
+    it('should enforce the submission window with the store clock', async () => {
+      let now = 1_000;
+      const timed = new DebateStore(new MemoryBackend(), { clock: { now: () => now } });
+      await timed.initialize();
+      const alice = await timed.registerParticipant('Alice');
+      const session = await timed.createSession('Timed', { rules: { opensAt: 2_000, closesAt: 3_000 } });
+
+      await expect(timed.addArgument(session.id, alice.id, 'Early.')).rejects.toThrow('submissions open at');
+      now = 2_500;
+      await timed.addArgument(session.id, alice.id, 'On time.');
+      now = 3_500;
+      await expect(timed.addArgument(session.id, alice.id, 'Late.')).rejects.toThrow('submissions closed at');
+    });
+
+    it('should accept soft violations with penalties and take them off the final score', async () => {
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const session = await store.createSession('Soft rules', {
+        rules: { maxWords: 3, enforcement: 'soft', penaltyPerViolation: 1.5 },
+      });
+      const long = await store.addArgument(session.id, alice.id, 'This argument runs well past the limit');
+      await store.addArgument(session.id, bob.id, 'Short and sweet');
+      expect(long.penalties).toEqual([expect.objectContaining({ rule: 'max_words', penalty: 1.5 })]);
+
+      // Fixing the length by editing clears the word-limit penalty
+      const edited = await store.editArgument(session.id, long.id, 'Now within limits', alice.id);
+      expect(edited.penalties).toBeUndefined();
+      await store.editArgument(session.id, long.id, 'Over the limit once again', alice.id);
+
+      await store.closeSession(session.id);
+      const closed = (await store.getSession(session.id))!;
+      const result = await new DebateAnalyzer(mockScores(closed)).analyzeDebate(closed, await store.listParticipants());
+      expect(result.results[alice.id].finalScore).toBe(6.5);
+      expect(result.results[alice.id].penalty).toBe(1.5);
+      expect(result.results[bob.id].finalScore).toBe(8);
+      expect(result.winner?.userId).toBe(bob.id);
+    });
+
+    it('should validate rules and allow changing them while the session is open', async () => {
+      await expect(store.createSession('Bad rules', { rules: { minWords: 10, maxWords: 5 } })).rejects.toThrow('cannot be more than');
+      await expect(store.createSession('Bad order', { rules: { speakingOrder: ['user_nobody'] } })).rejects.toThrow('not registered');
+
+      const session = await store.createSession('Changing rules');
+      const updated = await store.setSessionRules(session.id, { maxWords: 50 });
+      expect(updated.rules).toEqual({ maxWords: 50 });
+      expect((await store.setSessionRules(session.id, null)).rules).toBeUndefined();
+      const events = await store.listEvents({ sessionId: session.id });
+      expect(events.filter(event => event.type === 'session.rules_changed')).toHaveLength(2);
+    });
+  });
+
+  describe('Score aggregation', () => {
+    const score = (clarity: number) => ({ clarity, logic: 6, evidence: 6, relevance: 6, reasoning: `Clarity ${clarity}` });
+
+    // Alice argues three times (3, 6 and 9 clarity), Bob once (7); Alice's last argument is a rebuttal
+    const judge = async (options: ConstructorParameters<typeof DebateAnalyzer>[1] = {}) => {
+      const session = await store.createSession('Many arguments', { rounds: STANDARD_ROUNDS.slice(0, 2) });
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const scored: Record<string, ReturnType<typeof score>> = {};
+      scored[(await store.addArgument(session.id, alice.id, 'First.')).id] = score(3);
+      scored[(await store.addArgument(session.id, alice.id, 'Second.')).id] = score(6);
+      scored[(await store.addArgument(session.id, bob.id, 'Only one.')).id] = score(7);
+      await store.advanceRound(session.id);
+      scored[(await store.addArgument(session.id, alice.id, 'Third.')).id] = score(9);
+      await store.closeSession(session.id);
+
+      let prompt = '';
+      const analyzer = new DebateAnalyzer({
+        generateText: async ({ prompt: text }: { prompt: string }) => {
+          prompt = text;
+          return JSON.stringify({ arguments: scored, consensusStatement: 'Busy debate.' });
+        },
+      } as any, options);
+      const result = await analyzer.analyzeDebate((await store.getSession(session.id))!, await store.listParticipants());
+      return { result, prompt, alice, bob, argumentIds: Object.keys(scored) };
+    };
+
+    it('should keep a score for every argument and average them per participant by default', async () => {
+      const { result, prompt, alice, bob, argumentIds } = await judge();
+
+      expect(prompt).toContain(`"${argumentIds[0]}": {`);
+      expect(prompt).toContain('Score every argument separately');
+      expect(Object.keys(result.arguments ?? {})).toEqual(argumentIds);
+      expect(result.arguments?.[argumentIds[0]]).toMatchObject({ participantId: alice.id, roundId: 'opening', finalScore: 5.25 });
+      expect(result.aggregation).toBe('mean');
+      expect(result.results[alice.id].scores.clarity).toBe(6);
+      expect(result.results[alice.id].finalScore).toBe(6);
+      expect(result.winner?.userId).toBe(bob.id);
+      expect(result.rounds?.opening.results[alice.id].scores.clarity).toBe(4.5);
+    });
+
+    it('should score participants by their best argument', async () => {
+      const { result, alice } = await judge({ aggregation: 'best' });
+
+      expect(result.results[alice.id].scores.clarity).toBe(9);
+      expect(result.winner?.userId).toBe(alice.id);
+    });
+
+    it('should weight arguments by the kind of round they were made in', async () => {
+      const { result, alice, bob } = await judge({ aggregation: 'round-weighted', roundWeights: { rebuttal: 2 } });
+
+      // (3 + 6 + 2 × 9) / 4 = 6.75 clarity
+      expect(result.results[alice.id].scores.clarity).toBe(6.8);
+      expect(result.results[alice.id].finalScore).toBe(6.19);
+      expect(result.results[bob.id].finalScore).toBe(6.25);
+      expect(() => new DebateAnalyzer({} as any, { aggregation: 'median' as any })).toThrow('Unknown score aggregation');
+    });
+  });
+
+  describe('Rubrics', () => {
+    const debateRubric = {
+      id: 'debate-club',
+      name: 'Debate Club',
+      version: '2',
+      criteria: [
+        { id: 'framing', name: 'Framing', description: 'Sets the terms of the debate', weight: 0.4, levels: [{ score: 2, description: 'Borrowed framing' }, { score: 9, description: 'Owns the frame' }] },
+        { id: 'support', name: 'Support', description: 'Backs up its claims', weight: 0.6, levels: [{ score: 2, description: 'Assertions' }, { score: 9, description: 'Specific evidence' }] },
+      ],
+    };
+
+    it('should load JSON and YAML rubric files next to the default rubric', async () => {
+      const dir = join(testDataDir, 'rubrics');
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(join(dir, 'club.json'), JSON.stringify(debateRubric));
+      await fs.writeFile(join(dir, 'short.yaml'), [
+        'id: short', 'name: Short', 'version: "1"', 'criteria:',
+        '  - id: brevity', '    name: Brevity', '    description: Says it in few words', '    weight: 1',
+        '    levels:', '      - { score: 1, description: Rambling }', '      - { score: 10, description: Crisp }',
+      ].join('\n'));
+
+      const rubrics = await loadRubrics(dir);
+      expect(rubrics.map(rubric => rubric.id)).toEqual(['standard', 'debate-club', 'short']);
+      expect(rubrics[2].criteria[0].levels[1]).toEqual({ score: 10, description: 'Crisp' });
+      expect(await loadRubrics(join(testDataDir, 'missing'))).toEqual([DEFAULT_RUBRIC]);
+    });
+
+    it('should reject rubrics whose weights do not sum to 1 or repeat criteria', () => {
+      const lopsided = { ...debateRubric, criteria: [debateRubric.criteria[0], { ...debateRubric.criteria[0], weight: 0.5 }] };
+      expect(() => parseRubric(lopsided)).toThrow(/Criterion IDs must be unique.*weights must sum to 1 \(they sum to 0\.9\)/);
+      expect(() => parseRubric({ ...debateRubric, criteria: [{ ...debateRubric.criteria[0], levels: [] }] })).toThrow('criteria.0.levels');
+    });
+
+    it('should judge a session with the rubric it chose and record the rubric version', async () => {
+      const session = await store.createSession('Framed motion', { rubricId: 'debate-club' });
+      const alice = await store.registerParticipant('Alice');
+      const argument = await store.addArgument(session.id, alice.id, 'The question is really about fairness.');
+      await store.closeSession(session.id);
+      const closed = (await store.getSession(session.id))!;
+
+      let prompt = '';
+      const analyzer = new DebateAnalyzer({
+        generateText: async ({ prompt: text }: { prompt: string }) => {
+          prompt = text;
+          return JSON.stringify({ arguments: { [argument.id]: { framing: 9, support: 4, reasoning: 'Strong frame, thin support' } }, consensusStatement: 'One-sided.' });
+        },
+      } as any, { rubrics: [parseRubric(debateRubric)] });
+      const result = await analyzer.analyzeDebate(closed, await store.listParticipants());
+
+      expect(prompt).toContain('- Framing (key "framing", weight 40%): Sets the terms of the debate');
+      expect(prompt).toContain('    9: Owns the frame');
+      expect(prompt).not.toContain('Clarity');
+      expect(result.results[alice.id].scores).toEqual({ framing: 9, support: 4 });
+      expect(result.results[alice.id].finalScore).toBe(6);
+      expect(result.rubric).toMatchObject({ id: 'debate-club', version: '2' });
+
+      // A response missing one of the rubric's criteria is rejected and the heuristics take over
+      const partial = new DebateAnalyzer({
+        generateText: async () => JSON.stringify({ arguments: { [argument.id]: { framing: 9, reasoning: 'No support score' } }, consensusStatement: '' }),
+      } as any, { rubrics: [parseRubric(debateRubric)] });
+      expect((await partial.analyzeDebate(closed)).consensusStatement).toContain('Fallback analysis');
+
+      await expect(new DebateAnalyzer({} as any).analyzeDebate(closed)).rejects.toThrow('Rubric debate-club is not loaded');
+      await expect(store.setSessionRubric(session.id, 'Not A Slug')).rejects.toThrow('Invalid rubric ID');
+    });
+  });
+
+  describe('Judging panel', () => {
+    // Every judge gives each argument the same score on all criteria, picked by the judge's temperature
+    const panelRuntime = (scores: Record<number, Record<string, number>>, prompts: string[] = []) => ({
+      generateText: async ({ prompt, temperature }: { prompt: string; temperature: number }) => {
+        prompts.push(prompt);
+        if (!scores[temperature]) {
+          throw new Error('Judge unavailable');
+        }
+        const byArgument = Object.entries(scores[temperature]).map(([argumentId, score]) => [
+          argumentId,
+          { clarity: score, logic: score, evidence: score, relevance: score, reasoning: `Scored ${score}` },
+        ]);
+        return JSON.stringify({ arguments: Object.fromEntries(byArgument), consensusStatement: `Judge at ${temperature}` });
+      },
+    }) as any;
+
+    const closedDebate = async () => {
+      const session = await store.createSession('Panel motion');
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      const first = await store.addArgument(session.id, alice.id, 'Alice makes her case.');
+      const second = await store.addArgument(session.id, bob.id, 'Bob makes his.');
+      await store.closeSession(session.id);
+      return { session: (await store.getSession(session.id))!, alice, bob, first, second };
+    };
+
+    it('should read analyzer settings from the environment and name an invalid one', () => {
+      expect(loadAnalyzerOptions({ DEBATE_JUDGING_MODE: ' Pairwise ', DEBATE_MAX_CONCURRENT_CALLS: '2', DEBATE_BLIND_JUDGING: '' })).toEqual({
+        judgingMode: 'pairwise',
+        maxConcurrentCalls: 2,
+      });
+      expect(loadAnalyzerOptions({ DEBATE_PANEL_SIZE: '3' }).judges).toHaveLength(3);
+
+      expect(() => loadAnalyzerOptions({ DEBATE_JUDGING_MODE: 'elo' })).toThrow('Invalid DEBATE_JUDGING_MODE: Unknown judging mode "elo"');
+      expect(() => loadAnalyzerOptions({ DEBATE_PANEL_SIZE: '0' })).toThrow('Invalid DEBATE_PANEL_SIZE: A judging panel needs at least one judge');
+      expect(() => loadAnalyzerOptions({ DEBATE_ORDER_PERMUTATIONS: 'two' })).toThrow('Invalid DEBATE_ORDER_PERMUTATIONS');
+    });
+
+    it('should combine scores and measure agreement', () => {
+      expect(median([3, 1, 2])).toBe(2);
+      expect(trimmedMean([1, 2, 3, 4, 100], 0.2)).toBe(3);
+      expect(trimmedMean([1, 9], 0.4)).toBe(5);
+      expect(standardDeviation([2, 4])).toBe(1);
+      expect(standardDeviation([7])).toBe(0);
+
+      expect(krippendorffAlpha([[1, 1], [2, 2], [5, 5]])).toBe(1);
+      expect(krippendorffAlpha([[1, 2], [2, 1]])).toBeCloseTo(-0.5);
+      expect(krippendorffAlpha([[4], [6]])).toBeNull();
+    });
+
+    it('should combine the judges by median and keep every ballot', async () => {
+      const { session, alice, bob, first, second } = await closedDebate();
+      const prompts: string[] = [];
+      const analyzer = new DebateAnalyzer(panelRuntime({
+        0.2: { [first.id]: 8, [second.id]: 5 },
+        0.5: { [first.id]: 7, [second.id]: 6 },
+        0.8: { [first.id]: 2, [second.id]: 6 },
+      }, prompts), { judges: createJudgePanel(3), panelAggregation: 'median' });
+      const result = await analyzer.analyzeDebate(session, await store.listParticipants());
+
+      expect(prompts).toHaveLength(3);
+      expect(prompts[0]).toStartWith('JUDGE PERSONA: You are a strict logician.');
+      expect(result.results[alice.id].finalScore).toBe(7);
+      expect(result.results[bob.id].finalScore).toBe(6);
+      expect(result.consensusStatement).toBe('Judge at 0.2');
+
+      const panel = result.panel!;
+      expect(panel.aggregation).toBe('median');
+      expect(panel.ballots.map(ballot => [ballot.judgeName, ballot.temperature])).toEqual([['Logician', 0.2], ['Empiricist', 0.5], ['Lay adjudicator', 0.8]]);
+      expect(panel.ballots[2].arguments[first.id]).toEqual({ scores: { clarity: 2, logic: 2, evidence: 2, relevance: 2 }, reasoning: 'Scored 2' });
+      expect(panel.agreement.participants[alice.id]).toMatchObject({ finalScores: { 'judge-1': 8, 'judge-2': 7, 'judge-3': 2 }, stdDev: 2.62 });
+      expect(panel.agreement.participants[bob.id].stdDev).toBe(0.47);
+      expect(panel.strongDisagreement).toBe(true);
+
+      // The ballots survive a round trip through the store
+      await store.saveResults(result);
+      expect((await store.getLatestResult(session.id))!.panel!.ballots).toHaveLength(3);
+    });
+
+    it('should leave out judges that fail and not flag a panel that agrees', async () => {
+      const { session, alice, first, second } = await closedDebate();
+      const analyzer = new DebateAnalyzer(panelRuntime({
+        0.1: { [first.id]: 8, [second.id]: 4 },
+        0.2: { [first.id]: 8, [second.id]: 4 },
+      }), {
+        judges: [{ id: 'a', temperature: 0.1 }, { id: 'b', temperature: 0.2 }, { id: 'c', temperature: 0.3 }],
+        panelAggregation: 'trimmed-mean',
+      });
+      const result = await analyzer.analyzeDebate(session);
+
+      expect(result.panel!.ballots.map(ballot => ballot.judgeId)).toEqual(['a', 'b']);
+      expect(result.results[alice.id].finalScore).toBe(8);
+      expect(result.panel!.agreement.alpha).toBe(1);
+      expect(result.panel!.strongDisagreement).toBe(false);
+
+      expect(() => new DebateAnalyzer({} as any, { judges: [] })).toThrow('at least one judge');
+      expect(() => new DebateAnalyzer({} as any, { panelAggregation: 'mode' as any })).toThrow('Unknown panel aggregation');
+    });
+  });
+
+  describe('Pairwise judging', () => {
+    // Prefers Alice (or, without her, whoever is shown first) on every criterion except relevance,
+    // where it always picks whoever is shown first
+    const pairwiseRuntime = (prompts: string[] = []) => ({
+      generateText: async ({ prompt }: { prompt: string }) => {
+        prompts.push(prompt);
+        const [first, second] = [...prompt.matchAll(/^ARGUMENTS BY (.+?)( \(Side: .*\))?:$/gm)].map(match => match[1]);
+        if (!second) {
+          throw new Error('Only comparisons are mocked');
+        }
+        // Judging is blind, so Alice appears as Speaker A
+        const alice = second === 'Speaker A' ? second : first;
+        return JSON.stringify({ verdicts: { clarity: alice, logic: alice, evidence: alice, relevance: first }, reasoning: 'Alice engaged more' });
+      },
+    }) as any;
+
+    const closedDebate = async (participants: string[] = ['Alice', 'Bob']) => {
+      const session = await store.createSession('Pairwise motion');
+      const registered = [];
+      for (const name of participants) {
+        const participant = await store.registerParticipant(name);
+        await store.addArgument(session.id, participant.id, `${name} argues the point.`);
+        registered.push(participant);
+      }
+      await store.closeSession(session.id);
+      return { session: (await store.getSession(session.id))!, participants: registered };
+    };
+
+    it('should fit Bradley-Terry strengths to win counts', () => {
+      // One virtual tie per pair: 3.5 wins to 1.5
+      const strengths = fitBradleyTerry(['a', 'b'], { a: { b: 3 }, b: { a: 1 } });
+      expect(winProbability(strengths, 'a', 'b')).toBeCloseTo(0.7);
+      expect(strengths.a * strengths.b).toBeCloseTo(1);
+
+      // Transitive results rank in order, and an unbeaten competitor still gets a finite strength
+      const ranked = fitBradleyTerry(['a', 'b', 'c'], { a: { b: 2, c: 2 }, b: { c: 2 } });
+      expect(ranked.a).toBeGreaterThan(ranked.b);
+      expect(ranked.b).toBeGreaterThan(ranked.c);
+      expect(Number.isFinite(ranked.a)).toBe(true);
+    });
+
+    it('should rank participants from comparisons made in both orders', async () => {
+      const { session, participants: [alice, bob] } = await closedDebate();
+      const prompts: string[] = [];
+      const analyzer = new DebateAnalyzer(pairwiseRuntime(prompts), { judgingMode: 'pairwise' });
+      const result = await analyzer.analyzeDebate(session, await store.listParticipants());
+
+      expect(prompts).toHaveLength(2);
+      // Each side is labelled with the name its argument text uses for it
+      expect(prompts[0]).toContain('ARGUMENTS BY Speaker A:\nArgument 1:\nSpeaker A argues the point.');
+      expect(prompts[1]).toContain('ARGUMENTS BY Speaker B:\nArgument 1:\nSpeaker B argues the point.');
+      expect(prompts[1]).toContain('Answer "Speaker B", "Speaker A" or "tie"');
+      expect(result.judgingMode).toBe('pairwise');
+      expect(result.pairwise!.comparisons.map(comparison => [comparison.first, comparison.second])).toEqual([[alice.id, bob.id], [bob.id, alice.id]]);
+      expect(result.pairwise!.ranking.map(entry => entry.userName)).toEqual(['Alice', 'Bob']);
+      // Alice takes 1.8 of the 2 weighted games; with the virtual tie that is 2.3 to 0.7
+      expect(result.pairwise!.winProbabilities[alice.id][bob.id]).toBe(0.767);
+      expect(result.pairwise!.firstPositionRate).toBe(0.625);
+
+      expect(result.results[alice.id].finalScore).toBe(7.67);
+      expect(result.results[alice.id].scores).toEqual({ clarity: 8.3, logic: 8.3, evidence: 8.3, relevance: 5 });
+      expect(result.results[bob.id].finalScore).toBe(2.33);
+      expect(result.winner?.userId).toBe(alice.id);
+      expect(result.arguments).toBeUndefined();
+    });
+
+    it('should judge by scores when comparisons are not possible', async () => {
+      const analyzer = new DebateAnalyzer(pairwiseRuntime(), { judgingMode: 'both' });
+
+      // Scores are unavailable from this runtime, so the verdict comes from the heuristics
+      const { session, participants: [alice] } = await closedDebate(['Alice', 'Bob', 'Carol']);
+      const both = await analyzer.analyzeDebate(session);
+      expect(both.judgingMode).toBe('both');
+      expect(both.consensusStatement).toContain('Fallback analysis');
+      expect(both.arguments).toBeDefined();
+      expect(both.pairwise!.comparisons).toHaveLength(6);
+      expect(both.pairwise!.ranking[0].userId).toBe(alice.id);
+
+      const solo = await closedDebate(['Dana']);
+      const single = await new DebateAnalyzer(pairwiseRuntime(), { judgingMode: 'pairwise' }).analyzeDebate(solo.session);
+      expect(single.judgingMode).toBe('scores');
+      expect(single.pairwise).toBeUndefined();
+
+      expect(() => new DebateAnalyzer({} as any, { judgingMode: 'elo' as any })).toThrow('Unknown judging mode');
+    });
+
+    it('should keep at most maxConcurrentCalls comparisons in flight', async () => {
+      const { session } = await closedDebate(['Alice', 'Bob', 'Carol', 'Dana']);
+      const inner = pairwiseRuntime();
+      let inFlight = 0;
+      let peak = 0;
+      const runtime = {
+        generateText: async (params: { prompt: string }) => {
+          peak = Math.max(peak, ++inFlight);
+          await new Promise(resolve => setTimeout(resolve, 1));
+          inFlight--;
+          return await inner.generateText(params);
+        },
+      } as any;
+
+      const result = await new DebateAnalyzer(runtime, { judgingMode: 'pairwise', maxConcurrentCalls: 2 }).analyzeDebate(session);
+      expect(result.pairwise!.comparisons).toHaveLength(12);
+      expect(peak).toBe(2);
+      expect(() => new DebateAnalyzer({} as any, { maxConcurrentCalls: 0 })).toThrow('Max concurrent calls');
+    });
+  });
+
+  describe('Order bias', () => {
+    // Gives the argument shown first 9 on every criterion and the rest 5
+    const firstFavouringRuntime = (orders: string[][]) => ({
+      generateText: async ({ prompt }: { prompt: string }) => {
+        const order = [...prompt.matchAll(/^Argument \d+ \(ID: ([^,)]+)/gm)].map(match => match[1]);
+        orders.push(order);
+        const score = (argumentId: string) => (argumentId === order[0] ? 9 : 5);
+        return JSON.stringify({
+          arguments: Object.fromEntries(order.map(argumentId => [
+            argumentId,
+            { clarity: score(argumentId), logic: score(argumentId), evidence: score(argumentId), relevance: score(argumentId), reasoning: 'Scored' },
+          ])),
+          consensusStatement: 'Close debate.',
+        });
+      },
+    }) as any;
+
+    const stableRandom = () => {
+      const sequence = [0.9, 0.1, 0.6, 0.3];
+      let index = 0;
+      return () => sequence[index++ % sequence.length];
+    };
+
+    it('should average the scores over shuffled argument orders and report how far they moved', async () => {
+      const session = await store.createSession('Order motion');
+      const names = ['Alice', 'Bob', 'Carol'];
+      const participants = [];
+      const args = [];
+      for (const name of names) {
+        const participant = await store.registerParticipant(name);
+        participants.push(participant);
+        args.push(await store.addArgument(session.id, participant.id, `${name}'s argument.`));
+      }
+      await store.closeSession(session.id);
+      const closed = (await store.getSession(session.id))!;
+
+      const orders: string[][] = [];
+      const analyzer = new DebateAnalyzer(firstFavouringRuntime(orders), { orderPermutations: 3, random: stableRandom() });
+      const result = await analyzer.analyzeDebate(closed);
+
+      const [a, b, c] = args.map(arg => arg.id);
+      expect(orders).toEqual([[a, b, c], [b, a, c], [c, a, b]]);
+      // Each argument was shown first once, so the bias cancels out in the average
+      for (const participant of participants) {
+        expect(result.results[participant.id].finalScore).toBe(6.3);
+        expect(result.orderBias!.participants[participant.id]).toMatchObject({ range: 4, stdDev: 1.89 });
+      }
+      expect(result.orderBias!.participants[participants[0].id].finalScores).toEqual([9, 5, 5]);
+      expect(result.orderBias!.orderings.map(ordering => ordering.order)).toEqual(orders);
+      expect(result.isTie).toBe(true);
+
+      // Without permutations the judge sees submission order once and no report is kept
+      const single: string[][] = [];
+      const plain = await new DebateAnalyzer(firstFavouringRuntime(single)).analyzeDebate(closed);
+      expect(single).toEqual([[a, b, c]]);
+      expect(plain.orderBias).toBeUndefined();
+      expect(plain.winner?.userId).toBe(participants[0].id);
+
+      expect(() => new DebateAnalyzer({} as any, { orderPermutations: 0 })).toThrow('Order permutations');
+    });
+
+    it('should not mistake judges who score differently for order bias', async () => {
+      const session = await store.createSession('Steady judges motion');
+      const participants = [];
+      for (const name of ['Alice', 'Bob']) {
+        const participant = await store.registerParticipant(name);
+        participants.push(participant);
+        await store.addArgument(session.id, participant.id, `${name}'s argument.`);
+      }
+      await store.closeSession(session.id);
+
+      // The lenient judge gives every argument 8 and the strict one 4, whatever the order
+      const runtime = {
+        generateText: async ({ prompt, temperature }: { prompt: string; temperature: number }) => {
+          const score = temperature > 0.5 ? 8 : 4;
+          const order = [...prompt.matchAll(/^Argument \d+ \(ID: ([^,)]+)/gm)].map(match => match[1]);
+          return JSON.stringify({
+            arguments: Object.fromEntries(order.map(argumentId => [
+              argumentId,
+              { clarity: score, logic: score, evidence: score, relevance: score, reasoning: 'Scored' },
+            ])),
+            consensusStatement: 'Steady.',
+          });
+        },
+      } as any;
+
+      const analyzer = new DebateAnalyzer(runtime, { judges: createJudgePanel(2), orderPermutations: 3, random: stableRandom() });
+      const result = await analyzer.analyzeDebate((await store.getSession(session.id))!);
+      for (const participant of participants) {
+        const bias = result.orderBias!.participants[participant.id];
+        expect(bias.finalScores).toHaveLength(6);
+        expect(bias).toMatchObject({ range: 0, stdDev: 0 });
+        expect(bias.judges).toEqual({ 'judge-1': { range: 0, stdDev: 0 }, 'judge-2': { range: 0, stdDev: 0 } });
+      }
+    });
+
+    it('should keep at most maxConcurrentCalls judge calls in flight', async () => {
+      const session = await store.createSession('Busy panel motion');
+      for (const name of ['Alice', 'Bob']) {
+        const participant = await store.registerParticipant(name);
+        await store.addArgument(session.id, participant.id, `${name}'s argument.`);
+      }
+      await store.closeSession(session.id);
+
+      const orders: string[][] = [];
+      const inner = firstFavouringRuntime(orders);
+      let inFlight = 0;
+      let peak = 0;
+      const runtime = {
+        generateText: async (params: { prompt: string }) => {
+          peak = Math.max(peak, ++inFlight);
+          await new Promise(resolve => setTimeout(resolve, 1));
+          inFlight--;
+          return await inner.generateText(params);
+        },
+      } as any;
+
+      const analyzer = new DebateAnalyzer(runtime, { judges: createJudgePanel(3), orderPermutations: 3, random: stableRandom(), maxConcurrentCalls: 3 });
+      const result = await analyzer.analyzeDebate((await store.getSession(session.id))!);
+      expect(orders).toHaveLength(9);
+      expect(result.panel!.ballots).toHaveLength(3);
+      expect(peak).toBe(3);
+    });
+  });
+
+  describe('Blind judging', () => {
+    const recordingRuntime = (prompts: string[]) => ({
+      generateText: async ({ prompt }: { prompt: string }) => {
+        prompts.push(prompt);
+        const ids = [...prompt.matchAll(/^Argument \d+ \(ID: ([^,)]+)/gm)].map(match => match[1]);
+        return JSON.stringify({
+          arguments: Object.fromEntries(ids.map(argumentId => [
+            argumentId,
+            { clarity: 7, logic: 7, evidence: 7, relevance: 7, reasoning: 'Answers Speaker B directly' },
+          ])),
+          consensusStatement: 'Speaker A and Speaker B disagree on costs.',
+        });
+      },
+    }) as any;
+
+    it('should strip self-identifying phrases and replace names with speaker labels', async () => {
+      const session = await store.createSession('Blind motion');
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob Stone');
+      await store.addArgument(session.id, alice.id, "I'm Alice, and taxes should fall.\n\nRegards,\nAlice");
+      await store.addArgument(session.id, bob.id, 'My name is Bob Stone. Alice ignores the deficit, as Bob has shown.');
+
+      const blind = blindSession((await store.getSession(session.id))!, new Map([[alice.id, 'Alice'], [bob.id, 'Bob Stone']]));
+      expect(blind.session.arguments.map(arg => arg.text)).toEqual([
+        'and taxes should fall.',
+        'Speaker A ignores the deficit, as Speaker B has shown.',
+      ]);
+      expect(blind.labels.get(bob.id)).toBe('Speaker B');
+      expect(blind.redactions).toBe(5);
+      expect(blind.reveal('Speaker B rebutted Speaker A.')).toBe('Bob Stone rebutted Alice.');
+    });
+
+    it('should only replace names and IDs written as registered and long enough to be unambiguous', async () => {
+      const session = await store.createSession('Short names');
+      const al = await store.registerParticipant('Al');
+      const mark = await store.registerParticipant('Mark');
+      await store.addArgument(session.id, al.id, "I'm Al. Almost all totals are final.");
+      await store.addArgument(session.id, mark.id, 'Al is right; we should mark the ballots. Mark agrees.');
+
+      const blind = blindSession((await store.getSession(session.id))!, new Map([[al.id, 'Al'], [mark.id, 'Mark']]));
+      expect(blind.session.arguments.map(arg => arg.text)).toEqual([
+        'Almost all totals are final.',
+        'Al is right; we should mark the ballots. Speaker B agrees.',
+      ]);
+    });
+
+    it('should judge competitive sessions blind by default and record it', async () => {
+      const session = await store.createSession('Blind debate');
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      await store.addArgument(session.id, alice.id, 'Alice says costs fall.');
+      await store.addArgument(session.id, bob.id, 'Costs rise, whatever Alice says.');
+      await store.closeSession(session.id);
+      const closed = (await store.getSession(session.id))!;
+      const participants = await store.listParticipants();
+
+      const prompts: string[] = [];
+      const result = await new DebateAnalyzer(recordingRuntime(prompts)).analyzeDebate(closed, participants);
+      expect(prompts[0]).toContain('User: Speaker A):\nSpeaker A says costs fall.');
+      expect(prompts[0]).not.toMatch(/Alice|Bob/);
+      expect(result.results[alice.id]).toMatchObject({ userName: 'Alice', reasoning: 'Answers Bob directly' });
+      expect(result.consensusStatement).toBe('Alice and Bob disagree on costs.');
+      expect(result.provenance).toEqual({ blind: true, speakerLabels: { [alice.id]: 'Speaker A', [bob.id]: 'Speaker B' }, redactions: 2 });
+
+      const sighted: string[] = [];
+      const open = await new DebateAnalyzer(recordingRuntime(sighted), { blindJudging: 'never' }).analyzeDebate(closed, participants);
+      expect(sighted[0]).toContain('User: Alice):\nAlice says costs fall.');
+      expect(open.provenance).toEqual({ blind: false });
+
+      // A lone participant has no one to be judged against, so only 'always' hides them
+      const solo = await store.createSession('Solo');
+      await store.addArgument(solo.id, alice.id, 'Alice alone.');
+      await store.closeSession(solo.id);
+      const soloSession = (await store.getSession(solo.id))!;
+      expect((await new DebateAnalyzer(recordingRuntime([])).analyzeDebate(soloSession, participants)).provenance!.blind).toBe(false);
+      expect((await new DebateAnalyzer(recordingRuntime([]), { blindJudging: 'always' }).analyzeDebate(soloSession, participants)).provenance!.blind).toBe(true);
+
+      // The heuristics read the original text, so a run that fell back to them was not blind
+      const offline = new DebateAnalyzer({ generateText: async () => { throw new Error('offline'); } } as any);
+      expect((await offline.analyzeDebate(closed, participants)).provenance).toEqual({ blind: false });
+    });
+  });
+
+  describe('Argument revisions', () => {
+    it('should keep every revision when an argument is edited', async () => {
+      const session = await store.createSession('Editing topic');
+      const alice = await store.registerParticipant('Alice');
+      const argument = await store.addArgument(session.id, alice.id, 'First draft');
+
+      const edited = await store.editArgument(session.id, argument.id, 'Second draft', alice.id);
+      expect(edited.text).toBe('Second draft');
+      expect(edited.revision).toBe(2);
+      expect(edited.history.map(entry => [entry.action, entry.text])).toEqual([
+        ['submitted', 'First draft'],
+        ['edited', 'Second draft'],
+      ]);
+
+      const stored = (await store.getSession(session.id))!.arguments[0];
+      expect(stored).toEqual(edited);
+    });
+
+    it('should only allow edits while the session is open', async () => {
+      const session = await store.createSession('Locked topic');
+      const alice = await store.registerParticipant('Alice');
+      const argument = await store.addArgument(session.id, alice.id, 'Original');
+      await store.closeSession(session.id);
+
+      await expect(store.editArgument(session.id, argument.id, 'Too late', alice.id)).rejects.toThrow('cannot be changed');
+      await expect(store.editArgument('missing', argument.id, 'Nope', alice.id)).rejects.toThrow('not found');
+    });
+
+    it('should withdraw arguments with a reason and exclude them from analysis', async () => {
+      const session = await store.createSession('Withdrawal topic');
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      await store.addArgument(session.id, alice.id, 'Alice makes a point.');
+      const retracted = await store.addArgument(session.id, bob.id, 'Bob makes a point.');
+      await store.closeSession(session.id);
+
+      const withdrawn = await store.withdrawArgument(session.id, retracted.id, bob.id, 'Changed my mind');
+      expect(withdrawn.withdrawn).toBe(true);
+      expect(withdrawn.history.at(-1)).toMatchObject({ action: 'withdrawn', reason: 'Changed my mind', editedBy: bob.id });
+      await expect(store.withdrawArgument(session.id, retracted.id, bob.id)).rejects.toThrow('already been withdrawn');
+
+      const closed = (await store.getSession(session.id))!;
+      expect(activeArguments(closed).map(arg => arg.id)).not.toContain(retracted.id);
+
+      const analyzer = new DebateAnalyzer({ generateText: async () => { throw new Error('offline'); } } as any);
+      const result = await analyzer.analyzeDebate(closed, await store.getSessionParticipants(session.id));
+      expect(Object.keys(result.results)).toEqual([alice.id]);
+    });
+
+    it('should require an editor for the audit trail', async () => {
+      const session = await store.createSession('Audit topic');
+      const alice = await store.registerParticipant('Alice');
+      const argument = await store.addArgument(session.id, alice.id, 'Original');
+
+      await expect(store.editArgument(session.id, argument.id, 'Anonymous edit', '  ')).rejects.toThrow('Editor is required');
+    });
+  });
+
+  describe('Session queries', () => {
+    const seedSessions = async () => {
+      const climate = await store.createSession('Climate policy');
+      const schools = await store.createSession('School uniforms');
+      const climateTax = await store.createSession('Carbon tax and climate');
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
+      await store.addArgument(climate.id, alice.id, 'Act now.');
+      await store.addArgument(climateTax.id, alice.id, 'Tax carbon.');
+      await store.addArgument(climateTax.id, bob.id, 'Tax is regressive.');
+      await store.closeSession(schools.id);
+      return { climate, schools, climateTax, bob };
+    };
+
+    it('should filter by topic substring, participant and state', async () => {
+      const { climate, schools, climateTax, bob } = await seedSessions();
+
+      const byTopic = await store.querySessions({ topic: 'CLIMATE' });
+      expect(byTopic.sessions.map(s => s.id).sort()).toEqual([climate.id, climateTax.id].sort());
+
+      const byParticipant = await store.querySessions({ participantId: bob.id });
+      expect(byParticipant.sessions.map(s => s.id)).toEqual([climateTax.id]);
+
+      const byState = await store.querySessions({ state: 'closed' });
+      expect(byState.sessions.map(s => s.id)).toEqual([schools.id]);
+    });
+
+    it('should filter by creation date range and by whether results exist', async () => {
+      const { climate, schools } = await seedSessions();
+      await store.saveResults({
+        sessionId: climate.id,
+        topic: climate.topic,
+        results: {},
+        winner: null,
+        isTie: false,
+        consensusStatement: '',
+        processedAt: Date.now(),
+      });
+
+      expect((await store.querySessions({ hasResults: true })).sessions.map(s => s.id)).toEqual([climate.id]);
+      expect((await store.querySessions({ hasResults: false })).total).toBe(2);
+      expect((await store.querySessions({ createdFrom: Date.now() + 60_000 })).total).toBe(0);
+      expect((await store.querySessions({ createdTo: schools.createdAt })).sessions.map(s => s.id)).toContain(schools.id);
+    });
+
+    it('should sort and paginate while reporting the total', async () => {
+      await seedSessions();
+
+      const page = await store.querySessions({ sortBy: 'topic', sortOrder: 'asc', offset: 1, limit: 1 });
+      expect(page.total).toBe(3);
+      expect(page.sessions.map(s => s.topic)).toEqual(['Climate policy']);
+
+      const busiest = await store.querySessions({ sortBy: 'argumentCount', sortOrder: 'desc', limit: 1 });
+      expect(busiest.sessions[0].topic).toBe('Carbon tax and climate');
+    });
+  });
+
+  describe('Analysis history', () => {
+    const draftResult = (sessionId: string, consensusStatement: string) => ({
+      sessionId,
+      topic: 'History topic',
+      results: {},
+      winner: null,
+      isTie: false,
+      consensusStatement,
+      processedAt: Date.now(),
+    });
+
+    it('should keep every analysis run as a numbered revision', async () => {
+      const session = await store.createSession('History topic');
+      const first = await store.saveResults(draftResult(session.id, 'First verdict'));
+      const second = await store.saveResults(draftResult(session.id, 'Second verdict'));
+
+      expect(first.revision).toBe(1);
+      expect(second.revision).toBe(2);
+      expect(first.runId).not.toBe(second.runId);
+
+      const runs = await store.listResultRuns(session.id);
+      expect(runs.map(run => run.consensusStatement)).toEqual(['First verdict', 'Second verdict']);
+      expect((await store.getLatestResult(session.id))?.runId).toBe(second.runId);
+      expect((await store.getResultRun(session.id, 1))?.runId).toBe(first.runId);
+    });
+
+    it('should return the latest run until one is marked official', async () => {
+      const session = await store.createSession('History topic');
+      const first = await store.saveResults(draftResult(session.id, 'First verdict'));
+      await store.saveResults(draftResult(session.id, 'Second verdict'));
+
+      expect((await store.getResults(session.id))?.consensusStatement).toBe('Second verdict');
+
+      await store.markOfficialResult(session.id, first.runId);
+      expect((await store.getResults(session.id))?.runId).toBe(first.runId);
+      expect((await store.getSession(session.id))?.officialRunId).toBe(first.runId);
+    });
+
+    it('should reject marking an unknown run as official', async () => {
+      const session = await store.createSession('History topic');
+      await expect(store.markOfficialResult(session.id, 'run_missing')).rejects.toThrow('not found');
+    });
+  });
+
+  describe('Event journal', () => {
+    it('should record every mutation in order', async () => {
+      const session = await store.createSession('Journaled topic');
+      const alice = await store.registerParticipant('Alice');
+      const argument = await store.addArgument(session.id, alice.id, 'First version');
+      await store.editArgument(session.id, argument.id, 'Second version', alice.id);
+      await store.closeSession(session.id);
+
+      const events = await store.listEvents();
+      expect(events.map(event => event.type)).toEqual([
+        'session.created',
+        'participant.registered',
+        'argument.added',
+        'argument.edited',
+        'session.state_changed',
+      ]);
+      expect(events[4].detail).toEqual({ from: 'open', to: 'closed' });
+      expect((await store.listEvents({ sessionId: session.id })).map(event => event.type)).not.toContain('participant.registered');
+    });
+
+    it('should replay the session as it was when it was judged', async () => {
+      let time = 1_000;
+      const journaled = new DebateStore(new MemoryBackend(), { clock: { now: () => time++ } });
+      const session = await journaled.createSession('Replay topic');
+      const alice = await journaled.registerParticipant('Alice');
+      const argument = await journaled.addArgument(session.id, alice.id, 'Judged wording');
+      await journaled.closeSession(session.id);
+      const judged = await journaled.markSessionJudged(session.id);
+      const judgedAt = judged.stateChangedAt;
+
+      // Later changes must not leak into the replay
+      await journaled.closeSession(session.id);
+      await journaled.withdrawArgument(session.id, argument.id, alice.id, 'Retracted after judging');
+      await journaled.deleteSession(session.id);
+
+      const atJudgement = (await journaled.getSessionAt(session.id, judgedAt))!;
+      expect(atJudgement.state).toBe('judged');
+      expect(atJudgement.arguments[0]).toMatchObject({ text: 'Judged wording', withdrawn: false });
+
+      expect(await journaled.getSessionAt(session.id, 999)).toBeNull();
+      expect((await journaled.replay()).sessions).toEqual([]);
+      expect((await journaled.replay(judgedAt)).participants.map(p => p.id)).toEqual([alice.id]);
+    });
+
+    it('should keep the JSON journal append-only across store instances', async () => {
+      const session = await store.createSession('Shared journal');
+      const other = new DebateStore(new JsonFileBackend(testDataDir));
+      await other.archiveSession(session.id);
+
+      const lines = (await fs.readFile(join(testDataDir, 'events.ndjson'), 'utf-8')).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line).type)).toEqual(['session.created', 'session.state_changed']);
+    });
+  });
+
+  describe('Integrity checks', () => {
+    const corruptStore = async () => {
+      // The JSON backend can hold records that share an ID, as hand-edited files do
+      const backend = new JsonFileBackend(testDataDir);
+      const target = new DebateStore(backend);
+      await target.initialize();
+      const session = await target.createSession('Checked topic');
+      const alice = await target.registerParticipant('Alice');
+      const argument = await target.addArgument(session.id, alice.id, 'A checked argument.');
+      await target.closeSession(session.id);
+      const run = await target.saveResults({
+        sessionId: session.id,
+        topic: session.topic,
+        results: { [alice.id]: { userName: 'Alice', scores: { clarity: 12, logic: 7, evidence: -1, relevance: 7 }, finalScore: 7, reasoning: 'ok' } },
+        winner: { userId: alice.id, userName: 'Alice', finalScore: 7 },
+        isTie: false,
+        consensusStatement: 'Agreed',
+        processedAt: Date.now(),
+      });
+
+      await backend.rewrite(contents => {
+        contents.sessions[0].arguments[0].topic = 'An older topic';
+        contents.sessions.push({ ...structuredClone(contents.sessions[0]), topic: 'Copy with the same ID' });
+        contents.results.push({ ...structuredClone(contents.results[0]), runId: 'run_orphan', sessionId: 'debate_gone' });
+        contents.sessions.push({ id: 'debate_broken' } as any);
+      });
+      return { target, session, argument, run };
+    };
+
+    it('should report nothing for a healthy store', async () => {
+      await store.createSession('Healthy topic');
+      const report = await store.verify();
+      expect(report.issues).toEqual([]);
+      expect(report.counts.sessions).toBe(1);
+    });
+
+    it('should report orphaned results, duplicate IDs, malformed records and broken invariants', async () => {
+      const { target, argument } = await corruptStore();
+      const report = await target.verify();
+      const codes = report.issues.map(issue => issue.code);
+
+      expect(codes).toContain('orphaned_result');
+      expect(codes).toContain('duplicate_id');
+      expect(codes).toContain('malformed_record');
+      expect(report.issues.filter(issue => issue.code === 'topic_drift').map(issue => issue.recordId)).toContain(argument.id);
+      expect(report.issues.filter(issue => issue.code === 'score_out_of_range')).toHaveLength(2);
+      expect(report.repaired).toBe(0);
+
+      // Checking alone changes nothing
+      expect((await target.verify()).issues).toHaveLength(report.issues.length);
+    });
+
+    it('should repair what it safely can and journal the repair', async () => {
+      const { target, session, run } = await corruptStore();
+      const report = await target.verify({ repair: true });
+      expect(report.repaired).toBe(report.issues.filter(issue => issue.repairable).length);
+
+      const after = await target.verify();
+      expect(after.issues.map(issue => issue.code)).toEqual(['malformed_record']);
+
+      const [repairedRun] = await target.listResultRuns(session.id);
+      expect(repairedRun.runId).toBe(run.runId);
+      expect(repairedRun.results[Object.keys(repairedRun.results)[0]].scores).toMatchObject({ clarity: 10, evidence: 0 });
+      expect((await target.getSession(session.id))!.arguments[0].topic).toBe('Checked topic');
+
+      // The journal carries the repaired records, so replay sees the clamped scores too
+      const repairedEvent = (await target.listEvents()).at(-1)!;
+      expect(repairedEvent.type).toBe('store.repaired');
+      expect(repairedEvent.repairs?.removedRuns).toEqual(['run_orphan']);
+      const [replayedRun] = (await target.replay()).results;
+      expect(replayedRun.results[Object.keys(replayedRun.results)[0]].scores).toMatchObject({ clarity: 10, evidence: 0 });
+    });
+
+    it('should show repaired sessions at a point in time the same way replay does', async () => {
+      let time = 1;
+      const backend = new MemoryBackend();
+      const target = new DebateStore(backend, { clock: { now: () => time++ } });
+      await target.initialize();
+      const session = await target.createSession('Repaired topic');
+      const alice = await target.registerParticipant('Alice');
+      await target.addArgument(session.id, alice.id, 'An argument that drifts.');
+
+      // A faulty writer drifts the topic and journals the drifted session
+      await backend.rewrite(contents => {
+        contents.sessions[0].arguments[0].topic = 'A drifted topic';
+      }, contents => ({ id: 'evt_drift', type: 'argument.edited', at: time++, sessionId: session.id, session: contents.sessions[0] }));
+      await target.verify({ repair: true });
+
+      const at = time++;
+      const replayed = (await target.replay(at)).sessions.find(s => s.id === session.id)!;
+      const atRepair = (await target.getSessionAt(session.id, at))!;
+      expect(atRepair.arguments[0].topic).toBe('Repaired topic');
+      expect(atRepair).toEqual(replayed);
+    });
+  });
+
+  describe('Bundles', () => {
+    const seedDebate = async (target: DebateStore) => {
+      const session = await target.createSession('Portable topic');
+      const alice = await target.registerParticipant('Alice');
+      await target.addArgument(session.id, alice.id, 'A portable argument.');
+      await target.closeSession(session.id);
+      const run = await target.saveResults({
+        sessionId: session.id,
+        topic: session.topic,
+        results: { [alice.id]: { userName: 'Alice', scores: { clarity: 7, logic: 7, evidence: 7, relevance: 7 }, finalScore: 7, reasoning: 'ok' } },
+        winner: { userId: alice.id, userName: 'Alice', finalScore: 7 },
+        isTie: false,
+        consensusStatement: 'Agreed',
+        processedAt: Date.now(),
+      });
+      await target.markOfficialResult(session.id, run.runId);
+      return { session, alice, run };
+    };
+
+    it('should export sessions with their participants and every run', async () => {
+      const { session, alice } = await seedDebate(store);
+      await store.registerParticipant('Unrelated');
+
+      const bundle = await store.exportBundle([session.id]);
+      expect(bundle.format).toBe('debate-referee-bundle');
+      expect(bundle.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(bundle.sessions.map(s => s.id)).toEqual([session.id]);
+      expect(bundle.participants.map(p => p.id)).toEqual([alice.id]);
+      expect(bundle.results).toHaveLength(1);
+      await expect(store.exportBundle(['missing'])).rejects.toThrow('not found');
+    });
+
+    it('should import into another store and match participants by name', async () => {
+      const { session, run } = await seedDebate(store);
+      const bundle = await store.exportBundle([session.id]);
+
+      const target = new DebateStore(new MemoryBackend());
+      const existingAlice = await target.registerParticipant('alice');
+      const report = await target.importBundle(JSON.parse(JSON.stringify(bundle)));
+
+      expect(report.sessionsImported).toEqual([session.id]);
+      expect(report.participantsMatched).toBe(1);
+      expect(report.resultsImported).toBe(1);
+
+      const imported = (await target.getSession(session.id))!;
+      expect(imported.arguments[0].participantId).toBe(existingAlice.id);
+      expect(imported.officialRunId).toBe(run.runId);
+      const importedRun = (await target.getResults(session.id))!;
+      expect(importedRun.winner?.userId).toBe(existingAlice.id);
+      expect(Object.keys(importedRun.results)).toEqual([existingAlice.id]);
+    });
+
+    it('should skip or copy sessions that already exist', async () => {
+      const { session, run } = await seedDebate(store);
+      const bundle = await store.exportBundle([session.id]);
+
+      const skipped = await store.importBundle(bundle);
+      expect(skipped.sessionsSkipped).toEqual([session.id]);
+      expect(await store.getAllSessions()).toHaveLength(1);
+
+      const copied = await store.importBundle(bundle, { onSessionConflict: 'rename' });
+      const copyId = copied.sessionsImported[0];
+      expect(copyId).not.toBe(session.id);
+      expect(copied.renamedIds[session.id]).toBe(copyId);
+
+      const copy = (await store.getSession(copyId))!;
+      expect(copy.arguments[0].id).not.toBe((await store.getSession(session.id))!.arguments[0].id);
+      expect(copy.officialRunId).toBe(copied.renamedIds[run.runId]);
+      expect((await store.listResultRuns(copyId)).map(r => r.revision)).toEqual([1]);
+    });
+
+    it('should refuse files that are not bundles or come from a newer schema', async () => {
+      await expect(store.importBundle({ sessions: [] })).rejects.toThrow('Not a debate bundle');
+      await expect(store.importBundle({
+        format: 'debate-referee-bundle',
+        schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+        exportedAt: 0,
+        sessions: [],
+        participants: [],
+        results: [],
+      })).rejects.toThrow('newer than supported');
+    });
+
+    it('should refuse a bundle with any malformed record before writing anything', async () => {
+      const { session, alice } = await seedDebate(store);
+      const bundle = JSON.parse(JSON.stringify(await store.exportBundle([session.id])));
+      bundle.results[0].results[alice.id].finalScore = 'high';
+
+      const target = new DebateStore(new MemoryBackend());
+      await expect(target.importBundle(bundle)).rejects.toThrow(`Invalid bundle: results.0.results.${alice.id}.finalScore`);
+      expect(await target.getAllSessions()).toEqual([]);
+      expect(await target.listParticipants()).toEqual([]);
+      expect(await target.listEvents()).toEqual([]);
+    });
+
+    it('should leave the store as it was when an import fails part-way', async () => {
+      const { session } = await seedDebate(store);
+      const bundle = await store.exportBundle([session.id]);
+
+      let count = 0;
+      let failRuns = false;
+      const target = new DebateStore(new MemoryBackend(), {
+        generateId: prefix => {
+          if (failRuns && prefix === 'run') {
+            throw new Error('ID source unavailable');
+          }
+          return `${prefix}_${++count}`;
+        },
+      });
+      await target.importBundle(bundle);
+      const events = (await target.listEvents()).length;
+
+      // Renaming the copy's run fails after its session and arguments were already renamed
+      failRuns = true;
+      await expect(target.importBundle(bundle, { onSessionConflict: 'rename' })).rejects.toThrow('ID source unavailable');
+      expect((await target.getAllSessions()).map(s => s.id)).toEqual([session.id]);
+      expect(await target.getAllResults()).toHaveLength(1);
+      expect(await target.listEvents()).toHaveLength(events);
+    });
+  });
+
+  describe('Workspaces', () => {
+    it('should keep SQL table names for long workspace IDs within the Postgres limit', () => {
+      const longId = 'advanced-placement-debate-club-spring-term';
+      const prefix: string = new SqlBackend({ workspace: longId })['prefix'];
+      expect(`${prefix}_participants_v99_backup`.length).toBeLessThanOrEqual(63);
+      expect(prefix).not.toBe(new SqlBackend({ workspace: `${longId}-b` })['prefix']);
+      expect(new SqlBackend({ workspace: 'period-3' })['prefix']).toBe('debate_ws_period_3');
+    });
+
+    it('should keep sessions, participants and results isolated per workspace', async () => {
+      const shared = await store.createSession('Visible only in the default workspace');
+      await store.registerParticipant('Alice');
+
+      const workspace = await store.createWorkspace('Period 3');
+      expect(workspace.id).toBe('period-3');
+      expect(store.activeWorkspace.id).toBe('default');
+
+      await store.useWorkspace('Period 3');
+      expect(await store.getAllSessions()).toEqual([]);
+      expect(await store.getSession(shared.id)).toBeNull();
+      const classAlice = await store.registerParticipant('Alice');
+      const classSession = await store.createSession('Visible only in period 3');
+      await store.addArgument(classSession.id, classAlice.id, 'A class argument.');
+      expect((await store.listEvents()).map(event => event.type)).toEqual(['participant.registered', 'session.created', 'argument.added']);
+
+      await store.useWorkspace('default');
+      expect((await store.getAllSessions()).map(session => session.id)).toEqual([shared.id]);
+      expect(await store.listParticipants()).toHaveLength(1);
+    });
+
+    it('should keep workspaces and their data after reopening the store', async () => {
+      await store.createWorkspace('Team Blue', { description: 'Varsity squad' });
+      await store.useWorkspace('team-blue');
+      const session = await store.createSession('Persisted in team blue');
+
+      const reopened = createDebateStore({ dataDir: testDataDir });
+      await reopened.initialize();
+      expect(reopened.activeWorkspace.id).toBe('default');
+      expect((await reopened.listWorkspaces()).map(workspace => workspace.name)).toEqual(['Default', 'Team Blue']);
+      await reopened.useWorkspace('Team Blue');
+      expect((await reopened.getSession(session.id))?.topic).toBe('Persisted in team blue');
+      await reopened.close();
+    });
+
+    it('should apply workspace settings to new sessions', async () => {
+      await store.updateWorkspaceSettings({ draftByDefault: true });
+      expect((await store.createSession('Drafted by default')).state).toBe('draft');
+      expect((await store.createSession('Opened explicitly', { draft: false })).state).toBe('open');
+
+      await store.createWorkspace('Open Forum');
+      await store.useWorkspace('open-forum');
+      expect((await store.createSession('Open as usual')).state).toBe('open');
+      expect((await store.listWorkspaces())[0].settings.draftByDefault).toBe(true);
+    });
+
+    it('should reject duplicate and unknown workspaces', async () => {
+      await store.createWorkspace('Debate Club');
+      await expect(store.createWorkspace('debate club')).rejects.toThrow('already exists');
+      await expect(store.createWorkspace('Default')).rejects.toThrow('already exists');
+      await expect(store.createWorkspace('!!!')).rejects.toThrow('at least one letter or digit');
+      await expect(store.useWorkspace('chess-club')).rejects.toThrow('Workspace chess-club not found');
+    });
+  });
+
+  describe('SQL transactions', () => {
+    // Borrow the given connection the way workspace backends borrow their owner's
+    const sqlStore = async (connection: unknown) => {
+      const owner = new SqlBackend();
+      owner['connection'] = connection as never;
+      const target = new DebateStore(owner.forWorkspace('default'));
+      await target.initialize();
+      return target;
+    };
+
+    it('should write nothing when a later statement in the transaction fails', async () => {
+      const db = new PGlite();
+      const target = await sqlStore(db);
+      const session = await target.createSession('Kept whole');
+      const events = (await target.listEvents()).length;
+
+      await db.query('DROP TABLE debate_results');
+      await expect(target.deleteSession(session.id)).rejects.toThrow('debate_results');
+
+      expect(await target.getSession(session.id)).not.toBeNull();
+      expect(await target.listEvents()).toHaveLength(events);
+      await db.close();
+    });
+
+    it('should run every statement of a transaction on one pooled client', async () => {
+      const db = new PGlite();
+      const statements: Array<{ on: string; text: string }> = [];
+      let released = 0;
+      const pool = {
+        query: (text: string, params?: unknown[]) => {
+          statements.push({ on: 'pool', text });
+          return db.query(text, params);
+        },
+        connect: async () => ({
+          query: (text: string, params?: unknown[]) => {
+            statements.push({ on: 'client', text });
+            return db.query(text, params);
+          },
+          release: () => {
+            released++;
+          },
+        }),
+      };
+      const target = await sqlStore(pool);
+      const session = await target.createSession('Pooled');
+
+      statements.length = 0;
+      released = 0;
+      await db.query('DROP TABLE debate_results');
+      await expect(target.deleteSession(session.id)).rejects.toThrow();
+
+      expect(statements.map(statement => statement.on)).toEqual(['client', 'client', 'client', 'client']);
+      expect(statements.map(statement => statement.text.split(' ')[0])).toEqual(['BEGIN', 'DELETE', 'DELETE', 'ROLLBACK']);
+      expect(released).toBe(1);
+      expect(await target.getSession(session.id)).not.toBeNull();
+      await db.close();
+    });
+  });
+
+  describe('Clock and ID sources', () => {
+    const fixedClock = { now: () => 1_700_000_000_000 };
+    const sequentialIds = () => {
+      const counters = new Map<string, number>();
+      return (prefix: string) => {
+        counters.set(prefix, (counters.get(prefix) ?? 0) + 1);
+        return `${prefix}_${counters.get(prefix)}`;
+      };
+    };
+
+    it('should use the injected clock and ID generator', async () => {
+      const fixed = new DebateStore(new MemoryBackend(), { clock: fixedClock, generateId: sequentialIds() });
+      const session = await fixed.createSession('Deterministic topic');
+      const alice = await fixed.registerParticipant('Alice');
+      const argument = await fixed.addArgument(session.id, alice.id, 'Stable argument');
+
+      expect(session).toMatchObject({ id: 'debate_1', createdAt: 1_700_000_000_000, stateChangedAt: 1_700_000_000_000 });
+      expect(alice.id).toBe('participant_1');
+      expect(argument).toMatchObject({ id: 'arg_1', timestamp: 1_700_000_000_000 });
+
+      await fixed.closeSession(session.id);
+      const analyzer = new DebateAnalyzer({ generateText: async () => { throw new Error('offline'); } } as any, { clock: fixedClock });
+      const result = await analyzer.analyzeDebate((await fixed.getSession(session.id))!, [alice]);
+      expect(result.processedAt).toBe(1_700_000_000_000);
+      expect((await fixed.saveResults(result)).runId).toBe('run_1');
+    });
+
+    it('should stamp data files with the injected clock', async () => {
+      const fixed = createDebateStore({ backend: 'json', dataDir: testDataDir }, { clock: fixedClock });
+      await fixed.initialize();
+      await fixed.createSession('Stamped topic');
+
+      const sessions = JSON.parse(await fs.readFile(join(testDataDir, 'sessions.json'), 'utf-8'));
+      expect(sessions.updatedAt).toBe(1_700_000_000_000);
+      await fixed.close();
+    });
+
+    it('should generate prefixed ULIDs that sort in creation order', () => {
+      let time = 1_700_000_000_000;
+      const generate = createUlidGenerator({ now: () => time });
+
+      const sameMillisecond = [generate('debate'), generate('debate'), generate('debate')];
+      time += 1;
+      const later = generate('debate');
+      const ids = [...sameMillisecond, later];
+
+      ids.forEach(id => expect(id).toMatch(/^debate_[0-9A-HJKMNP-TV-Z]{26}$/));
+      expect(new Set(ids).size).toBe(ids.length);
+      expect([...ids].sort()).toEqual(ids);
+    });
+  });
+
+  describe('Store configuration', () => {
+    it('should default to the JSON backend', () => {
+      const config = loadStoreConfig({});
+      expect(config.backend).toBe('json');
+      expect(config.dataDir).toBe('./data');
+    });
+
+    it('should read the backend and data directory from the environment', () => {
+      const config = loadStoreConfig({ DEBATE_STORE_BACKEND: 'SQL', DATA_DIR: '/tmp/debates', POSTGRES_URL: 'postgres://db' });
+      expect(config).toEqual({ backend: 'sql', dataDir: '/tmp/debates', postgresUrl: 'postgres://db' });
+    });
+
+    it('should reject unknown backends', () => {
+      expect(() => loadStoreConfig({ DEBATE_STORE_BACKEND: 'mongo' })).toThrow('Unknown DEBATE_STORE_BACKEND');
+    });
+
+    it('should only read the environment for settings the caller left unset', async () => {
+      const saved = { backend: process.env.DEBATE_STORE_BACKEND, passphrase: process.env.DEBATE_ENCRYPTION_PASSPHRASE };
+      process.env.DEBATE_STORE_BACKEND = 'mongo';
+      process.env.DEBATE_ENCRYPTION_PASSPHRASE = 'secret';
+      try {
+        const explicit = createDebateStore({ backend: 'memory' });
+        expect(explicit.backendKind).toBe('memory');
+        expect(() => createDebateStore({ dataDir: testDataDir })).toThrow('Unknown DEBATE_STORE_BACKEND');
+      } finally {
+        for (const [name, value] of [['DEBATE_STORE_BACKEND', saved.backend], ['DEBATE_ENCRYPTION_PASSPHRASE', saved.passphrase]] as const) {
+          if (value === undefined) {
+            delete process.env[name];
+          } else {
+            process.env[name] = value;
+          }
+        }
+      }
+    });
+
+    it('should keep memory stores isolated from each other and from disk', async () => {
+      const first = createDebateStore({ backend: 'memory' });
+      const second = createDebateStore({ backend: 'memory' });
+      await first.initialize();
+      await second.initialize();
+
+      const session = await first.createSession('Memory topic');
+      const alice = await first.registerParticipant('Alice');
+      await first.addArgument(session.id, alice.id, 'An argument kept in memory.');
+
+      expect(first.backendKind).toBe('memory');
+      expect((await first.getSession(session.id))?.arguments).toHaveLength(1);
+      expect(await second.getAllSessions()).toHaveLength(0);
+    });
+
+    it('should save and retrieve results', async () => {
+      const session = await store.createSession('Results topic');
+      await store.saveResults({
+        sessionId: session.id,
+        topic: session.topic,
+        results: {},
+        winner: null,
+        isTie: false,
+        consensusStatement: 'Nothing to report',
+        processedAt: Date.now(),
+      });
+
+      const result = await store.getResults(session.id);
+      expect(result?.consensusStatement).toBe('Nothing to report');
+      expect(await store.getAllResults()).toHaveLength(1);
+    });
+  });
+
+  describe('JSON file safety', () => {
+    const safetyDir = './test-data-safety';
+
+    afterEach(async () => {
+      await fs.rm(safetyDir, { recursive: true, force: true });
+    });
+
+    it('should not lose arguments written concurrently by separate stores', async () => {
+      const first = new DebateStore(new JsonFileBackend(safetyDir));
+      const second = new DebateStore(new JsonFileBackend(safetyDir));
+      await first.initialize();
+      await second.initialize();
+
+      const session = await first.createSession('Concurrent topic');
+      const participant = await first.registerParticipant('Alice');
+      await Promise.all(
+        Array.from({ length: 10 }, (_, index) =>
+          (index % 2 === 0 ? first : second).addArgument(session.id, participant.id, `Argument ${index}`)
+        )
+      );
+
+      const stored = await first.getSession(session.id);
+      expect(stored?.arguments).toHaveLength(10);
+
+      const leftovers = (await fs.readdir(safetyDir)).filter(file => file.endsWith('.tmp') || file.endsWith('.lock'));
+      expect(leftovers).toEqual([]);
+    });
+
+    it('should fall back to the last good copy when the primary file is corrupt', async () => {
+      const safeStore = new DebateStore(new JsonFileBackend(safetyDir));
+      await safeStore.initialize();
+      const session = await safeStore.createSession('Recoverable topic');
+      const alice = await safeStore.registerParticipant('Alice');
+      await safeStore.addArgument(session.id, alice.id, 'First argument');
+
+      // Simulate a crash that left a truncated file behind
+      await fs.writeFile(join(safetyDir, 'sessions.json'), '[{"id": "trunc');
+
+      const sessions = await safeStore.getAllSessions();
+      expect(sessions.map(s => s.id)).toContain(session.id);
+    });
+
+    it('should take over a stale lock left by a crashed process', async () => {
+      const safeStore = new DebateStore(new JsonFileBackend(safetyDir));
+      await safeStore.initialize();
+
+      const lockFile = join(safetyDir, '.debate.lock');
+      await fs.writeFile(lockFile, JSON.stringify({ pid: -1, acquiredAt: 0 }));
+      const longAgo = new Date(Date.now() - 60_000);
+      await fs.utimes(lockFile, longAgo, longAgo);
+
+      const session = await safeStore.createSession('After a crash');
+      expect(await safeStore.getSession(session.id)).not.toBeNull();
+    });
+
+    it('should let only one of several waiters take over a stale lock', async () => {
+      await fs.mkdir(safetyDir, { recursive: true });
+      const lockFile = join(safetyDir, '.debate.lock');
+      await fs.writeFile(lockFile, JSON.stringify({ pid: -1, acquiredAt: 0 }));
+
+      let holders = 0;
+      let overlapped = false;
+      const work = () => withFileLock(lockFile, async () => {
+        holders++;
+        overlapped ||= holders > 1;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        holders--;
+      }, { retryDelayMs: 1 });
+      await Promise.all([work(), work(), work()]);
+
+      expect(overlapped).toBe(false);
+      expect((await fs.readdir(safetyDir)).filter(file => file.includes('.lock'))).toEqual([]);
+    });
+
+    it('should only remove its own lock on release', async () => {
+      await fs.mkdir(safetyDir, { recursive: true });
+      const lockFile = join(safetyDir, '.debate.lock');
+      const newer = JSON.stringify({ pid: -1, acquiredAt: Date.now(), token: 'newer' });
+
+      await withFileLock(lockFile, async () => {
+        // A waiter wrongly judged this lock stale, set it aside for us and locked the path itself
+        const { token } = JSON.parse(await fs.readFile(lockFile, 'utf-8'));
+        await fs.rename(lockFile, `${lockFile}.${token}.held`);
+        await fs.writeFile(lockFile, newer);
+      });
+
+      expect(await fs.readdir(safetyDir)).toEqual(['.debate.lock']);
+      expect(await fs.readFile(lockFile, 'utf-8')).toBe(newer);
+    });
+
+    it('should never delete a fresh lock it moved aside while taking over a stale one', async () => {
+      await fs.mkdir(safetyDir, { recursive: true });
+      const lockFile = join(safetyDir, '.debate.lock');
+      await fs.writeFile(lockFile, JSON.stringify({ pid: -1, acquiredAt: 0 }));
+      const fresh = JSON.stringify({ pid: -2, acquiredAt: Date.now(), token: 'fresh' });
+      const newer = JSON.stringify({ pid: -3, acquiredAt: Date.now(), token: 'newer' });
+
+      const rename = fs.rename;
+      fs.rename = (async (from: string, to: string) => {
+        if (from === lockFile && to.endsWith('.stale')) {
+          fs.rename = rename;
+          // Another waiter replaced the stale lock just before the move, and a third locked right after it
+          await fs.writeFile(lockFile, fresh);
+          await rename(from, to);
+          await fs.writeFile(lockFile, newer);
+          return;
+        }
+        await rename(from, to);
+      }) as typeof fs.rename;
+      try {
+        await expect(withFileLock(lockFile, async () => {}, { timeoutMs: 50, retryDelayMs: 1 })).rejects.toThrow('Timed out');
+      } finally {
+        fs.rename = rename;
+      }
+
+      expect(await fs.readFile(lockFile, 'utf-8')).toBe(newer);
+      expect(await fs.readFile(`${lockFile}.fresh.held`, 'utf-8')).toBe(fresh);
+    });
+  });
+
+  describe('Encryption at rest', () => {
+    const secureDir = './test-data-encrypted';
+    const openStore = async (encryption: { passphrase?: string; keyFile?: string } = {}) => {
+      const secureStore = new DebateStore(new JsonFileBackend(secureDir, { encryption }));
+      await secureStore.initialize();
+      return secureStore;
+    };
+
+    afterEach(async () => {
+      await fs.rm(secureDir, { recursive: true, force: true });
+    });
+
+    it('should read back encrypted data without leaving plain text on disk', async () => {
+      const secureStore = await openStore({ passphrase: 'correct horse' });
+      const session = await secureStore.createSession('Confidential motion');
+      const alice = await secureStore.registerParticipant('Alice');
+      await secureStore.addArgument(session.id, alice.id, 'A private argument.');
+
+      const reopened = await openStore({ passphrase: 'correct horse' });
+      expect((await reopened.getSession(session.id))?.arguments[0].text).toBe('A private argument.');
+      expect(await reopened.listEvents({ sessionId: session.id })).toHaveLength(2);
+
+      for (const file of ['sessions.json', 'participants.json', 'events.ndjson']) {
+        const contents = await fs.readFile(join(secureDir, file), 'utf-8');
+        expect(contents).not.toContain('Confidential');
+        expect(contents).not.toContain('Alice');
+      }
+    });
+
+    it('should refuse to read encrypted data with a wrong or missing key', async () => {
+      const secureStore = await openStore({ passphrase: 'correct horse' });
+      await secureStore.createSession('Confidential motion');
+
+      await expect(openStore({ passphrase: 'battery staple' })).rejects.toThrow('different key');
+      await expect(openStore()).rejects.toThrow('DEBATE_ENCRYPTION_PASSPHRASE');
+    });
+
+    it('should fingerprint the derived key, not the passphrase', () => {
+      const cipher = new DataCipher('correct horse');
+      const envelope = cipher.seal('A private argument.');
+      expect(envelope.keyId).not.toBe(createHash('sha256').update('correct horse').digest('hex').slice(0, 12));
+
+      expect(new DataCipher('correct horse').open(envelope)).toBe('A private argument.');
+      expect(() => new DataCipher('battery staple').open(envelope)).toThrow('different key');
+      expect(() => cipher.open({ ...envelope, tag: Buffer.alloc(16).toString('base64') })).toThrow('integrity check');
+    });
+
+    it('should encrypt a plain directory, rotate the key and decrypt it again', async () => {
+      const plainStore = await openStore();
+      const session = await plainStore.createSession('Formerly public motion');
+
+      await plainStore.reencrypt({ passphrase: 'first key' });
+      expect(await fs.readFile(join(secureDir, 'sessions.json'), 'utf-8')).not.toContain('Formerly public');
+      expect((await (await openStore({ passphrase: 'first key' })).getSession(session.id))?.topic).toBe('Formerly public motion');
+
+      const keyFile = join(secureDir, 'rotated.key');
+      await fs.writeFile(keyFile, 'second key material');
+      const rotated = await plainStore.reencrypt({ keyFile });
+      expect(rotated).toContain(join(secureDir, 'events.ndjson'));
+      await expect(openStore({ passphrase: 'first key' })).rejects.toThrow('different key');
+      expect(await (await openStore({ keyFile })).listEvents()).toHaveLength(1);
+
+      await plainStore.reencrypt({});
+      const sessions = JSON.parse(await fs.readFile(join(secureDir, 'sessions.json'), 'utf-8'));
+      expect(sessions.data[0].topic).toBe('Formerly public motion');
+    });
+
+    it('should switch every file to the new key or none', async () => {
+      const plainStore = await openStore();
+      const session = await plainStore.createSession('Switched as one');
+
+      // A file that cannot be re-sealed stops the switch before any file is replaced
+      const brokenBackup = join(secureDir, 'sessions.json.v1.backup');
+      await fs.writeFile(brokenBackup, '{ not json');
+      await expect(plainStore.reencrypt({ passphrase: 'new key' })).rejects.toThrow();
+      expect((await fs.readdir(secureDir)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+      expect((await (await openStore()).getSession(session.id))?.topic).toBe('Switched as one');
+      await fs.rm(brokenBackup);
+
+      // A switch that died after renaming one file is finished by the next initialize()
+      const backend = new JsonFileBackend(secureDir);
+      await backend.initialize();
+      const staged: Array<{ file: string; tempFile: string }> = [];
+      await backend['stageReencryption'](new DataCipher('new key'), staged);
+      const manifest = staged.map(({ file, tempFile }) => ({ file: relative(secureDir, file), tempFile: relative(secureDir, tempFile) }));
+      await fs.writeFile(join(secureDir, '.reencrypt.json'), JSON.stringify(manifest));
+      await fs.rename(staged[0].tempFile, staged[0].file);
+
+      const switched = await openStore({ passphrase: 'new key' });
+      expect((await switched.getSession(session.id))?.topic).toBe('Switched as one');
+      expect(await switched.listEvents()).toHaveLength(1);
+      expect(await fs.readdir(secureDir)).not.toContain('.reencrypt.json');
+    });
+
+    it('should only allow encryption with the json backend', () => {
+      expect(loadStoreConfig({ DEBATE_ENCRYPTION_PASSPHRASE: 'secret' }).encryption).toEqual({ passphrase: 'secret', keyFile: undefined });
+      expect(() => createDebateStore({ backend: 'memory', encryption: { passphrase: 'secret' } })).toThrow('only supported by the json backend');
+    });
+  });
+
+  describe('Schema migrations', () => {
+    const legacyDir = './test-data-legacy';
+
+    afterEach(async () => {
+      await fs.rm(legacyDir, { recursive: true, force: true });
+    });
+
+    it('should upgrade the unversioned demo data and keep a backup', async () => {
+      await fs.mkdir(legacyDir, { recursive: true });
+      await fs.copyFile('./demo-data/sessions.json', join(legacyDir, 'sessions.json'));
+      await fs.copyFile('./demo-data/results.json', join(legacyDir, 'results.json'));
+      const originalSessions = JSON.parse(await fs.readFile('./demo-data/sessions.json', 'utf-8'));
+
+      const legacyStore = new DebateStore(new JsonFileBackend(legacyDir));
+      await legacyStore.initialize();
+
+      const sessionsFile = JSON.parse(await fs.readFile(join(legacyDir, 'sessions.json'), 'utf-8'));
+      expect(sessionsFile.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(sessionsFile.kind).toBe('sessions');
+
+      const migratedSessions = await legacyStore.getAllSessions();
+      expect(migratedSessions).toHaveLength(originalSessions.length);
+      migratedSessions.forEach((session, index) => {
+        expect(session.state).toBe(originalSessions[index].processedAt ? 'judged' : 'open');
+        expect('processedAt' in session).toBe(false);
+      });
+      // Free-text user IDs become registered participants referenced by ID
+      const participants = await legacyStore.listParticipants();
+      const argumentAuthors = migratedSessions.flatMap(session => session.arguments.map(arg => arg.participantId));
+      expect(argumentAuthors.every(id => participants.some(p => p.id === id))).toBe(true);
+
+      // Every argument starts its edit history at the original text
+      migratedSessions.flatMap(session => session.arguments).forEach(arg => {
+        expect(arg.withdrawn).toBe(false);
+        expect(arg.history).toEqual([expect.objectContaining({ revision: 1, action: 'submitted', text: arg.text })]);
+      });
+
+      // The bare result object left by older builds becomes a one-element list
+      expect(await legacyStore.getAllResults()).toHaveLength(1);
+
+      const backup = JSON.parse(await fs.readFile(join(legacyDir, 'sessions.json.v1.backup'), 'utf-8'));
+      expect(backup).toEqual(originalSessions);
+    });
+
+    it('should leave current data untouched on later runs', async () => {
+      const report = await new JsonFileBackend(testDataDir).migrate();
+      expect(report.applied).toEqual([]);
+      expect(report.fromVersion).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('should migrate each file from its own version and leave current files alone', async () => {
+      const current = new DebateStore(new JsonFileBackend(legacyDir));
+      await current.initialize();
+      const speaker = await current.registerParticipant('Speaker');
+      const session = await current.createSession('Mixed versions');
+      await current.addArgument(session.id, speaker.id, 'An argument that was already edited once.');
+      await current.closeSession(session.id);
+      const sessionsBefore = await fs.readFile(join(legacyDir, 'sessions.json'), 'utf-8');
+
+      // A results file restored from an old build sits next to current sessions
+      await fs.copyFile('./demo-data/results.json', join(legacyDir, 'results.json'));
+      const report = await new JsonFileBackend(legacyDir).migrate();
+
+      expect(report.fromVersion).toBe(1);
+      expect(report.backups).toEqual([join(legacyDir, 'results.json.v1.backup')]);
+      expect(await fs.readFile(join(legacyDir, 'sessions.json'), 'utf-8')).toBe(sessionsBefore);
+
+      const reopened = new DebateStore(new JsonFileBackend(legacyDir));
+      await reopened.initialize();
+      expect((await reopened.getSession(session.id))?.state).toBe('closed');
+      expect(await reopened.getAllResults()).toHaveLength(1);
+    });
+
+    it('should refuse data written by a newer schema', () => {
+      expect(() => runMigrations({ sessions: [], results: [] }, CURRENT_SCHEMA_VERSION + 1)).toThrow('newer than supported');
+    });
+  });
+
   describe('ResultPrinter', () => {
     it('should format text correctly', () => {
       const longText = 'This is a very long text that should be wrapped to fit within the specified width limit for proper display in the console output.';
@@ -92,18 +2024,18 @@ describe('Debate Referee AI', () => {
       // Create session
       const session = await store.createSession('Should we use AI in education?');
       
-      // Add arguments
+      // Register participants and add arguments
+      const alice = await store.registerParticipant('Alice');
+      const bob = await store.registerParticipant('Bob');
       await store.addArgument(
         session.id,
-        'user1',
-        'Alice',
+        alice.id,
         'AI can provide personalized learning experiences and adapt to individual student needs, making education more effective.'
       );
       
       await store.addArgument(
         session.id,
-        'user2',
-        'Bob',
+        bob.id,
         'While AI has benefits, it lacks the human touch and emotional intelligence that teachers provide, which is crucial for student development.'
       );
       
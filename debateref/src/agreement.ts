@@ -0,0 +1,92 @@
+/**
+ * How a judging panel's scores for the same item are combined
+ */
+export type PanelAggregation = 'mean' | 'median' | 'trimmed-mean';
+
+/**
+ * Arithmetic mean of a non-empty list
+ */
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Middle value of a non-empty list, or the mean of the two middle values
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Mean after dropping the given fraction of values from each end. At least one value is always
+ * kept, so small panels degrade to the median rather than to nothing.
+ */
+export function trimmedMean(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.min(Math.floor(sorted.length * fraction), Math.floor((sorted.length - 1) / 2));
+  return mean(sorted.slice(trim, sorted.length - trim));
+}
+
+/**
+ * Combine values with a panel aggregation method
+ */
+export function aggregate(values: number[], method: PanelAggregation, trimFraction: number): number {
+  switch (method) {
+    case 'median':
+      return median(values);
+    case 'trimmed-mean':
+      return trimmedMean(values, trimFraction);
+    default:
+      return mean(values);
+  }
+}
+
+/**
+ * Population standard deviation; 0 for fewer than two values
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+/**
+ * Krippendorff's alpha for interval data. Each unit is the list of ratings different judges gave
+ * one item; units with fewer than two ratings are ignored. 1 is perfect agreement, 0 is agreement
+ * no better than chance, and negative values are systematic disagreement. Returns null when there
+ * is nothing to compare, and 1 when every rating is identical.
+ */
+export function krippendorffAlpha(units: number[][]): number | null {
+  const pairable = units.filter(unit => unit.length >= 2);
+  const values = pairable.flat();
+  const n = values.length;
+  if (n < 2) {
+    return null;
+  }
+
+  let observed = 0;
+  for (const unit of pairable) {
+    let unitSum = 0;
+    for (let i = 0; i < unit.length; i++) {
+      for (let j = 0; j < unit.length; j++) {
+        unitSum += (unit[i] - unit[j]) ** 2;
+      }
+    }
+    observed += unitSum / (unit.length - 1);
+  }
+  observed /= n;
+
+  let expected = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      expected += (values[i] - values[j]) ** 2;
+    }
+  }
+  expected /= n * (n - 1);
+
+  return expected === 0 ? 1 : 1 - observed / expected;
+}
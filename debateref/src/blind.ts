@@ -0,0 +1,114 @@
+import { type DebateSession } from './debateStore.js';
+
+/**
+ * When judges see speaker labels instead of participant names: always, never, or only for
+ * competitive sessions
+ */
+export type BlindJudging = 'auto' | 'always' | 'never';
+
+/**
+ * A session as blind judges see it: argument text with identities stripped, and a neutral label
+ * for each participant in place of their name
+ */
+export interface BlindSession {
+  session: DebateSession;
+  /** Participant ID → label, e.g. "Speaker A", in order of first argument */
+  labels: Map<string, string>;
+  /** How many self-identifying phrases and name mentions were removed or replaced */
+  redactions: number;
+  /** Turn labels in the judges' reasoning back into participant names */
+  reveal(text: string): string;
+}
+
+/**
+ * Phrases that introduce or sign off as the speaker, checked against the argument's own author
+ */
+const SELF_INTRODUCTION = String.raw`\b(?:my name is|my name's|i am|i'm|this is|speaking as)\s+`;
+const SIGN_OFF = String.raw`^[ \t]*(?:[-–—~]+[ \t]*|(?:regards|best|cheers|thanks|sincerely|yours)[^\n]*?,?\s*)`;
+
+/**
+ * Names only match as whole words: not followed by a letter, digit or underscore
+ */
+const BOUNDARY = String.raw`(?![\p{L}\p{N}_])`;
+
+/**
+ * Shortest name, name part or ID replaced wherever it appears; shorter ones too often occur as
+ * ordinary words, so they are only removed from the author's own introductions and sign-offs
+ */
+const MIN_REPLACED_LENGTH = 3;
+
+/**
+ * Whether participants compete against each other: the session has sides or more than one
+ * participant argued
+ */
+export function isCompetitive(session: DebateSession): boolean {
+  return Boolean(session.sides?.length) || new Set(session.arguments.map(arg => arg.participantId)).size > 1;
+}
+
+/**
+ * Neutral label for the participant at a position: Speaker A to Speaker Z, then Speaker 27 onwards
+ */
+export function speakerLabel(index: number): string {
+  return index < 26 ? `Speaker ${String.fromCharCode(65 + index)}` : `Speaker ${index + 1}`;
+}
+
+/**
+ * Prepare a session for blind judging. Participants are labelled in the order they first argued.
+ * An author introducing or signing off as themselves has the phrase removed; any other mention of a
+ * participant's name or ID becomes their label, so rebuttals can still refer to each other. Names,
+ * parts of a longer name (e.g. "Bob" of "Bob Smith") and IDs are only replaced when written exactly
+ * as registered and at least three characters long.
+ */
+export function blindSession(session: DebateSession, names: Map<string, string>): BlindSession {
+  const labels = new Map<string, string>();
+  for (const arg of session.arguments) {
+    if (!labels.has(arg.participantId)) {
+      labels.set(arg.participantId, speakerLabel(labels.size));
+    }
+  }
+
+  // Longer identities first, so "Ann Lee" is replaced before "Ann"
+  const identities = [...labels.keys()]
+    .flatMap(participantId => {
+      const name = names.get(participantId)?.trim() ?? '';
+      const parts = name.split(/\s+/).filter(part => part.length >= MIN_REPLACED_LENGTH && part !== name);
+      return [participantId, name, ...parts].filter(Boolean).map(identity => ({
+        participantId,
+        pattern: escapeRegExp(identity),
+        anywhere: identity.length >= MIN_REPLACED_LENGTH,
+      }));
+    })
+    .sort((a, b) => b.pattern.length - a.pattern.length);
+
+  let redactions = 0;
+  const strip = (text: string, pattern: RegExp, replacement: string) => text.replace(pattern, () => {
+    redactions++;
+    return replacement;
+  });
+
+  const args = session.arguments.map(arg => {
+    let text = arg.text;
+    for (const { participantId, pattern, anywhere } of identities) {
+      if (participantId === arg.participantId) {
+        text = strip(text, new RegExp(`${SELF_INTRODUCTION}${pattern}${BOUNDARY}[ \\t]*[,.:;!]?[ \\t]*`, 'giu'), '');
+        text = strip(text, new RegExp(`${SIGN_OFF}${pattern}${BOUNDARY}[ \\t]*[.!]?[ \\t]*$`, 'gimu'), '');
+      }
+      if (anywhere) {
+        text = strip(text, new RegExp(`(?<![\\p{L}\\p{N}_])${pattern}${BOUNDARY}`, 'gu'), labels.get(participantId)!);
+      }
+    }
+    return { ...arg, text: text.trim() };
+  });
+
+  const revealed = [...labels].map(([participantId, label]) => ({ label, name: names.get(participantId) ?? participantId }));
+  return {
+    session: { ...session, arguments: args },
+    labels,
+    redactions,
+    reveal: text => revealed.reduce((result, { label, name }) => result.replace(new RegExp(`\\b${label}\\b`, 'g'), name), text),
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,56 @@
+/**
+ * Win counts between competitors: wins[a][b] is how often a beat b. Ties count half a win each way.
+ */
+export type WinCounts = Record<string, Record<string, number>>;
+
+/**
+ * Virtual tie added between every pair before fitting, so a competitor who won every comparison
+ * still gets a finite strength and competitors who never met are still comparable
+ */
+const PRIOR_TIE = 0.5;
+
+const MAX_ITERATIONS = 10000;
+const TOLERANCE = 1e-10;
+
+/**
+ * Fit a Bradley-Terry model to win counts with Hunter's MM algorithm. The model gives each
+ * competitor a strength s so that a beats b with probability s_a / (s_a + s_b). Strengths are scaled
+ * so their geometric mean is 1: above 1 is stronger than the typical competitor.
+ */
+export function fitBradleyTerry(ids: string[], wins: WinCounts): Record<string, number> {
+  const won = (a: string, b: string) => (wins[a]?.[b] ?? 0) + PRIOR_TIE;
+  let strengths = new Map(ids.map(id => [id, 1]));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = new Map<string, number>();
+    for (const id of ids) {
+      const opponents = ids.filter(other => other !== id);
+      const totalWins = opponents.reduce((sum, other) => sum + won(id, other), 0);
+      const denominator = opponents.reduce(
+        (sum, other) => sum + (won(id, other) + won(other, id)) / (strengths.get(id)! + strengths.get(other)!),
+        0
+      );
+      next.set(id, denominator > 0 ? totalWins / denominator : 1);
+    }
+
+    const logMean = ids.reduce((sum, id) => sum + Math.log(next.get(id)!), 0) / ids.length;
+    for (const id of ids) {
+      next.set(id, next.get(id)! / Math.exp(logMean));
+    }
+
+    const change = Math.max(...ids.map(id => Math.abs(next.get(id)! - strengths.get(id)!)));
+    strengths = next;
+    if (change < TOLERANCE) {
+      break;
+    }
+  }
+
+  return Object.fromEntries(strengths);
+}
+
+/**
+ * Probability that a beats b under fitted strengths
+ */
+export function winProbability(strengths: Record<string, number>, a: string, b: string): number {
+  return strengths[a] / (strengths[a] + strengths[b]);
+}
@@ -0,0 +1,80 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Source of the current time, injectable so tests and demos get stable timestamps
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Clock backed by the system time
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Record types that receive generated IDs; the prefix is kept in front of every ID
+ */
+export type IdPrefix = 'debate' | 'arg' | 'participant' | 'run' | 'event';
+
+/**
+ * Produces a new unique ID for a record type
+ */
+export type IdGenerator = (prefix: IdPrefix) => string;
+
+// Crockford base32, as used by ULIDs
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ULID_TIME_LENGTH = 10;
+const ULID_RANDOM_LENGTH = 16;
+
+/**
+ * Create a generator of prefixed ULIDs (e.g. `debate_01J9ZK3M7Q...`). IDs sort by creation time,
+ * and IDs created in the same millisecond stay in creation order.
+ */
+export function createUlidGenerator(clock: Clock = systemClock): IdGenerator {
+  let lastTime = -1;
+  let lastRandom: number[] = [];
+
+  return prefix => {
+    const time = clock.now();
+
+    if (time === lastTime) {
+      lastRandom = incrementBase32(lastRandom);
+    } else {
+      lastTime = time;
+      lastRandom = [...randomBytes(ULID_RANDOM_LENGTH)].map(byte => byte % ULID_ALPHABET.length);
+    }
+
+    return `${prefix}_${encodeTime(time)}${lastRandom.map(digit => ULID_ALPHABET[digit]).join('')}`;
+  };
+}
+
+/**
+ * Encode a millisecond timestamp as the 10-character ULID time component
+ */
+function encodeTime(time: number): string {
+  let remaining = Math.floor(time);
+  let encoded = '';
+  for (let i = 0; i < ULID_TIME_LENGTH; i++) {
+    encoded = ULID_ALPHABET[remaining % ULID_ALPHABET.length] + encoded;
+    remaining = Math.floor(remaining / ULID_ALPHABET.length);
+  }
+  return encoded;
+}
+
+/**
+ * Add one to a base32 digit string, keeping same-millisecond IDs monotonic
+ */
+function incrementBase32(digits: number[]): number[] {
+  const next = [...digits];
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < ULID_ALPHABET.length - 1) {
+      next[i]++;
+      return next;
+    }
+    next[i] = 0;
+  }
+  throw new Error('ULID random component overflowed within one millisecond');
+}
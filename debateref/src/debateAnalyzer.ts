@@ -1,16 +1,37 @@
 import { type IAgentRuntime, logger, ModelType } from '@elizaos/core';
-import { type DebateSession, type DebateResult } from './debateStore.js';
+import {
+  activeArguments,
+  argumentsByRound,
+  penaltiesByParticipant,
+  replyThreads,
+  sideOf,
+  type Argument,
+  type DebateSession,
+  type DebateResult,
+  type JudgeBallot,
+  type JudgingMode,
+  type PairwiseComparison,
+  type Participant,
+  type RoundKind,
+  type ScoreAggregation,
+  type UnsavedDebateResult,
+} from './debateStore.js';
+import { systemClock, type Clock } from './clock.js';
+import { DEFAULT_RUBRIC, formatWeight, type Rubric } from './rubric.js';
+import { aggregate, krippendorffAlpha, mean, standardDeviation, type PanelAggregation } from './agreement.js';
+import { fitBradleyTerry, winProbability, type WinCounts } from './bradleyTerry.js';
+import { blindSession, isCompetitive, type BlindJudging } from './blind.js';
 
 /**
  * Interface for AI scoring response
  */
 interface AIScoringResponse {
-  scores: {
-    [userId: string]: {
-      clarity: number;
-      logic: number;
-      evidence: number;
-      relevance: number;
+  /** Scores for every argument, keyed by argument ID */
+  arguments: ArgumentScoringData;
+  /** How well each side defended its position, for sessions with sides */
+  sides?: {
+    [sideId: string]: {
+      defense: number;
       reasoning: string;
     };
   };
@@ -18,67 +39,240 @@ interface AIScoringResponse {
 }
 
 /**
- * Interface for fallback scoring data
+ * Scores for each rubric criterion (by criterion ID) and reasoning, keyed by argument ID, from the
+ * AI or the fallback heuristics
  */
-interface FallbackScoringData {
-  [userId: string]: {
-    clarity: number;
-    logic: number;
-    evidence: number;
-    relevance: number;
+interface ArgumentScoringData {
+  [argumentId: string]: {
     reasoning: string;
+    [criterionId: string]: number | string;
   };
 }
 
+/**
+ * The debate as the judges see it: the session as prompted, the names participants go by, and how to
+ * turn those names in the judges' reasoning back into the real ones
+ */
+interface JudgeView {
+  session: DebateSession;
+  names: Map<string, string>;
+  reveal(text: string): string;
+}
+
+/**
+ * One judge call's ballot and the argument IDs in the order that judge saw them
+ */
+interface ScoredOrdering {
+  judge: JudgeConfig;
+  order: string[];
+  ballot: JudgeBallot;
+}
+
+/**
+ * Weight of an argument under round-weighted aggregation, by the kind of round it was made in.
+ * Rebuttals and closings count for more because they have to engage with the rest of the debate.
+ */
+export const DEFAULT_ROUND_WEIGHTS: Record<RoundKind, number> = {
+  opening: 1,
+  rebuttal: 1.5,
+  closing: 1.25,
+  other: 1,
+};
+
+/**
+ * One judge on the analysis panel. Judges differ by model, temperature or persona.
+ */
+export interface JudgeConfig {
+  id: string;
+  name?: string;
+  /** Model type passed to generateText (default TEXT_LARGE) */
+  model?: string;
+  /** Default 0.3, low for consistent scoring */
+  temperature?: number;
+  /** Perspective the judge takes, prepended to the prompt, e.g. "You care most about evidence" */
+  persona?: string;
+}
+
+/**
+ * Personas handed out in turn by createJudgePanel
+ */
+const PANEL_PERSONAS = [
+  { name: 'Logician', persona: 'You are a strict logician. Penalize unsupported leaps, fallacies and internal contradictions.' },
+  { name: 'Empiricist', persona: 'You care most about evidence. Reward specific, verifiable support and penalize vague claims.' },
+  { name: 'Lay adjudicator', persona: 'You judge as an intelligent member of the public would: what was clear and persuasive to you?' },
+];
+
+/**
+ * A panel of judges with different personas and temperatures spread between 0.2 and 0.8
+ */
+export function createJudgePanel(size: number): JudgeConfig[] {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error('A judging panel needs at least one judge');
+  }
+  return Array.from({ length: size }, (_, index) => {
+    const { name, persona } = PANEL_PERSONAS[index % PANEL_PERSONAS.length];
+    return {
+      id: `judge-${index + 1}`,
+      name: size > PANEL_PERSONAS.length ? `${name} ${index + 1}` : name,
+      temperature: size === 1 ? 0.3 : Math.round((0.2 + (0.6 * index) / (size - 1)) * 100) / 100,
+      persona,
+    };
+  });
+}
+
+/**
+ * Read analyzer settings from the environment: DEBATE_SCORE_AGGREGATION to pick how a participant's
+ * argument scores combine, DEBATE_PANEL_SIZE for the number of judges and DEBATE_PANEL_AGGREGATION
+ * for how their scores combine, DEBATE_JUDGING_MODE to judge by scores, pairwise comparisons or
+ * both, DEBATE_ORDER_PERMUTATIONS for how many argument orders each judge scores,
+ * DEBATE_BLIND_JUDGING for when participant identities are hidden from the judges, and
+ * DEBATE_MAX_CONCURRENT_CALLS for how many model calls an analysis makes at once. An invalid value
+ * fails here, naming its variable.
+ */
+export function loadAnalyzerOptions(env: Record<string, string | undefined> = process.env): DebateAnalyzerOptions {
+  const fromEnv = (name: string, parse: (value: string) => DebateAnalyzerOptions): DebateAnalyzerOptions => {
+    const value = env[name]?.trim();
+    if (!value) {
+      return {};
+    }
+    try {
+      const options = parse(value);
+      checkOptions(options);
+      return options;
+    } catch (error) {
+      throw new Error(`Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return {
+    ...fromEnv('DEBATE_SCORE_AGGREGATION', value => ({ aggregation: value.toLowerCase() as ScoreAggregation })),
+    ...fromEnv('DEBATE_PANEL_SIZE', value => ({ judges: createJudgePanel(Number(value)) })),
+    ...fromEnv('DEBATE_PANEL_AGGREGATION', value => ({ panelAggregation: value.toLowerCase() as PanelAggregation })),
+    ...fromEnv('DEBATE_JUDGING_MODE', value => ({ judgingMode: value.toLowerCase() as JudgingMode })),
+    ...fromEnv('DEBATE_ORDER_PERMUTATIONS', value => ({ orderPermutations: Number(value) })),
+    ...fromEnv('DEBATE_BLIND_JUDGING', value => ({ blindJudging: value.toLowerCase() as BlindJudging })),
+    ...fromEnv('DEBATE_MAX_CONCURRENT_CALLS', value => ({ maxConcurrentCalls: Number(value) })),
+  };
+}
+
+/**
+ * Options for a DebateAnalyzer
+ */
+export interface DebateAnalyzerOptions {
+  clock?: Clock;
+  /** How a participant's argument scores combine (default mean) */
+  aggregation?: ScoreAggregation;
+  /** Overrides for DEFAULT_ROUND_WEIGHTS, used by round-weighted aggregation */
+  roundWeights?: Partial<Record<RoundKind, number>>;
+  /** Rubrics sessions can choose from, e.g. from loadRubrics(); the default rubric is always available */
+  rubrics?: Rubric[];
+  /** Judge by criterion scores, by pairwise comparisons of participants, or both (default scores) */
+  judgingMode?: JudgingMode;
+  /** Most model calls in flight at once for one analysis, across judges, orderings and comparisons (default 4) */
+  maxConcurrentCalls?: number;
+  /** Times each judge scores the debate, in submission order and then shuffled orders, averaging the calls (default 1) */
+  orderPermutations?: number;
+  /** Source of randomness for shuffling argument order, injectable so tests get stable orders (default Math.random) */
+  random?: () => number;
+  /** Hide participant identities from the judges: always, never, or for competitive sessions (default auto) */
+  blindJudging?: BlindJudging;
+  /** Judges scoring each debate independently (default one judge) */
+  judges?: JudgeConfig[];
+  /** How the judges' scores combine (default mean) */
+  panelAggregation?: PanelAggregation;
+  /** Fraction of scores dropped from each end by trimmed-mean (default 0.2) */
+  trimFraction?: number;
+  /** The panel strongly disagrees below this alpha or above this spread of a participant's final scores (defaults 0.4 and 2) */
+  disagreement?: { minAlpha?: number; maxStdDev?: number };
+}
+
 /**
  * Debate Analyzer - Handles AI processing and scoring of arguments
  */
 export class DebateAnalyzer {
   private runtime: IAgentRuntime;
-  private readonly scoringWeights = {
-    clarity: 0.25,
-    logic: 0.30,
-    evidence: 0.25,
-    relevance: 0.20,
-  };
+  private readonly clock: Clock;
+  private readonly aggregation: ScoreAggregation;
+  private readonly roundWeights: Record<RoundKind, number>;
+  private readonly rubrics: Rubric[];
+  private readonly judgingMode: JudgingMode;
+  private readonly maxConcurrentCalls: number;
+  private readonly orderPermutations: number;
+  private readonly blindJudging: BlindJudging;
+  private readonly random: () => number;
+  private readonly judges: JudgeConfig[];
+  private readonly panelAggregation: PanelAggregation;
+  private readonly trimFraction: number;
+  private readonly disagreement: { minAlpha: number; maxStdDev: number };
 
-  constructor(runtime: IAgentRuntime) {
+  constructor(runtime: IAgentRuntime, options: DebateAnalyzerOptions = {}) {
+    checkOptions(options);
     this.runtime = runtime;
+    this.clock = options.clock ?? systemClock;
+    this.aggregation = options.aggregation ?? 'mean';
+    this.roundWeights = { ...DEFAULT_ROUND_WEIGHTS, ...options.roundWeights };
+    this.rubrics = options.rubrics ?? [];
+    if (!this.rubrics.some(rubric => rubric.id === DEFAULT_RUBRIC.id)) {
+      this.rubrics = [DEFAULT_RUBRIC, ...this.rubrics];
+    }
+    this.judgingMode = options.judgingMode ?? 'scores';
+    this.maxConcurrentCalls = options.maxConcurrentCalls ?? 4;
+    this.orderPermutations = options.orderPermutations ?? 1;
+    this.random = options.random ?? Math.random;
+    this.blindJudging = options.blindJudging ?? 'auto';
+    this.judges = options.judges ?? [{ id: 'judge-1', name: 'Judge' }];
+    this.panelAggregation = options.panelAggregation ?? 'mean';
+    this.trimFraction = options.trimFraction ?? 0.2;
+    this.disagreement = { minAlpha: 0.4, maxStdDev: 2, ...options.disagreement };
   }
 
   /**
-   * Analyze a debate session and return results
+   * Analyze a debate session and return results. Participant names are resolved from the
+   * given registry entries. Only the current revision of arguments that were not withdrawn is scored.
    */
-  async analyzeDebate(session: DebateSession): Promise<DebateResult> {
+  async analyzeDebate(fullSession: DebateSession, participants: Participant[] = []): Promise<UnsavedDebateResult> {
+    const session: DebateSession = { ...fullSession, arguments: activeArguments(fullSession) };
+
     try {
       logger.info(`Analyzing debate session: ${session.id}`);
       
+      if (session.state !== 'closed' && session.state !== 'judged') {
+        throw new Error(`Session must be closed before it is judged (current state: ${session.state})`);
+      }
+
       if (session.arguments.length === 0) {
         throw new Error('No arguments to analyze');
       }
 
-      // Try AI analysis first
-      let aiResponse: AIScoringResponse;
-      try {
-        aiResponse = await this.performAIAnalysis(session);
-      } catch (error) {
-        logger.warn(`AI analysis failed, using fallback: ${error instanceof Error ? error.message : String(error)}`);
-        aiResponse = this.performFallbackAnalysis(session);
-      }
+      const names = new Map(participants.map(participant => [participant.id, participant.displayName]));
+      const rubric = this.getRubric(session.rubricId ?? DEFAULT_RUBRIC.id);
 
-      // Calculate final scores and determine winner
-      const results = this.calculateFinalScores(aiResponse.scores);
-      const winner = this.determineWinner(results);
-
-      const debateResult: DebateResult = {
-        sessionId: session.id,
-        topic: session.topic,
-        results,
-        winner: winner.winner,
-        isTie: winner.isTie,
-        consensusStatement: aiResponse.consensusStatement,
-        processedAt: Date.now(),
-      };
+      // Blind judges see speaker labels and argument text stripped of identities
+      const blind = this.blindJudging === 'always' || (this.blindJudging === 'auto' && isCompetitive(session))
+        ? blindSession(session, names)
+        : null;
+      const view: JudgeView = blind
+        ? { session: blind.session, names: blind.labels, reveal: blind.reveal }
+        : { session, names, reveal: text => text };
+
+      // Comparisons need at least two participants; a debate with one is judged by scores
+      const competitors = [...new Set(session.arguments.map(arg => arg.participantId))];
+      const pairwise = this.judgingMode !== 'scores' && competitors.length > 1
+        ? await this.performPairwiseAnalysis(view, competitors, names, rubric)
+        : null;
+
+      const debateResult = this.judgingMode === 'pairwise' && pairwise
+        ? this.judgeByComparisons(session, pairwise, rubric)
+        : await this.judgeByScores(session, names, rubric, view);
+      debateResult.judgingMode = pairwise ? this.judgingMode : 'scores';
+      // Only blind when an AI judge actually read the blinded text; the heuristics read the original
+      const judgedByModel = pairwise !== null || debateResult.panel !== undefined;
+      debateResult.provenance = blind && judgedByModel
+        ? { blind: true, speakerLabels: Object.fromEntries(blind.labels), redactions: blind.redactions }
+        : { blind: false };
+      if (pairwise) {
+        debateResult.pairwise = pairwise;
+      }
 
       logger.info(`Debate analysis completed for session: ${session.id}`);
       return debateResult;
@@ -90,58 +284,592 @@ export class DebateAnalyzer {
   }
 
   /**
-   * Perform AI analysis using OpenAI plugin
+   * Judge a debate by criterion scores for each argument, from the judging panel or the heuristics
    */
-  private async performAIAnalysis(session: DebateSession): Promise<AIScoringResponse> {
-    const prompt = this.constructAnalysisPrompt(session);
+  private async judgeByScores(session: DebateSession, names: Map<string, string>, rubric: Rubric, view: JudgeView): Promise<UnsavedDebateResult> {
+    // Try AI analysis by the panel first
+    let aiResponse: AIScoringResponse;
+    let ballots: JudgeBallot[] = [];
+    let orderings: ScoredOrdering[] = [];
+    try {
+      ({ combined: aiResponse, ballots, orderings } = await this.performPanelAnalysis(view, rubric));
+    } catch (error) {
+      logger.warn(`AI analysis failed, using fallback: ${error instanceof Error ? error.message : String(error)}`);
+      aiResponse = this.performFallbackAnalysis(session, rubric);
+    }
+
+    // Score each argument, then aggregate per participant and determine the winner
+    const argumentScores = this.calculateArgumentScores(session, aiResponse.arguments, rubric);
+    const results = this.calculateFinalScores(session, session.arguments, argumentScores, names, rubric);
+    const winner = this.determineWinner(results);
+
+    const debateResult: UnsavedDebateResult = {
+      sessionId: session.id,
+      topic: session.topic,
+      results,
+      winner: winner.winner,
+      isTie: winner.isTie,
+      arguments: argumentScores,
+      aggregation: this.aggregation,
+      rubric: describeRubric(rubric),
+      consensusStatement: aiResponse.consensusStatement,
+      processedAt: this.clock.now(),
+    };
+    if (ballots.length > 0) {
+      debateResult.panel = this.measureAgreement(session, ballots, names, rubric);
+    }
+    if (orderings.length > ballots.length) {
+      debateResult.orderBias = this.measureOrderBias(session, orderings, names, rubric);
+    }
+
+    if (session.rounds?.length) {
+      debateResult.rounds = {};
+      for (const { round, arguments: roundArguments } of argumentsByRound(session)) {
+        if (roundArguments.length === 0) {
+          continue;
+        }
+        const roundResults = this.calculateFinalScores(session, roundArguments, argumentScores, names, rubric);
+        const roundWinner = this.determineWinner(roundResults);
+        debateResult.rounds[round.id] = {
+          roundName: round.name,
+          kind: round.kind,
+          results: roundResults,
+          winner: roundWinner.winner,
+          isTie: roundWinner.isTie,
+        };
+      }
+    }
+
+    if (session.sides?.length) {
+      const sides = this.calculateSideScores(session, results, aiResponse.sides);
+      const winningSide = this.determineWinningSide(sides);
+      debateResult.sides = sides;
+      debateResult.winningSide = winningSide.winningSide;
+      debateResult.isSideTie = winningSide.isTie;
+    }
+
+    return debateResult;
+  }
+
+  /**
+   * Judge a debate by its pairwise comparisons alone. Each criterion column is 10 × the participant's
+   * mean chance of beating each opponent on that criterion, and the final score is the same from the
+   * overall fit, less penalties. Arguments and rounds get no scores of their own in this mode.
+   */
+  private judgeByComparisons(session: DebateSession, pairwise: NonNullable<DebateResult['pairwise']>, rubric: Rubric): UnsavedDebateResult {
+    const ids = pairwise.ranking.map(entry => entry.userId);
+    const penalties = penaltiesByParticipant(session.arguments);
+    const criterionStrengths = rubric.criteria.map(({ id }) => fitBradleyTerry(ids, winCounts(pairwise.comparisons, { [id]: 1 })));
+    const rating = (userId: string, chance: (opponentId: string) => number) => {
+      const opponents = ids.filter(other => other !== userId);
+      return (10 * opponents.reduce((sum, other) => sum + chance(other), 0)) / opponents.length;
+    };
+
+    const results: DebateResult['results'] = {};
+    for (const { userId, userName } of pairwise.ranking) {
+      const scores = Object.fromEntries(rubric.criteria.map(({ id }, index) => [
+        id,
+        rating(userId, other => winProbability(criterionStrengths[index], userId, other)),
+      ]));
+      const penalty = penalties.get(userId) ?? 0;
+      const finalScore = Math.max(0, rating(userId, other => pairwise.winProbabilities[userId][other]) - penalty);
+
+      const verdicts = pairwise.comparisons
+        .filter(comparison => comparison.first === userId || comparison.second === userId)
+        .flatMap(comparison => Object.values(comparison.verdicts));
+      results[userId] = {
+        userName,
+        scores: roundScores(scores),
+        finalScore: Math.round(finalScore * 100) / 100,
+        reasoning: `Stronger on ${verdicts.filter(verdict => verdict === userId).length} of ${verdicts.length} criterion verdicts in pairwise comparisons`,
+      };
+      if (penalty > 0) {
+        results[userId].penalty = Math.round(penalty * 100) / 100;
+      }
+    }
+
+    const winner = this.determineWinner(results);
+    const debateResult: UnsavedDebateResult = {
+      sessionId: session.id,
+      topic: session.topic,
+      results,
+      winner: winner.winner,
+      isTie: winner.isTie,
+      rubric: describeRubric(rubric),
+      consensusStatement: `Ranked by ${pairwise.comparisons.length} pairwise comparisons: ` +
+        `${pairwise.ranking.map((entry, index) => `${index + 1}. ${entry.userName}`).join(', ')}.`,
+      processedAt: this.clock.now(),
+    };
+
+    if (session.sides?.length) {
+      const sides = this.calculateSideScores(session, results);
+      const winningSide = this.determineWinningSide(sides);
+      debateResult.sides = sides;
+      debateResult.winningSide = winningSide.winningSide;
+      debateResult.isSideTie = winningSide.isTie;
+    }
+
+    return debateResult;
+  }
+
+  /**
+   * Have every judge compare every pair of participants in both orders, so a preference for whoever
+   * is shown first cancels out, then fit a Bradley-Terry model to the verdicts. Each comparison
+   * counts as one game split across the criteria by weight. At most maxConcurrentCalls comparisons
+   * run at once. Comparisons that fail are left out; returns null when all of them do.
+   */
+  private async performPairwiseAnalysis(
+    view: JudgeView,
+    competitors: string[],
+    names: Map<string, string>,
+    rubric: Rubric
+  ): Promise<NonNullable<DebateResult['pairwise']> | null> {
+    const tasks = this.judges.flatMap(judge => competitors.flatMap(first =>
+      competitors.filter(second => second !== first).map(second => ({ judge, first, second }))
+    ));
+    const outcomes = await settleWithLimit(tasks, this.maxConcurrentCalls, ({ judge, first, second }) =>
+      this.comparePair(view, first, second, rubric, judge)
+    );
+
+    const comparisons: PairwiseComparison[] = [];
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        comparisons.push({ ...outcome.value, reasoning: view.reveal(outcome.value.reasoning) });
+      } else {
+        const { judge, first, second } = tasks[index];
+        logger.warn(`Judge ${judge.id} could not compare ${first} with ${second}: ${outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)}`);
+      }
+    });
+    if (comparisons.length === 0) {
+      logger.warn('Pairwise comparison failed, judging by scores instead');
+      return null;
+    }
+
+    const strengths = fitBradleyTerry(competitors, winCounts(comparisons, Object.fromEntries(rubric.criteria.map(({ id, weight }) => [id, weight]))));
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const decided = comparisons.flatMap(comparison =>
+      Object.values(comparison.verdicts).filter(verdict => verdict !== null).map(verdict => verdict === comparison.first)
+    );
+
+    return {
+      comparisons,
+      ranking: competitors
+        .map(userId => ({ userId, userName: names.get(userId) ?? userId, strength: round(strengths[userId]) }))
+        .sort((a, b) => b.strength - a.strength),
+      winProbabilities: Object.fromEntries(competitors.map(userId => [
+        userId,
+        Object.fromEntries(competitors.filter(other => other !== userId).map(other => [other, round(winProbability(strengths, userId, other))])),
+      ])),
+      firstPositionRate: decided.length > 0 ? round(decided.filter(Boolean).length / decided.length) : null,
+    };
+  }
+
+  /**
+   * Ask one judge which of two participants argued better on each criterion
+   */
+  private async comparePair(view: JudgeView, first: string, second: string, rubric: Rubric, judge: JudgeConfig): Promise<PairwiseComparison> {
+    // The sides go by the names the judge sees elsewhere, such as the speaker labels in blind argument text
+    const labels: [string, string] = [view.names.get(first) ?? first, view.names.get(second) ?? second];
+    const basePrompt = this.constructComparisonPrompt(view.session, first, second, labels, rubric);
+    const prompt = judge.persona ? `JUDGE PERSONA: ${judge.persona}\n\n${basePrompt}` : basePrompt;
+
+    const response = await this.runtime.generateText({
+      model: judge.model ?? ModelType.TEXT_LARGE,
+      prompt,
+      maxTokens: 1000,
+      temperature: judge.temperature ?? 0.3,
+    });
+
+    return this.parseComparison(response, first, second, labels, rubric, judge);
+  }
+
+  /**
+   * Construct the prompt comparing two participants' arguments, each shown under its label
+   */
+  private constructComparisonPrompt(session: DebateSession, first: string, second: string, labels: [string, string], rubric: Rubric): string {
+    const formatParticipant = (label: string, participantId: string) => {
+      const side = sideOf(session, participantId);
+      const args = session.arguments.filter(arg => arg.participantId === participantId);
+      return `ARGUMENTS BY ${label}${side ? ` (Side: ${side.name})` : ''}:\n` +
+        args.map((arg, index) => `Argument ${index + 1}:\n${arg.text}\n`).join('\n');
+    };
+    const criteriaText = rubric.criteria.map(criterion => `- ${criterion.name} (key "${criterion.id}"): ${criterion.description}`).join('\n');
+    const verdictTemplate = rubric.criteria
+      .map((criterion, index) => `    "${criterion.id}": "${[...labels, 'tie'][index % 3]}",`)
+      .join('\n');
+
+    return `You are an expert debate judge. Compare two participants' arguments on the topic "${session.topic}" and decide, for each criterion, whose arguments are stronger:
+
+CRITERIA:
+${criteriaText}
+
+${formatParticipant(labels[0], first)}
+${formatParticipant(labels[1], second)}
+Please respond with a JSON object in this exact format:
+{
+  "verdicts": {
+${verdictTemplate}
+  },
+  "reasoning": "Brief explanation of the comparison"
+}
+
+IMPORTANT:
+- Answer "${labels[0]}", "${labels[1]}" or "tie" for every criterion
+- Judge what was argued, not the order the participants are shown in
+- Return ONLY valid JSON, no additional text`;
+  }
+
+  /**
+   * Parse a comparison response into verdicts naming the stronger participant
+   */
+  private parseComparison(response: string, first: string, second: string, labels: [string, string], rubric: Rubric, judge: JudgeConfig): PairwiseComparison {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in comparison response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    const verdicts: Record<string, string | null> = {};
+    const [firstLabel, secondLabel] = labels.map(label => label.toLowerCase());
+    for (const { id } of rubric.criteria) {
+      const verdict = String(parsed.verdicts?.[id] ?? '').trim().toLowerCase();
+      if (![firstLabel, secondLabel, 'tie'].includes(verdict)) {
+        throw new Error(`Invalid ${id} verdict in comparison response`);
+      }
+      verdicts[id] = verdict === firstLabel ? first : verdict === secondLabel ? second : null;
+    }
+
+    return { judgeId: judge.id, first, second, verdicts, reasoning: String(parsed.reasoning ?? '') };
+  }
+
+  /**
+   * Rubrics sessions can be judged with, the default rubric first unless a loaded file replaced it
+   */
+  listRubrics(): Rubric[] {
+    return [...this.rubrics];
+  }
+
+  /**
+   * Look up a rubric by ID
+   */
+  getRubric(rubricId: string): Rubric {
+    const rubric = this.rubrics.find(candidate => candidate.id === rubricId);
+    if (!rubric) {
+      throw new Error(`Rubric ${rubricId} is not loaded (available: ${this.rubrics.map(candidate => candidate.id).join(', ')})`);
+    }
+    return rubric;
+  }
+
+  /**
+   * Have every judge score the debate independently and combine their ballots. With several order
+   * permutations, each judge scores the arguments once in submission order and then in shuffled
+   * orders, and their ballot is the mean of those calls. At most maxConcurrentCalls calls run at once.
+   * Calls that fail are left out; a judge only drops out when all of theirs do, and the panel only
+   * fails when every judge does.
+   */
+  private async performPanelAnalysis(
+    view: JudgeView,
+    rubric: Rubric
+  ): Promise<{ combined: AIScoringResponse; ballots: JudgeBallot[]; orderings: ScoredOrdering[] }> {
+    const { session, names } = view;
+    const permutations = session.arguments.length > 1 ? this.orderPermutations : 1;
+    const calls = this.judges.flatMap(judge => Array.from({ length: permutations }, (_, permutation) => ({
+      judge,
+      order: permutation === 0 ? session.arguments : shuffled(session.arguments, this.random),
+    })));
+    const outcomes = await settleWithLimit(calls, this.maxConcurrentCalls, ({ judge, order }) =>
+      this.performAIAnalysis(session, this.constructAnalysisPrompt({ ...session, arguments: order }, names, rubric), rubric, judge)
+    );
+
+    const orderings: ScoredOrdering[] = [];
+    outcomes.forEach((outcome, index) => {
+      const { judge, order } = calls[index];
+      if (outcome.status === 'fulfilled') {
+        orderings.push({ judge, order: order.map(arg => arg.id), ballot: this.toBallot(judge, revealResponse(outcome.value, view.reveal), rubric) });
+      } else if (calls.length > 1) {
+        logger.warn(`Judge ${judge.id} could not score the debate: ${outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)}`);
+      }
+    });
+
+    const ballots: JudgeBallot[] = [];
+    for (const judge of this.judges) {
+      const scored = orderings.filter(ordering => ordering.judge === judge).map(ordering => ordering.ballot);
+      if (scored.length === 1) {
+        ballots.push(scored[0]);
+      } else if (scored.length > 1) {
+        ballots.push(this.toBallot(judge, this.combineBallots(session, scored, rubric, 'mean'), rubric));
+      }
+    }
+
+    if (ballots.length === 0) {
+      throw (outcomes[0] as PromiseRejectedResult).reason;
+    }
+    return { combined: this.combineBallots(session, ballots, rubric), ballots, orderings };
+  }
+
+  /**
+   * Perform AI analysis for one judge using OpenAI plugin
+   */
+  private async performAIAnalysis(session: DebateSession, basePrompt: string, rubric: Rubric, judge: JudgeConfig): Promise<AIScoringResponse> {
+    const prompt = judge.persona ? `JUDGE PERSONA: ${judge.persona}\n\n${basePrompt}` : basePrompt;
     
     try {
       const response = await this.runtime.generateText({
-        model: ModelType.TEXT_LARGE,
+        model: judge.model ?? ModelType.TEXT_LARGE,
         prompt,
         maxTokens: 2000,
-        temperature: 0.3, // Lower temperature for more consistent scoring
+        temperature: judge.temperature ?? 0.3, // Lower temperature for more consistent scoring
       });
 
-      return this.parseAIResponse(response, session);
+      return this.parseAIResponse(response, session, rubric);
     } catch (error) {
       logger.error({ error }, 'OpenAI API call failed');
       throw error;
     }
   }
 
+  /**
+   * Record a judge's validated response as their ballot
+   */
+  private toBallot(judge: JudgeConfig, response: AIScoringResponse, rubric: Rubric): JudgeBallot {
+    const ballot: JudgeBallot = {
+      judgeId: judge.id,
+      judgeName: judge.name ?? judge.id,
+      arguments: Object.fromEntries(Object.entries(response.arguments).map(([argumentId, score]) => [
+        argumentId,
+        {
+          scores: roundScores(Object.fromEntries(rubric.criteria.map(({ id }) => [id, Number(score[id])]))),
+          reasoning: String(score.reasoning ?? ''),
+        },
+      ])),
+      consensusStatement: response.consensusStatement,
+    };
+    if (judge.model) {
+      ballot.model = judge.model;
+    }
+    if (judge.temperature !== undefined) {
+      ballot.temperature = judge.temperature;
+    }
+    if (judge.persona) {
+      ballot.persona = judge.persona;
+    }
+    if (response.sides) {
+      ballot.sides = response.sides;
+    }
+    return ballot;
+  }
+
+  /**
+   * Combine ballots into one set of scores, by default with the panel aggregation. Reasoning and the
+   * consensus statement come from the first ballot, whose judge chairs the panel.
+   */
+  private combineBallots(
+    session: DebateSession,
+    ballots: JudgeBallot[],
+    rubric: Rubric,
+    method: PanelAggregation = this.panelAggregation
+  ): AIScoringResponse {
+    const [chair] = ballots;
+    const combine = (values: number[]) => aggregate(values, method, this.trimFraction);
+
+    const combined: AIScoringResponse = {
+      arguments: Object.fromEntries(session.arguments.map(arg => [
+        arg.id,
+        {
+          ...Object.fromEntries(rubric.criteria.map(({ id }) => [id, combine(ballots.map(ballot => ballot.arguments[arg.id].scores[id]))])),
+          reasoning: chair.arguments[arg.id].reasoning,
+        },
+      ])),
+      consensusStatement: chair.consensusStatement,
+    };
+    if (chair.sides) {
+      combined.sides = Object.fromEntries(Object.entries(chair.sides).map(([sideId, verdict]) => [
+        sideId,
+        {
+          defense: combine(ballots.map(ballot => ballot.sides?.[sideId]?.defense).filter((defense): defense is number => defense !== undefined)),
+          reasoning: verdict.reasoning,
+        },
+      ]));
+    }
+    return combined;
+  }
+
+  /**
+   * Work out how far the judges agreed: each participant's final score on every ballot and the spread
+   * of those scores, and Krippendorff's alpha over the criterion scores of each participant's
+   * arguments and of the whole debate
+   */
+  private measureAgreement(
+    session: DebateSession,
+    ballots: JudgeBallot[],
+    names: Map<string, string>,
+    rubric: Rubric
+  ): NonNullable<DebateResult['panel']> {
+    const finalScores = new Map<string, Record<string, number>>();
+    for (const ballot of ballots) {
+      for (const [userId, result] of Object.entries(this.ballotResults(session, ballot, names, rubric))) {
+        finalScores.set(userId, { ...finalScores.get(userId), [ballot.judgeId]: result.finalScore });
+      }
+    }
+
+    // One unit per argument and criterion, holding every judge's score for it
+    const unitsFor = (args: Argument[]) => args.flatMap(arg =>
+      rubric.criteria.map(({ id }) => ballots.map(ballot => ballot.arguments[arg.id].scores[id]))
+    );
+    const round = (value: number | null, places: number) => value === null ? null : Math.round(value * 10 ** places) / 10 ** places;
+
+    const participants: NonNullable<DebateResult['panel']>['agreement']['participants'] = {};
+    for (const [userId, scores] of finalScores) {
+      participants[userId] = {
+        finalScores: scores,
+        stdDev: round(standardDeviation(Object.values(scores)), 2)!,
+        alpha: round(krippendorffAlpha(unitsFor(session.arguments.filter(arg => arg.participantId === userId))), 3),
+      };
+    }
+    const alpha = round(krippendorffAlpha(unitsFor(session.arguments)), 3);
+
+    return {
+      aggregation: this.panelAggregation,
+      ballots,
+      agreement: { alpha, participants },
+      strongDisagreement: ballots.length > 1 && (
+        (alpha !== null && alpha < this.disagreement.minAlpha) ||
+        Object.values(participants).some(participant => participant.stdDev > this.disagreement.maxStdDev)
+      ),
+    };
+  }
+
+  /**
+   * Report how much each participant's final score moved between the orders the arguments were
+   * shown in. The spread is measured within each judge's own calls, so judges who simply score
+   * differently from one another do not look order-biased.
+   */
+  private measureOrderBias(
+    session: DebateSession,
+    orderings: ScoredOrdering[],
+    names: Map<string, string>,
+    rubric: Rubric
+  ): NonNullable<DebateResult['orderBias']> {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const finalScores = new Map<string, number[]>();
+    const byJudge = new Map<string, Map<string, number[]>>();
+    for (const { judge, ballot } of orderings) {
+      for (const [userId, result] of Object.entries(this.ballotResults(session, ballot, names, rubric))) {
+        finalScores.set(userId, [...(finalScores.get(userId) ?? []), result.finalScore]);
+        const judgeScores = byJudge.get(userId) ?? new Map<string, number[]>();
+        judgeScores.set(judge.id, [...(judgeScores.get(judge.id) ?? []), result.finalScore]);
+        byJudge.set(userId, judgeScores);
+      }
+    }
+
+    const participants: NonNullable<DebateResult['orderBias']>['participants'] = {};
+    for (const [userId, scores] of finalScores) {
+      const judges = Object.fromEntries([...byJudge.get(userId)!].map(([judgeId, judgeScores]) => [judgeId, {
+        range: round(Math.max(...judgeScores) - Math.min(...judgeScores)),
+        stdDev: round(standardDeviation(judgeScores)),
+      }]));
+      participants[userId] = {
+        finalScores: scores,
+        range: round(mean(Object.values(judges).map(judge => judge.range))),
+        stdDev: round(mean(Object.values(judges).map(judge => judge.stdDev))),
+        judges,
+      };
+    }
+
+    return {
+      orderings: orderings.map(({ judge, order }) => ({ judgeId: judge.id, order })),
+      participants,
+    };
+  }
+
+  /**
+   * Each participant's result on one ballot alone
+   */
+  private ballotResults(session: DebateSession, ballot: JudgeBallot, names: Map<string, string>, rubric: Rubric): DebateResult['results'] {
+    const scoring: ArgumentScoringData = Object.fromEntries(
+      Object.entries(ballot.arguments).map(([argumentId, entry]) => [argumentId, { ...entry.scores, reasoning: entry.reasoning }])
+    );
+    return this.calculateFinalScores(session, session.arguments, this.calculateArgumentScores(session, scoring, rubric), names, rubric);
+  }
+
   /**
    * Construct the analysis prompt for AI
    */
-  private constructAnalysisPrompt(session: DebateSession): string {
-    const argumentsText = session.arguments
-      .map((arg, index) => 
-        `Argument ${index + 1} (User: ${arg.userName}):\n${arg.text}\n`
+  private constructAnalysisPrompt(session: DebateSession, names: Map<string, string>, rubric: Rubric): string {
+    const numberOf = (argumentId: string) => session.arguments.findIndex(arg => arg.id === argumentId) + 1;
+    const formatArgument = (arg: Argument) => {
+      const side = sideOf(session, arg.participantId);
+      const target = arg.replyTo ? numberOf(arg.replyTo) : 0;
+      const reply = arg.replyTo ? `, Replying to: ${target > 0 ? `Argument ${target}` : 'a withdrawn argument'}` : '';
+      return `Argument ${numberOf(arg.id)} (ID: ${arg.id}, User: ${names.get(arg.participantId) ?? arg.participantId}` +
+        `${side ? `, Side: ${side.name}` : ''}${reply}):\n${arg.text}\n`;
+    };
+
+    // Reply threads, so the judge can tell what responds to what
+    const threadsText = session.arguments.some(arg => arg.replyTo)
+      ? `\nTHREADS (each reply is indented under the argument it rebuts):\n` +
+        replyThreads(session.arguments).map(({ argument, depth }) => `${'  '.repeat(depth)}- Argument ${numberOf(argument.id)}`).join('\n') +
+        `\nJudge responsiveness: a reply should engage the specific points of the argument it rebuts. Reflect this in its logic and relevance scores.\n`
+      : '';
+
+    const rounds = argumentsByRound(session).filter(({ arguments: roundArguments }) => roundArguments.length > 0);
+    const argumentsText = rounds.length > 0
+      ? rounds
+        .map(({ round, arguments: roundArguments }, index) =>
+          `ROUND ${index + 1}: ${round.name} (${round.kind}, ID: ${round.id})\n\n${roundArguments.map(formatArgument).join('\n')}`
+        )
+        .join('\n')
+      : session.arguments.map(formatArgument).join('\n');
+    const roundsText = rounds.length > 0
+      ? `\nThe debate ran in rounds, shown in order below. ` +
+        `In rebuttal rounds, judge logic and relevance by how well each argument answers the opposing arguments from the previous round; ` +
+        `in closing rounds, by how well it weighs up the debate so far. Opening arguments stand on their own.\n`
+      : '';
+
+    const sides = session.sides ?? [];
+    const sidesText = sides.length > 0
+      ? `\nSIDES:\n${sides.map(side => `- ${side.name} (ID: ${side.id})`).join('\n')}\n` +
+        `Participants argue for the side shown next to their argument. Besides scoring each argument, judge each side as a whole ` +
+        `on how well it defended its position: the strength of its case, how it answered the other sides, and how consistent its speakers were.\n`
+      : '';
+    const sidesTemplate = sides.length > 0
+      ? `
+  "sides": {
+    "${sides[0].id}": {
+      "defense": 7,
+      "reasoning": "How well this side defended its position"
+    }
+  },`
+      : '';
+
+    // Criteria, their anchors and the example scores all come from the session's rubric
+    const criteriaText = rubric.criteria
+      .map(criterion =>
+        `- ${criterion.name} (key "${criterion.id}", weight ${formatWeight(criterion.weight)}): ${criterion.description}\n` +
+        [...criterion.levels].sort((a, b) => a.score - b.score).map(level => `    ${level.score}: ${level.description}`).join('\n')
       )
       .join('\n');
+    const exampleScores = [8, 7, 6, 9];
+    const scoreTemplate = rubric.criteria
+      .map((criterion, index) => `      "${criterion.id}": ${exampleScores[index % exampleScores.length]},`)
+      .join('\n');
 
-    return `You are an expert debate judge. Analyze the following arguments for the topic "${session.topic}" and score each argument on four criteria (0-10 scale):
+    return `You are an expert debate judge. Analyze the following arguments for the topic "${session.topic}" and score each argument on ${rubric.criteria.length === 1 ? 'one criterion' : `${rubric.criteria.length} criteria`} (0-10 scale), using the level descriptions as anchors:
 
 CRITERIA:
-- Clarity: How clear and well-structured is the argument?
-- Logic: How sound is the logical reasoning?
-- Evidence: How well-supported is the argument with evidence?
-- Relevance: How relevant is the argument to the topic?
-
+${criteriaText}
+${sidesText}${roundsText}
 ARGUMENTS:
-${argumentsText}
+${argumentsText}${threadsText}
 
 Please respond with a JSON object in this exact format:
 {
-  "scores": {
-    "${session.arguments[0].userId}": {
-      "clarity": 8,
-      "logic": 7,
-      "evidence": 6,
-      "relevance": 9,
+  "arguments": {
+    "${session.arguments[0].id}": {
+${scoreTemplate}
       "reasoning": "Brief explanation of the scoring"
     }
-  },
+  },${sidesTemplate}
   "consensusStatement": "A neutral summary of the key points and overall consensus"
 }
 
@@ -149,14 +877,14 @@ IMPORTANT:
 - Score each argument on a 0-10 scale for each criterion
 - Provide brief reasoning for each score
 - Create a neutral consensus statement
-- Ensure all user IDs from the arguments are included in the scores object
+- Score every argument separately in the arguments object, keyed by argument ID, even when one participant made several${sides.length > 0 ? '\n- Give every side with arguments a 0-10 defense score in the sides object, keyed by side ID' : ''}
 - Return ONLY valid JSON, no additional text`;
   }
 
   /**
    * Parse AI response and validate structure
    */
-  private parseAIResponse(response: string, session: DebateSession): AIScoringResponse {
+  private parseAIResponse(response: string, session: DebateSession, rubric: Rubric): AIScoringResponse {
     try {
       // Clean the response to extract JSON
       const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -168,22 +896,14 @@ IMPORTANT:
       
       // Validate that all arguments are scored
       for (const arg of session.arguments) {
-        if (!parsed.scores[arg.userId]) {
-          throw new Error(`Missing score for user ${arg.userId}`);
-        }
-        
-        const score = parsed.scores[arg.userId];
-        if (typeof score.clarity !== 'number' || score.clarity < 0 || score.clarity > 10) {
-          throw new Error(`Invalid clarity score for user ${arg.userId}`);
-        }
-        if (typeof score.logic !== 'number' || score.logic < 0 || score.logic > 10) {
-          throw new Error(`Invalid logic score for user ${arg.userId}`);
-        }
-        if (typeof score.evidence !== 'number' || score.evidence < 0 || score.evidence > 10) {
-          throw new Error(`Invalid evidence score for user ${arg.userId}`);
-        }
-        if (typeof score.relevance !== 'number' || score.relevance < 0 || score.relevance > 10) {
-          throw new Error(`Invalid relevance score for user ${arg.userId}`);
+        this.validateScore(parsed.arguments?.[arg.id], `argument ${arg.id}`, rubric);
+
+        const side = sideOf(session, arg.participantId);
+        if (side) {
+          const defense = parsed.sides?.[side.id]?.defense;
+          if (typeof defense !== 'number' || defense < 0 || defense > 10) {
+            throw new Error(`Missing or invalid defense score for side ${side.id}`);
+          }
         }
       }
 
@@ -194,16 +914,43 @@ IMPORTANT:
     }
   }
 
+  /**
+   * Check that an argument's scores are present and every rubric criterion is within 0-10
+   */
+  private validateScore(score: any, label: string, rubric: Rubric): void {
+    if (!score) {
+      throw new Error(`Missing score for ${label}`);
+    }
+    for (const { id } of rubric.criteria) {
+      if (typeof score[id] !== 'number' || score[id] < 0 || score[id] > 10) {
+        throw new Error(`Invalid ${id} score for ${label}`);
+      }
+    }
+  }
+
   /**
    * Perform fallback analysis when AI is unavailable
    */
-  private performFallbackAnalysis(session: DebateSession): AIScoringResponse {
+  private performFallbackAnalysis(session: DebateSession, rubric: Rubric): AIScoringResponse {
     logger.info('Performing fallback analysis');
-    
-    const scores: FallbackScoringData = {};
+
+    const consensusStatement = `Fallback analysis: ${session.arguments.length} arguments analyzed using basic heuristics. Results may vary from AI analysis.`;
+
+    return {
+      arguments: this.scoreHeuristically(session.arguments, session.topic, rubric),
+      consensusStatement,
+    };
+  }
+
+  /**
+   * Score each argument by length and basic heuristics. The heuristics measure the default rubric's
+   * criteria; other criteria get the mean of those measurements.
+   */
+  private scoreHeuristically(args: Argument[], topic: string, rubric: Rubric): ArgumentScoringData {
+    const scores: ArgumentScoringData = {};
     
     // Simple fallback scoring based on argument length and basic heuristics
-    for (const arg of session.arguments) {
+    for (const arg of args) {
       const wordCount = arg.text.split(/\s+/).length;
       const hasEvidence = this.detectEvidence(arg.text);
       const hasStructure = this.detectStructure(arg.text);
@@ -212,23 +959,18 @@ IMPORTANT:
       const clarity = Math.min(10, Math.max(5, hasStructure ? 8 : 6));
       const logic = Math.min(10, Math.max(4, wordCount > 50 ? 7 : 5));
       const evidence = Math.min(10, Math.max(3, hasEvidence ? 8 : 4));
-      const relevance = Math.min(10, Math.max(6, this.calculateRelevance(arg.text, session.topic)));
+      const relevance = Math.min(10, Math.max(6, this.calculateRelevance(arg.text, topic)));
 
-      scores[arg.userId] = {
-        clarity,
-        logic,
-        evidence,
-        relevance,
+      const measured: Record<string, number> = { clarity, logic, evidence, relevance };
+      const overall = (clarity + logic + evidence + relevance) / 4;
+
+      scores[arg.id] = {
+        ...Object.fromEntries(rubric.criteria.map(({ id }) => [id, measured[id] ?? overall])),
         reasoning: `Fallback scoring: ${hasStructure ? 'Well-structured' : 'Basic structure'}, ${hasEvidence ? 'Contains evidence' : 'Limited evidence'}, ${wordCount} words`,
       };
     }
 
-    const consensusStatement = `Fallback analysis: ${session.arguments.length} arguments analyzed using basic heuristics. Results may vary from AI analysis.`;
-
-    return {
-      scores,
-      consensusStatement,
-    };
+    return scores;
   }
 
   /**
@@ -274,34 +1016,164 @@ IMPORTANT:
   }
 
   /**
-   * Calculate final weighted scores
+   * Weight each argument's criterion scores into its own final score (0-10, before penalties)
    */
-  private calculateFinalScores(scores: FallbackScoringData): DebateResult['results'] {
+  private calculateArgumentScores(session: DebateSession, scores: ArgumentScoringData, rubric: Rubric): NonNullable<DebateResult['arguments']> {
+    const argumentScores: NonNullable<DebateResult['arguments']> = {};
+
+    for (const arg of session.arguments) {
+      const score = scores[arg.id];
+      if (!score) {
+        continue;
+      }
+
+      const criteria = Object.fromEntries(rubric.criteria.map(({ id }) => [id, Number(score[id])]));
+      argumentScores[arg.id] = {
+        participantId: arg.participantId,
+        scores: roundScores(criteria),
+        finalScore: Math.round(this.weightCriteria(criteria, rubric) * 100) / 100,
+        reasoning: score.reasoning,
+      };
+      if (arg.roundId) {
+        argumentScores[arg.id].roundId = arg.roundId;
+      }
+    }
+
+    return argumentScores;
+  }
+
+  /**
+   * Aggregate the given arguments' scores per participant, then take off their soft-rule penalties
+   * for those arguments (never below 0)
+   */
+  private calculateFinalScores(
+    session: DebateSession,
+    args: Argument[],
+    argumentScores: NonNullable<DebateResult['arguments']>,
+    names: Map<string, string>,
+    rubric: Rubric
+  ): DebateResult['results'] {
     const results: DebateResult['results'] = {};
+    const penalties = penaltiesByParticipant(args);
+    const byParticipant = new Map<string, Argument[]>();
+    for (const arg of args) {
+      if (argumentScores[arg.id]) {
+        byParticipant.set(arg.participantId, [...(byParticipant.get(arg.participantId) ?? []), arg]);
+      }
+    }
     
-    for (const [userId, score] of Object.entries(scores)) {
-      const finalScore = 
-        (score.clarity * this.scoringWeights.clarity) +
-        (score.logic * this.scoringWeights.logic) +
-        (score.evidence * this.scoringWeights.evidence) +
-        (score.relevance * this.scoringWeights.relevance);
+    for (const [userId, participantArgs] of byParticipant) {
+      const weights = this.aggregationWeights(session, participantArgs, argumentScores);
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      const score = Object.fromEntries(rubric.criteria.map(({ id }) => [
+        id,
+        participantArgs.reduce((sum, arg, index) => sum + (argumentScores[arg.id].scores[id] ?? 0) * weights[index], 0) / totalWeight,
+      ]));
+
+      const penalty = penalties.get(userId) ?? 0;
+      const finalScore = Math.max(0, this.weightCriteria(score, rubric) - penalty);
+      const reasoning = participantArgs.length === 1
+        ? argumentScores[participantArgs[0].id].reasoning
+        : participantArgs
+          .map(arg => `Argument ${session.arguments.indexOf(arg) + 1}: ${argumentScores[arg.id].reasoning}`)
+          .join(' ');
       
       results[userId] = {
-        userName: '', // Will be filled by caller
-        scores: {
-          clarity: Math.round(score.clarity * 10) / 10,
-          logic: Math.round(score.logic * 10) / 10,
-          evidence: Math.round(score.evidence * 10) / 10,
-          relevance: Math.round(score.relevance * 10) / 10,
-        },
+        userName: names.get(userId) ?? userId,
+        scores: roundScores(score),
         finalScore: Math.round(finalScore * 100) / 100,
-        reasoning: score.reasoning,
+        reasoning,
       };
+      if (penalty > 0) {
+        results[userId].penalty = Math.round(penalty * 100) / 100;
+      }
     }
     
     return results;
   }
 
+  /**
+   * How much each of a participant's arguments counts towards their aggregate: equally (mean),
+   * only the highest-scoring one (best), or by the kind of round it was made in (round-weighted;
+   * arguments outside rounds weigh 1)
+   */
+  private aggregationWeights(session: DebateSession, args: Argument[], argumentScores: NonNullable<DebateResult['arguments']>): number[] {
+    switch (this.aggregation) {
+      case 'best': {
+        const best = args.reduce((top, arg) => argumentScores[arg.id].finalScore > argumentScores[top.id].finalScore ? arg : top);
+        return args.map(arg => (arg === best ? 1 : 0));
+      }
+      case 'round-weighted':
+        return args.map(arg => {
+          const kind = session.rounds?.find(round => round.id === arg.roundId)?.kind;
+          return kind ? this.roundWeights[kind] : 1;
+        });
+      default:
+        return args.map(() => 1);
+    }
+  }
+
+  /**
+   * Combine criterion scores into one 0-10 score with the rubric's weights
+   */
+  private weightCriteria(score: Record<string, number>, rubric: Rubric): number {
+    return rubric.criteria.reduce((sum, criterion) => sum + (score[criterion.id] ?? 0) * criterion.weight, 0);
+  }
+
+  /**
+   * Score each side on how well it defended its position. The judge's defense score is used when
+   * there is one; otherwise (fallback analysis) a side scores the mean of its speakers' final scores.
+   * Sides nobody argued for score 0.
+   */
+  private calculateSideScores(
+    session: DebateSession,
+    results: DebateResult['results'],
+    judged: AIScoringResponse['sides'] = {}
+  ): NonNullable<DebateResult['sides']> {
+    const sides: NonNullable<DebateResult['sides']> = {};
+
+    for (const side of session.sides ?? []) {
+      const participantIds = Object.keys(results).filter(userId => sideOf(session, userId)?.id === side.id);
+      const verdict = judged[side.id];
+      let finalScore = 0;
+      let reasoning = 'No arguments were made for this side';
+
+      if (participantIds.length > 0 && verdict) {
+        finalScore = verdict.defense;
+        reasoning = verdict.reasoning;
+      } else if (participantIds.length > 0) {
+        finalScore = participantIds.reduce((sum, userId) => sum + results[userId].finalScore, 0) / participantIds.length;
+        reasoning = `Average of ${participantIds.length} speaker(s)' final scores`;
+      }
+
+      sides[side.id] = {
+        sideName: side.name,
+        participantIds,
+        finalScore: Math.round(finalScore * 100) / 100,
+        reasoning,
+      };
+    }
+
+    return sides;
+  }
+
+  /**
+   * Determine which side won, with the same 0.1-point tie margin as for individual speakers
+   */
+  private determineWinningSide(sides: NonNullable<DebateResult['sides']>): { winningSide: DebateResult['winningSide']; isTie: boolean } {
+    const entries = Object.entries(sides).sort(([, a], [, b]) => b.finalScore - a.finalScore);
+    if (entries.length === 0) {
+      return { winningSide: null, isTie: false };
+    }
+
+    const [sideId, best] = entries[0];
+    const isTie = entries.length > 1 && Math.abs(best.finalScore - entries[1][1].finalScore) < 0.1;
+    return {
+      winningSide: isTie ? null : { sideId, sideName: best.sideName, finalScore: best.finalScore },
+      isTie,
+    };
+  }
+
   /**
    * Determine the winner of the debate
    */
@@ -339,3 +1211,138 @@ IMPORTANT:
     };
   }
 }
+
+/**
+ * Reject out-of-range analyzer options; options left unset take valid defaults
+ */
+function checkOptions(options: DebateAnalyzerOptions): void {
+  if (options.aggregation !== undefined && !['mean', 'best', 'round-weighted'].includes(options.aggregation)) {
+    throw new Error(`Unknown score aggregation "${options.aggregation}"; use mean, best or round-weighted`);
+  }
+  if (Object.values(options.roundWeights ?? {}).some(weight => !(weight > 0))) {
+    throw new Error('Round weights must be positive numbers');
+  }
+  if (options.judgingMode !== undefined && !['scores', 'pairwise', 'both'].includes(options.judgingMode)) {
+    throw new Error(`Unknown judging mode "${options.judgingMode}"; use scores, pairwise or both`);
+  }
+  if (options.maxConcurrentCalls !== undefined && !(Number.isInteger(options.maxConcurrentCalls) && options.maxConcurrentCalls >= 1)) {
+    throw new Error('Max concurrent calls must be a whole number of at least 1');
+  }
+  if (options.orderPermutations !== undefined && !(Number.isInteger(options.orderPermutations) && options.orderPermutations >= 1)) {
+    throw new Error('Order permutations must be a whole number of at least 1');
+  }
+  if (options.blindJudging !== undefined && !['auto', 'always', 'never'].includes(options.blindJudging)) {
+    throw new Error(`Unknown blind judging setting "${options.blindJudging}"; use auto, always or never`);
+  }
+  if (options.judges?.length === 0) {
+    throw new Error('A judging panel needs at least one judge');
+  }
+  if (options.judges && new Set(options.judges.map(judge => judge.id)).size !== options.judges.length) {
+    throw new Error('Judge IDs must be unique');
+  }
+  if (options.panelAggregation !== undefined && !['mean', 'median', 'trimmed-mean'].includes(options.panelAggregation)) {
+    throw new Error(`Unknown panel aggregation "${options.panelAggregation}"; use mean, median or trimmed-mean`);
+  }
+  if (options.trimFraction !== undefined && !(options.trimFraction >= 0 && options.trimFraction < 0.5)) {
+    throw new Error('Trim fraction must be at least 0 and below 0.5');
+  }
+}
+
+/**
+ * A judge's response with speaker labels in its reasoning turned back into names
+ */
+function revealResponse(response: AIScoringResponse, reveal: (text: string) => string): AIScoringResponse {
+  const revealed: AIScoringResponse = {
+    ...response,
+    arguments: Object.fromEntries(Object.entries(response.arguments).map(([argumentId, score]) => [
+      argumentId,
+      { ...score, reasoning: reveal(String(score.reasoning ?? '')) },
+    ])),
+    consensusStatement: reveal(String(response.consensusStatement ?? '')),
+  };
+  if (response.sides) {
+    revealed.sides = Object.fromEntries(Object.entries(response.sides).map(([sideId, verdict]) => [
+      sideId,
+      { ...verdict, reasoning: reveal(String(verdict.reasoning ?? '')) },
+    ]));
+  }
+  return revealed;
+}
+
+/**
+ * Run a task per item with at most `limit` running at once, settling each as Promise.allSettled does
+ */
+async function settleWithLimit<T, R>(items: T[], limit: number, run: (item: T) => Promise<R>): Promise<PromiseSettledResult<R>[]> {
+  const outcomes: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        outcomes[index] = { status: 'fulfilled', value: await run(items[index]) };
+      } catch (reason) {
+        outcomes[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return outcomes;
+}
+
+/**
+ * A copy of the list in random order (Fisher-Yates)
+ */
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/**
+ * The rubric as recorded on a result
+ */
+function describeRubric(rubric: Rubric): NonNullable<DebateResult['rubric']> {
+  return {
+    id: rubric.id,
+    name: rubric.name,
+    version: rubric.version,
+    criteria: rubric.criteria.map(({ id, name, weight }) => ({ id, name, weight })),
+  };
+}
+
+/**
+ * Tally comparisons into win counts, each criterion's verdict worth its weight. Ties split the
+ * weight between both participants.
+ */
+function winCounts(comparisons: PairwiseComparison[], weights: Record<string, number>): WinCounts {
+  const wins: WinCounts = {};
+  const add = (winner: string, loser: string, amount: number) => {
+    wins[winner] = { ...wins[winner], [loser]: (wins[winner]?.[loser] ?? 0) + amount };
+  };
+
+  for (const comparison of comparisons) {
+    for (const [criterion, weight] of Object.entries(weights)) {
+      const verdict = comparison.verdicts[criterion];
+      if (verdict === undefined) {
+        continue;
+      }
+      if (verdict === null) {
+        add(comparison.first, comparison.second, weight / 2);
+        add(comparison.second, comparison.first, weight / 2);
+      } else {
+        add(verdict, verdict === comparison.first ? comparison.second : comparison.first, weight);
+      }
+    }
+  }
+  return wins;
+}
+
+/**
+ * Round each criterion score to one decimal for display and storage
+ */
+function roundScores(scores: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(scores).map(([criterion, score]) => [criterion, Math.round(score * 10) / 10]));
+}
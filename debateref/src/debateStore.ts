@@ -1,16 +1,195 @@
-import { promises as fs } from 'fs';
-import { join } from 'path';
+import { logger } from '@elizaos/core';
+import { type StorageBackend, type StorageBackendKind, type StoreContents } from './storage/storageBackend.js';
+import { JsonFileBackend } from './storage/jsonFileBackend.js';
+import { MemoryBackend } from './storage/memoryBackend.js';
+import { SqlBackend } from './storage/sqlBackend.js';
+import { createUlidGenerator, systemClock, type Clock, type IdGenerator, type IdPrefix } from './clock.js';
+import { CURRENT_SCHEMA_VERSION } from './storage/migrations.js';
+import {
+  BUNDLE_FORMAT,
+  parseBundle,
+  type BundleImportOptions,
+  type BundleImportReport,
+  type DebateBundle,
+} from './storage/bundle.js';
+import {
+  replayEvents,
+  type DebateEvent,
+  type DebateEventType,
+  type EventBuilder,
+  type EventFields,
+  type EventQuery,
+  type ReplayState,
+} from './storage/journal.js';
+import { inspectContents, type IntegrityIssue, type IntegrityReport } from './storage/integrity.js';
+import { type EncryptionConfig } from './storage/encryption.js';
+import { type PanelAggregation } from './agreement.js';
 
 /**
- * Interface for a single argument submitted by a user
+ * A registered debater, shared across sessions
+ */
+export interface Participant {
+  id: string;
+  displayName: string;
+  affiliation?: string;
+  createdAt: number;
+}
+
+/**
+ * ID of the workspace every store starts in, holding all data created before workspaces existed
+ */
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+/**
+ * Settings that apply to every session in a workspace
+ */
+export interface WorkspaceSettings {
+  description?: string;
+  /** Create new sessions as drafts unless the caller says otherwise */
+  draftByDefault?: boolean;
+}
+
+/**
+ * A named, isolated set of sessions, participants and results, e.g. one per class or team
+ */
+export interface Workspace {
+  /** Lowercase slug derived from the name; also names the workspace's storage */
+  id: string;
+  name: string;
+  createdAt: number;
+  settings: WorkspaceSettings;
+}
+
+/**
+ * One entry in an argument's audit trail
+ */
+export interface ArgumentRevision {
+  revision: number;
+  action: 'submitted' | 'edited' | 'withdrawn';
+  text: string;
+  /** Participant ID or moderator name responsible for the change */
+  editedBy: string;
+  editedAt: number;
+  reason?: string;
+}
+
+/**
+ * Interface for a single argument submitted by a participant. `text` is the current revision;
+ * `history` keeps every revision in order, including the original submission.
  */
 export interface Argument {
   id: string;
-  userId: string;
-  userName: string;
+  participantId: string;
   topic: string;
   text: string;
   timestamp: number;
+  revision: number;
+  withdrawn: boolean;
+  history: ArgumentRevision[];
+  /** Round the argument was submitted in, for sessions with rounds */
+  roundId?: string;
+  /** ID of the earlier argument this one rebuts */
+  replyTo?: string;
+  /** Soft rules the argument broke; their penalties come off the author's final score */
+  penalties?: RuleViolation[];
+}
+
+/**
+ * Lifecycle state of a debate session
+ */
+export type SessionState = 'draft' | 'open' | 'closed' | 'judged' | 'archived';
+
+/**
+ * Allowed lifecycle transitions. Judged sessions can be closed again for a re-run of the analysis.
+ */
+export const SESSION_TRANSITIONS: Record<SessionState, SessionState[]> = {
+  draft: ['open', 'archived'],
+  open: ['closed', 'archived'],
+  closed: ['open', 'judged', 'archived'],
+  judged: ['closed', 'archived'],
+  archived: [],
+};
+
+/**
+ * A position taken on the motion, e.g. proposition or opposition
+ */
+export interface DebateSide {
+  id: string;
+  name: string;
+}
+
+/**
+ * Names of the classic two-sided format
+ */
+export const PRO_CON_SIDES = ['Proposition', 'Opposition'];
+
+/**
+ * What a round is for; rebuttals are judged on how well they answer earlier rounds
+ */
+export type RoundKind = 'opening' | 'rebuttal' | 'closing' | 'other';
+
+/**
+ * One phase of a debate. Rounds run in the order they are listed.
+ */
+export interface DebateRound {
+  id: string;
+  name: string;
+  kind: RoundKind;
+}
+
+/**
+ * Round definition as given when configuring a session
+ */
+export type RoundSpec = Omit<DebateRound, 'id'>;
+
+/**
+ * The classic opening, rebuttal and closing structure
+ */
+export const STANDARD_ROUNDS: RoundSpec[] = [
+  { name: 'Opening', kind: 'opening' },
+  { name: 'Rebuttal', kind: 'rebuttal' },
+  { name: 'Closing', kind: 'closing' },
+];
+
+/**
+ * How a session's rules treat violations: hard rules reject the argument, soft rules accept it
+ * with a penalty
+ */
+export type RuleEnforcement = 'hard' | 'soft';
+
+/**
+ * Submission rules for a session. Every limit is optional.
+ */
+export interface SessionRules {
+  minWords?: number;
+  maxWords?: number;
+  /** Arguments a participant may have in the session, not counting withdrawn ones */
+  maxArgumentsPerParticipant?: number;
+  /** Arguments are accepted from this timestamp... */
+  opensAt?: number;
+  /** ...until this one */
+  closesAt?: number;
+  /** Participant IDs in the order they speak, repeating; with rounds, each round starts again from the top */
+  speakingOrder?: string[];
+  /** Defaults to hard */
+  enforcement?: RuleEnforcement;
+  /** Points taken off the final score (0-10) for each soft violation, default 1 */
+  penaltyPerViolation?: number;
+}
+
+/**
+ * Which rule an argument broke
+ */
+export type RuleCode = 'min_words' | 'max_words' | 'max_arguments' | 'before_window' | 'after_window' | 'out_of_turn';
+
+/**
+ * A broken rule, recorded on arguments accepted under soft rules
+ */
+export interface RuleViolation {
+  rule: RuleCode;
+  message: string;
+  /** Points deducted, fixed when the argument was submitted or last edited */
+  penalty: number;
 }
 
 /**
@@ -21,25 +200,55 @@ export interface DebateSession {
   topic: string;
   arguments: Argument[];
   createdAt: number;
-  processedAt?: number;
+  state: SessionState;
+  stateChangedAt: number;
+  officialRunId?: string;
+  /** State the session was in before it was archived, restored by unarchiveSession */
+  archivedFrom?: SessionState;
+  /** Positions participants argue for; sessions without sides are judged per participant only */
+  sides?: DebateSide[];
+  /** Participant ID → side ID */
+  sideAssignments?: Record<string, string>;
+  /** Phases of the debate, in order; sessions without rounds take arguments in one flat list */
+  rounds?: DebateRound[];
+  /** Round new arguments are added to */
+  currentRoundId?: string;
+  /** Limits checked whenever an argument is submitted or edited */
+  rules?: SessionRules;
+  /** ID of the rubric the session is judged with; sessions without one use the default rubric */
+  rubricId?: string;
 }
 
 /**
- * Interface for debate results after AI analysis
+ * How a participant's argument scores combine into their overall score: the plain mean, their
+ * best argument, or a mean weighted by the kind of round each argument was made in
+ */
+export type ScoreAggregation = 'mean' | 'best' | 'round-weighted';
+
+/**
+ * How a debate is judged: criterion scores for each argument, comparisons of participants two at a
+ * time, or both (the scores decide the verdict and the comparisons are kept alongside)
+ */
+export type JudgingMode = 'scores' | 'pairwise' | 'both';
+
+/**
+ * Interface for debate results after AI analysis. Each analysis of a session is kept as a
+ * numbered revision (run). Results and the winner are keyed by participant ID (`userId`), with
+ * `userName` resolved from the participant registry at analysis time.
  */
 export interface DebateResult {
+  runId: string;
+  revision: number;
   sessionId: string;
   topic: string;
   results: {
     [userId: string]: {
       userName: string;
-      scores: {
-        clarity: number;
-        logic: number;
-        evidence: number;
-        relevance: number;
-      };
+      /** Criterion ID → 0-10 score, for the criteria of the rubric used */
+      scores: Record<string, number>;
       finalScore: number;
+      /** Points deducted for soft rule violations, already taken off `finalScore` */
+      penalty?: number;
       reasoning: string;
     };
   };
@@ -49,63 +258,437 @@ export interface DebateResult {
     finalScore: number;
   } | null;
   isTie: boolean;
+  /** Scores for each judged argument, keyed by argument ID; `results` aggregates them per participant */
+  arguments?: {
+    [argumentId: string]: {
+      participantId: string;
+      roundId?: string;
+      scores: DebateResult['results'][string]['scores'];
+      /** Weighted score of this argument alone, before penalties */
+      finalScore: number;
+      reasoning: string;
+    };
+  };
+  /** How argument scores were combined into `results` */
+  aggregation?: ScoreAggregation;
+  /** How the run was judged; runs without one were judged by scores */
+  judgingMode?: JudgingMode;
+  /** Pairwise comparisons and the Bradley-Terry ranking fitted to them, for runs judged pairwise */
+  pairwise?: {
+    comparisons: PairwiseComparison[];
+    /** Strongest first; strengths have a geometric mean of 1 */
+    ranking: Array<{ userId: string; userName: string; strength: number }>;
+    /** Participant ID → opponent ID → probability the participant beats the opponent */
+    winProbabilities: { [userId: string]: { [opponentId: string]: number } };
+    /** Share of decided verdicts that went to the participant shown first; 0.5 is no position bias */
+    firstPositionRate: number | null;
+  };
+  /** How the judges saw the debate */
+  provenance?: {
+    /** Whether participants were hidden behind speaker labels, with self-identifying phrases stripped */
+    blind: boolean;
+    /** Participant ID → label the judges saw, for blind runs */
+    speakerLabels?: Record<string, string>;
+    /** Self-identifying phrases and name mentions removed or replaced in argument text, for blind runs */
+    redactions?: number;
+  };
+  /** How much each participant's score moved when the judges saw the arguments in different orders */
+  orderBias?: {
+    /** Every judge call, with the argument IDs in the order the judge saw them */
+    orderings: Array<{ judgeId: string; order: string[] }>;
+    participants: {
+      [userId: string]: {
+        /** The participant's final score from each call, in the order of `orderings` */
+        finalScores: number[];
+        /** Mean over the judges of `judges[judgeId].range` */
+        range: number;
+        /** Mean over the judges of `judges[judgeId].stdDev` */
+        stdDev: number;
+        /** Judge ID → how far that judge's scores moved between its own orderings (highest minus lowest, and SD) */
+        judges: Record<string, { range: number; stdDev: number }>;
+      };
+    };
+  };
+  /** The judging panel's individual ballots and how far they agreed, for runs judged by the AI */
+  panel?: {
+    /** How the judges' criterion and side scores were combined into the verdict */
+    aggregation: PanelAggregation;
+    ballots: JudgeBallot[];
+    agreement: {
+      /** Krippendorff's alpha (interval) over every argument and criterion; null with fewer than two judges */
+      alpha: number | null;
+      participants: {
+        [userId: string]: {
+          /** Judge ID → the participant's final score on that judge's ballot alone */
+          finalScores: Record<string, number>;
+          stdDev: number;
+          alpha: number | null;
+        };
+      };
+    };
+    /** Set when agreement fell below the analyzer's thresholds and the verdict deserves a second look */
+    strongDisagreement: boolean;
+  };
+  /** The rubric the run was scored with, as it was at the time; runs without one used the default rubric */
+  rubric?: {
+    id: string;
+    name: string;
+    version: string;
+    criteria: Array<{ id: string; name: string; weight: number }>;
+  };
+  /** Per-side verdict, for sessions with sides */
+  sides?: {
+    [sideId: string]: {
+      sideName: string;
+      participantIds: string[];
+      /** How well the side defended its position, 0-10 */
+      finalScore: number;
+      reasoning: string;
+    };
+  };
+  winningSide?: {
+    sideId: string;
+    sideName: string;
+    finalScore: number;
+  } | null;
+  isSideTie?: boolean;
+  /** Per-round verdicts, for sessions with rounds, aggregated from the round's arguments; `results` above is the overall verdict */
+  rounds?: {
+    [roundId: string]: {
+      roundName: string;
+      kind: RoundKind;
+      results: DebateResult['results'];
+      winner: DebateResult['winner'];
+      isTie: boolean;
+    };
+  };
   consensusStatement: string;
   processedAt: number;
 }
 
 /**
- * Debate Store - Handles JSON file persistence for arguments and results
+ * One judge's scores for a debate, kept alongside the panel's combined verdict
+ */
+export interface JudgeBallot {
+  judgeId: string;
+  judgeName: string;
+  model?: string;
+  temperature?: number;
+  persona?: string;
+  /** Argument ID → criterion scores and reasoning */
+  arguments: {
+    [argumentId: string]: {
+      scores: Record<string, number>;
+      reasoning: string;
+    };
+  };
+  /** Side ID → defense score and reasoning, for sessions with sides */
+  sides?: {
+    [sideId: string]: {
+      defense: number;
+      reasoning: string;
+    };
+  };
+  consensusStatement: string;
+}
+
+/**
+ * One judge's comparison of two participants, shown in the order given. Each criterion's verdict is
+ * the participant ID of the stronger one, or null for a tie.
+ */
+export interface PairwiseComparison {
+  judgeId: string;
+  first: string;
+  second: string;
+  verdicts: Record<string, string | null>;
+  reasoning: string;
+}
+
+/**
+ * Analysis output before the store has assigned it a run ID and revision
+ */
+export type UnsavedDebateResult = Omit<DebateResult, 'runId' | 'revision'>;
+
+/**
+ * Arguments that still count towards judging (not withdrawn), at their current revision
+ */
+export function activeArguments(session: DebateSession): Argument[] {
+  return session.arguments.filter(arg => !arg.withdrawn);
+}
+
+/**
+ * The side a participant argues for in a session, if the session has sides and they were assigned one
+ */
+export function sideOf(session: DebateSession, participantId: string): DebateSide | undefined {
+  const sideId = session.sideAssignments?.[participantId];
+  return session.sides?.find(side => side.id === sideId);
+}
+
+/**
+ * Arguments grouped by round in round order, for sessions with rounds
+ */
+export function argumentsByRound(session: DebateSession, args: Argument[] = session.arguments): Array<{ round: DebateRound; arguments: Argument[] }> {
+  return (session.rounds ?? []).map(round => ({ round, arguments: args.filter(arg => arg.roundId === round.id) }));
+}
+
+/**
+ * Order arguments as reply threads: each argument is followed by its replies (depth-first, in
+ * submission order). Replies to arguments not in the list start their own thread.
+ */
+export function replyThreads(args: Argument[]): Array<{ argument: Argument; depth: number }> {
+  const ids = new Set(args.map(arg => arg.id));
+  const replies = new Map<string, Argument[]>();
+  for (const arg of args) {
+    if (arg.replyTo && ids.has(arg.replyTo)) {
+      replies.set(arg.replyTo, [...(replies.get(arg.replyTo) ?? []), arg]);
+    }
+  }
+
+  const ordered: Array<{ argument: Argument; depth: number }> = [];
+  const visit = (argument: Argument, depth: number) => {
+    ordered.push({ argument, depth });
+    (replies.get(argument.id) ?? []).forEach(reply => visit(reply, depth + 1));
+  };
+  args.filter(arg => !arg.replyTo || !ids.has(arg.replyTo)).forEach(root => visit(root, 0));
+  return ordered;
+}
+
+/**
+ * Total soft-rule penalty per participant over the given arguments
+ */
+export function penaltiesByParticipant(args: Argument[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const arg of args) {
+    const penalty = (arg.penalties ?? []).reduce((sum, violation) => sum + violation.penalty, 0);
+    if (penalty > 0) {
+      totals.set(arg.participantId, (totals.get(arg.participantId) ?? 0) + penalty);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Filters, sorting and pagination for querying sessions
+ */
+export interface SessionQuery {
+  /** Case-insensitive substring of the topic */
+  topic?: string;
+  /** Only sessions with an argument from this participant */
+  participantId?: string;
+  /** Only sessions in one of these states */
+  state?: SessionState | SessionState[];
+  /** Only sessions created at or after this timestamp */
+  createdFrom?: number;
+  /** Only sessions created at or before this timestamp */
+  createdTo?: number;
+  /** Only sessions with (true) or without (false) at least one analysis run */
+  hasResults?: boolean;
+  /** Set to false to leave archived sessions out (default true) */
+  includeArchived?: boolean;
+  sortBy?: 'createdAt' | 'topic' | 'argumentCount' | 'stateChangedAt';
+  sortOrder?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * One page of sessions matching a query
+ */
+export interface SessionPage {
+  sessions: DebateSession[];
+  /** Number of sessions matching the filters, across all pages */
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Storage configuration used to pick a backend
+ */
+export interface DebateStoreConfig {
+  backend: StorageBackendKind;
+  /** Directory for JSON files (json) or the embedded database (sql) */
+  dataDir: string;
+  /** Postgres connection string for the sql backend */
+  postgresUrl?: string;
+  /** Key for encrypting data at rest (json backend only); no key means plain files */
+  encryption?: EncryptionConfig;
+}
+
+/**
+ * Time and ID sources used by a store; tests pass fixed ones for deterministic output
+ */
+export interface DebateStoreDependencies {
+  clock?: Clock;
+  generateId?: IdGenerator;
+}
+
+/**
+ * Debate Store - Session and result operations on top of a pluggable storage backend
  */
 export class DebateStore {
-  private readonly dataDir: string;
-  private readonly sessionsFile: string;
-  private readonly resultsFile: string;
+  /** Backend of the default workspace, which also keeps the workspace registry */
+  private readonly root: StorageBackend;
+  /** Backend of the active workspace; every session, participant and result API goes through it */
+  private backend: StorageBackend;
+  private workspace: Workspace = defaultWorkspace();
+  private readonly clock: Clock;
+  private readonly idGenerator: IdGenerator;
+
+  constructor(backend: StorageBackend = new JsonFileBackend(), dependencies: DebateStoreDependencies = {}) {
+    this.root = backend;
+    this.backend = backend;
+    this.clock = dependencies.clock ?? systemClock;
+    this.idGenerator = dependencies.generateId ?? createUlidGenerator(this.clock);
+  }
+
+  /**
+   * Name of the storage backend in use
+   */
+  get backendKind(): StorageBackendKind {
+    return this.backend.kind;
+  }
 
-  constructor(dataDir: string = './data') {
-    this.dataDir = dataDir;
-    this.sessionsFile = join(dataDir, 'sessions.json');
-    this.resultsFile = join(dataDir, 'results.json');
+  /**
+   * The workspace all store APIs currently operate on
+   */
+  get activeWorkspace(): Workspace {
+    return structuredClone(this.workspace);
   }
 
   /**
-   * Initialize the data directory and files
+   * Initialize the underlying storage and migrate old data to the current schema
    */
   async initialize(): Promise<void> {
     try {
-      await fs.mkdir(this.dataDir, { recursive: true });
-      
-      // Initialize sessions file if it doesn't exist
-      try {
-        await fs.access(this.sessionsFile);
-      } catch {
-        await fs.writeFile(this.sessionsFile, JSON.stringify([], null, 2));
-      }
-
-      // Initialize results file if it doesn't exist
-      try {
-        await fs.access(this.resultsFile);
-      } catch {
-        await fs.writeFile(this.resultsFile, JSON.stringify([], null, 2));
-      }
+      await this.prepareBackend(this.root);
+      this.workspace = (await this.listWorkspaces())[0];
     } catch (error) {
       throw new Error(`Failed to initialize debate store: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Create a new debate session
+   * List all workspaces, the default workspace first
+   */
+  async listWorkspaces(): Promise<Workspace[]> {
+    const registered = await this.root.listWorkspaces();
+    const others = registered.filter(workspace => workspace.id !== DEFAULT_WORKSPACE_ID);
+    return [registered.find(workspace => workspace.id === DEFAULT_WORKSPACE_ID) ?? defaultWorkspace(), ...others];
+  }
+
+  /**
+   * Create a workspace. Its ID is a slug of the name, and both must be unique. The active workspace does not change.
+   */
+  async createWorkspace(name: string, settings: WorkspaceSettings = {}): Promise<Workspace> {
+    const trimmed = name.trim();
+    const id = trimmed.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+    if (!id) {
+      throw new Error('Workspace name must contain at least one letter or digit');
+    }
+
+    const workspace: Workspace = { id, name: trimmed, createdAt: this.clock.now(), settings: { ...settings } };
+    await this.root.updateWorkspaces(workspaces => {
+      const existing = [defaultWorkspace(), ...workspaces].find(other =>
+        other.id === id || other.name.toLowerCase() === trimmed.toLowerCase()
+      );
+      if (existing) {
+        throw new Error(`A workspace named "${existing.name}" already exists (${existing.id})`);
+      }
+      workspaces.push(workspace);
+    }, this.journal('workspace.created', () => ({ at: workspace.createdAt, detail: { workspaceId: id, name: trimmed } })));
+
+    return workspace;
+  }
+
+  /**
+   * Switch every store API to another workspace, given its ID or name
+   */
+  async useWorkspace(workspaceIdOrName: string): Promise<Workspace> {
+    const wanted = workspaceIdOrName.trim().toLowerCase();
+    const workspace = (await this.listWorkspaces()).find(candidate =>
+      candidate.id === wanted || candidate.name.toLowerCase() === wanted
+    );
+    if (!workspace) {
+      throw new Error(`Workspace ${workspaceIdOrName} not found`);
+    }
+    if (workspace.id === this.workspace.id) {
+      return structuredClone(workspace);
+    }
+
+    const backend = workspace.id === DEFAULT_WORKSPACE_ID ? this.root : this.root.forWorkspace(workspace.id);
+    if (backend !== this.root) {
+      await this.prepareBackend(backend);
+    }
+    if (this.backend !== this.root) {
+      await this.backend.close();
+    }
+
+    this.backend = backend;
+    this.workspace = workspace;
+    return structuredClone(workspace);
+  }
+
+  /**
+   * Change settings of the active workspace; omitted settings keep their value
+   */
+  async updateWorkspaceSettings(settings: WorkspaceSettings): Promise<Workspace> {
+    const updated: Workspace = { ...this.workspace, settings: { ...this.workspace.settings, ...settings } };
+    await this.root.updateWorkspaces(workspaces => {
+      const index = workspaces.findIndex(workspace => workspace.id === updated.id);
+      if (index >= 0) {
+        workspaces[index] = updated;
+      } else {
+        workspaces.unshift(updated);
+      }
+    }, this.journal('workspace.updated', () => ({ detail: { workspaceId: updated.id, settings: updated.settings } })));
+
+    this.workspace = updated;
+    return structuredClone(updated);
+  }
+
+  /**
+   * Create a new debate session, open for arguments unless created as a draft (the workspace's
+   * `draftByDefault` setting applies when `draft` is not given). Pass side names, e.g.
+   * `PRO_CON_SIDES`, to have participants argue for sides, rounds, e.g. `STANDARD_ROUNDS`, to run
+   * the debate in phases, rules to limit submissions, and the ID of the rubric to judge it with.
    */
-  async createSession(topic: string): Promise<DebateSession> {
+  async createSession(
+    topic: string,
+    options: { draft?: boolean; sides?: string[]; rounds?: RoundSpec[]; rules?: SessionRules; rubricId?: string } = {}
+  ): Promise<DebateSession> {
+    if (options.rubricId !== undefined) {
+      validateRubricId(options.rubricId);
+    }
+    if (options.rules) {
+      await this.validateRules(options.rules);
+    }
+
+    const now = this.clock.now();
     const session: DebateSession = {
       id: this.generateId(),
       topic,
       arguments: [],
-      createdAt: Date.now(),
+      createdAt: now,
+      state: (options.draft ?? this.workspace.settings.draftByDefault) ? 'draft' : 'open',
+      stateChangedAt: now,
     };
+    if (options.sides?.length) {
+      session.sides = buildSides(options.sides);
+      session.sideAssignments = {};
+    }
+    if (options.rounds?.length) {
+      session.rounds = buildRounds(options.rounds);
+      session.currentRoundId = session.rounds[0].id;
+    }
+    if (options.rules) {
+      session.rules = { ...options.rules };
+    }
+    if (options.rubricId) {
+      session.rubricId = options.rubricId;
+    }
 
-    const sessions = await this.loadSessions();
-    sessions.push(session);
-    await this.saveSessions(sessions);
+    await this.backend.insertSession(session, this.journal('session.created', saved => ({ sessionId: saved.id, session: saved, at: saved.createdAt })));
 
     return session;
   }
@@ -114,138 +697,1202 @@ export class DebateStore {
    * Get a debate session by ID
    */
   async getSession(sessionId: string): Promise<DebateSession | null> {
-    const sessions = await this.loadSessions();
-    return sessions.find(session => session.id === sessionId) || null;
+    return await this.backend.getSession(sessionId);
   }
 
   /**
    * Get all debate sessions
    */
   async getAllSessions(): Promise<DebateSession[]> {
-    return await this.loadSessions();
+    return await this.backend.listSessions();
   }
 
   /**
-   * Add an argument to a debate session
+   * Register a new participant. Display names must be unique (ignoring case).
    */
-  async addArgument(sessionId: string, userId: string, userName: string, argumentText: string): Promise<Argument> {
-    const sessions = await this.loadSessions();
-    const sessionIndex = sessions.findIndex(session => session.id === sessionId);
-    
-    if (sessionIndex === -1) {
-      throw new Error(`Session ${sessionId} not found`);
+  async registerParticipant(displayName: string, options: { affiliation?: string } = {}): Promise<Participant> {
+    const name = displayName.trim();
+    if (!name) {
+      throw new Error('Participant display name is required');
     }
 
-    const argument: Argument = {
-      id: this.generateId(),
-      userId,
-      userName,
-      topic: sessions[sessionIndex].topic,
-      text: argumentText,
-      timestamp: Date.now(),
+    const participant: Participant = {
+      id: this.generateId('participant'),
+      displayName: name,
+      createdAt: this.clock.now(),
     };
+    if (options.affiliation?.trim()) {
+      participant.affiliation = options.affiliation.trim();
+    }
 
-    sessions[sessionIndex].arguments.push(argument);
-    await this.saveSessions(sessions);
-
-    return argument;
-  }
+    await this.backend.insertParticipant(participant, existing => {
+      const duplicate = existing.find(other => other.displayName.toLowerCase() === name.toLowerCase());
+      if (duplicate) {
+        throw new Error(`A participant named "${duplicate.displayName}" is already registered (${duplicate.id})`);
+      }
+    }, this.journal('participant.registered', saved => ({ participant: saved, at: saved.createdAt })));
 
-  /**
-   * Save debate results
-   */
-  async saveResults(result: DebateResult): Promise<void> {
-    const results = await this.loadResults();
-    results.push(result);
-    await this.saveResults(results);
+    return participant;
   }
 
   /**
-   * Get debate results by session ID
+   * Get a participant by ID
    */
-  async getResults(sessionId: string): Promise<DebateResult | null> {
-    const results = await this.loadResults();
-    return results.find(result => result.sessionId === sessionId) || null;
+  async getParticipant(participantId: string): Promise<Participant | null> {
+    return await this.backend.getParticipant(participantId);
   }
 
   /**
-   * Get all debate results
+   * Get all registered participants, sorted by display name
    */
-  async getAllResults(): Promise<DebateResult[]> {
-    return await this.loadResults();
+  async listParticipants(): Promise<Participant[]> {
+    const participants = await this.backend.listParticipants();
+    return participants.sort((a, b) => a.displayName.localeCompare(b.displayName));
   }
 
   /**
-   * Mark a session as processed
+   * Get the participants who argued in a session, in order of their first argument
    */
-  async markSessionProcessed(sessionId: string): Promise<void> {
-    const sessions = await this.loadSessions();
-    const sessionIndex = sessions.findIndex(session => session.id === sessionId);
-    
-    if (sessionIndex === -1) {
+  async getSessionParticipants(sessionId: string): Promise<Participant[]> {
+    const session = await this.backend.getSession(sessionId);
+    if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    sessions[sessionIndex].processedAt = Date.now();
-    await this.saveSessions(sessions);
+    const registry = new Map((await this.backend.listParticipants()).map(participant => [participant.id, participant]));
+    const ids = [...new Set(session.arguments.map(arg => arg.participantId))];
+    return ids.map(id => registry.get(id) ?? { id, displayName: id, createdAt: 0 });
   }
 
   /**
-   * Load sessions from JSON file
+   * Find sessions matching the given filters, sorted and paginated
    */
-  private async loadSessions(): Promise<DebateSession[]> {
-    try {
-      const data = await fs.readFile(this.sessionsFile, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
-      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-        return [];
-      }
-      throw new Error(`Failed to load sessions: ${error instanceof Error ? error.message : String(error)}`);
+  async querySessions(query: SessionQuery = {}): Promise<SessionPage> {
+    const { sortBy = 'createdAt', sortOrder = 'asc', offset = 0 } = query;
+    let sessions = await this.backend.listSessions();
+
+    if (query.topic) {
+      const needle = query.topic.toLowerCase();
+      sessions = sessions.filter(session => session.topic.toLowerCase().includes(needle));
     }
+    if (query.participantId) {
+      sessions = sessions.filter(session => session.arguments.some(arg => arg.participantId === query.participantId));
+    }
+    if (query.includeArchived === false) {
+      sessions = sessions.filter(session => session.state !== 'archived');
+    }
+    if (query.state) {
+      const states = Array.isArray(query.state) ? query.state : [query.state];
+      sessions = sessions.filter(session => states.includes(session.state));
+    }
+    if (query.createdFrom !== undefined) {
+      sessions = sessions.filter(session => session.createdAt >= query.createdFrom!);
+    }
+    if (query.createdTo !== undefined) {
+      sessions = sessions.filter(session => session.createdAt <= query.createdTo!);
+    }
+    if (query.hasResults !== undefined) {
+      const judgedIds = new Set((await this.backend.listResults()).map(result => result.sessionId));
+      sessions = sessions.filter(session => judgedIds.has(session.id) === query.hasResults);
+    }
+
+    const direction = sortOrder === 'desc' ? -1 : 1;
+    sessions.sort((a, b) => {
+      switch (sortBy) {
+        case 'topic':
+          return direction * a.topic.localeCompare(b.topic);
+        case 'argumentCount':
+          return direction * (a.arguments.length - b.arguments.length);
+        case 'stateChangedAt':
+          return direction * (a.stateChangedAt - b.stateChangedAt);
+        case 'createdAt':
+        default:
+          return direction * (a.createdAt - b.createdAt);
+      }
+    });
+
+    const limit = query.limit ?? sessions.length;
+    return {
+      sessions: sessions.slice(offset, offset + limit),
+      total: sessions.length,
+      offset,
+      limit,
+    };
   }
 
   /**
-   * Save sessions to JSON file
+   * Add an argument to a debate session
    */
-  private async saveSessions(sessions: DebateSession[]): Promise<void> {
-    try {
-      await fs.writeFile(this.sessionsFile, JSON.stringify(sessions, null, 2));
-    } catch (error) {
-      throw new Error(`Failed to save sessions: ${error instanceof Error ? error.message : String(error)}`);
+  async addArgument(sessionId: string, participantId: string, argumentText: string, options: { replyTo?: string } = {}): Promise<Argument> {
+    if (!(await this.backend.getParticipant(participantId))) {
+      throw new Error(`Participant ${participantId} is not registered`);
     }
+
+    let argument: Argument | undefined;
+
+    await this.backend.updateSession(sessionId, session => {
+      if (session.state !== 'open') {
+        throw new Error(`Session ${sessionId} is ${session.state}; arguments can only be added while it is open`);
+      }
+      if (session.sides?.length && !sideOf(session, participantId)) {
+        throw new Error(`Assign participant ${participantId} to a side before they argue in session ${sessionId}`);
+      }
+      if (options.replyTo) {
+        validateReply(session, participantId, options.replyTo);
+      }
+
+      const now = this.clock.now();
+      const violations = session.rules ? checkRules(session, session.rules, participantId, argumentText, now) : [];
+      if (violations.length > 0 && session.rules?.enforcement !== 'soft') {
+        throw new Error(`Argument rejected: ${violations.map(violation => violation.message).join('; ')}`);
+      }
+
+      argument = {
+        id: this.generateId('arg'),
+        participantId,
+        topic: session.topic,
+        text: argumentText,
+        timestamp: now,
+        revision: 1,
+        withdrawn: false,
+        history: [{ revision: 1, action: 'submitted', text: argumentText, editedBy: participantId, editedAt: now }],
+      };
+      if (session.currentRoundId) {
+        argument.roundId = session.currentRoundId;
+      }
+      if (options.replyTo) {
+        argument.replyTo = options.replyTo;
+      }
+      if (violations.length > 0) {
+        argument.penalties = violations;
+      }
+      session.arguments.push(argument);
+    }, this.journal('argument.added', saved => ({
+      sessionId,
+      session: saved,
+      at: argument!.timestamp,
+      detail: {
+        argumentId: argument!.id,
+        participantId,
+        ...(options.replyTo && { replyTo: options.replyTo }),
+        ...(argument!.penalties && { violations: argument!.penalties.map(violation => violation.rule) }),
+      },
+    })));
+
+    return argument!;
   }
 
   /**
-   * Load results from JSON file
+   * Define the sides of a session, replacing any earlier ones and their assignments. An empty list
+   * removes sides. Only possible before the first argument is submitted.
    */
-  private async loadResults(): Promise<DebateResult[]> {
-    try {
-      const data = await fs.readFile(this.resultsFile, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
-      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-        return [];
+  async setSessionSides(sessionId: string, sideNames: string[]): Promise<DebateSession> {
+    const sides = sideNames.length > 0 ? buildSides(sideNames) : [];
+    return await this.backend.updateSession(sessionId, session => {
+      if (session.state !== 'draft' && session.state !== 'open') {
+        throw new Error(`Session ${sessionId} is ${session.state}; sides can only be changed while it is a draft or open`);
       }
-      throw new Error(`Failed to load results: ${error instanceof Error ? error.message : String(error)}`);
-    }
+      if (session.arguments.length > 0) {
+        throw new Error(`Session ${sessionId} already has arguments; its sides can no longer be changed`);
+      }
+
+      if (sides.length > 0) {
+        session.sides = sides;
+        session.sideAssignments = {};
+      } else {
+        delete session.sides;
+        delete session.sideAssignments;
+      }
+    }, this.journal('session.sides_changed', saved => ({ sessionId, session: saved, detail: { sides: sides.map(side => side.id) } })));
   }
 
   /**
-   * Save results to JSON file
+   * Define the rounds of a session, replacing any earlier ones. An empty list removes rounds.
+   * Only possible before the first argument is submitted.
    */
-  private async saveResults(results: DebateResult[]): Promise<void> {
-    try {
-      await fs.writeFile(this.resultsFile, JSON.stringify(results, null, 2));
-    } catch (error) {
-      throw new Error(`Failed to save results: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  async setSessionRounds(sessionId: string, rounds: RoundSpec[]): Promise<DebateSession> {
+    const built = rounds.length > 0 ? buildRounds(rounds) : [];
+    return await this.backend.updateSession(sessionId, session => {
+      if (session.state !== 'draft' && session.state !== 'open') {
+        throw new Error(`Session ${sessionId} is ${session.state}; rounds can only be changed while it is a draft or open`);
+      }
+      if (session.arguments.length > 0) {
+        throw new Error(`Session ${sessionId} already has arguments; its rounds can no longer be changed`);
+      }
+
+      if (built.length > 0) {
+        session.rounds = built;
+        session.currentRoundId = built[0].id;
+      } else {
+        delete session.rounds;
+        delete session.currentRoundId;
+      }
+    }, this.journal('session.rounds_changed', saved => ({ sessionId, session: saved, detail: { rounds: built.map(round => round.id) } })));
   }
 
   /**
-   * Generate a unique ID
+   * Replace a session's submission rules; null removes them. Arguments already submitted keep any
+   * penalties they were given.
    */
-  private generateId(): string {
-    return `debate_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  async setSessionRules(sessionId: string, rules: SessionRules | null): Promise<DebateSession> {
+    if (rules) {
+      await this.validateRules(rules);
+    }
+
+    return await this.backend.updateSession(sessionId, session => {
+      if (session.state !== 'draft' && session.state !== 'open') {
+        throw new Error(`Session ${sessionId} is ${session.state}; rules can only be changed while it is a draft or open`);
+      }
+
+      if (rules) {
+        session.rules = { ...rules };
+      } else {
+        delete session.rules;
+      }
+    }, this.journal('session.rules_changed', saved => ({ sessionId, session: saved, detail: { rules: saved.rules ?? null } })));
+  }
+
+  /**
+   * Choose the rubric a session is judged with; null goes back to the default rubric. Possible
+   * until the session is judged. The rubric itself is looked up by the analyzer.
+   */
+  async setSessionRubric(sessionId: string, rubricId: string | null): Promise<DebateSession> {
+    if (rubricId !== null) {
+      validateRubricId(rubricId);
+    }
+
+    return await this.backend.updateSession(sessionId, session => {
+      if (session.state !== 'draft' && session.state !== 'open' && session.state !== 'closed') {
+        throw new Error(`Session ${sessionId} is ${session.state}; its rubric can only be changed before it is judged`);
+      }
+
+      if (rubricId) {
+        session.rubricId = rubricId;
+      } else {
+        delete session.rubricId;
+      }
+    }, this.journal('session.rubric_changed', saved => ({ sessionId, session: saved, detail: { rubricId } })));
+  }
+
+  /**
+   * Move an open session on to its next round; later arguments belong to that round. Rounds never go back.
+   */
+  async advanceRound(sessionId: string): Promise<DebateSession> {
+    let from: string | undefined;
+    return await this.backend.updateSession(sessionId, session => {
+      if (!session.rounds?.length) {
+        throw new Error(`Session ${sessionId} has no rounds`);
+      }
+      if (session.state !== 'open') {
+        throw new Error(`Session ${sessionId} is ${session.state}; rounds can only advance while it is open`);
+      }
+
+      const index = session.rounds.findIndex(round => round.id === session.currentRoundId);
+      if (index === session.rounds.length - 1) {
+        throw new Error(`Session ${sessionId} is already in its last round`);
+      }
+      from = session.currentRoundId;
+      session.currentRoundId = session.rounds[index + 1].id;
+    }, this.journal('session.round_advanced', saved => ({ sessionId, session: saved, detail: { from, to: saved.currentRoundId } })));
+  }
+
+  /**
+   * Assign a participant to one of a session's sides. A participant can switch sides until they first argue.
+   */
+  async assignSide(sessionId: string, participantId: string, sideId: string): Promise<DebateSession> {
+    if (!(await this.backend.getParticipant(participantId))) {
+      throw new Error(`Participant ${participantId} is not registered`);
+    }
+
+    return await this.backend.updateSession(sessionId, session => {
+      if (session.state !== 'draft' && session.state !== 'open') {
+        throw new Error(`Session ${sessionId} is ${session.state}; sides can only be assigned while it is a draft or open`);
+      }
+      if (!session.sides?.some(side => side.id === sideId)) {
+        throw new Error(`Session ${sessionId} has no side ${sideId}`);
+      }
+      const current = session.sideAssignments?.[participantId];
+      if (current && current !== sideId && session.arguments.some(arg => arg.participantId === participantId)) {
+        throw new Error(`Participant ${participantId} has already argued for ${current} and cannot switch sides`);
+      }
+
+      session.sideAssignments = { ...session.sideAssignments, [participantId]: sideId };
+    }, this.journal('session.side_assigned', saved => ({ sessionId, session: saved, detail: { participantId, sideId } })));
+  }
+
+  /**
+   * Replace an argument's text with a new revision, keeping the previous ones in its history
+   */
+  async editArgument(sessionId: string, argumentId: string, newText: string, editedBy: string): Promise<Argument> {
+    return await this.reviseArgument(sessionId, argumentId, ['open'], argument => {
+      if (!newText.trim()) {
+        throw new Error('Argument text is required');
+      }
+      if (argument.withdrawn) {
+        throw new Error(`Argument ${argumentId} has been withdrawn and can no longer be edited`);
+      }
+      return { action: 'edited', text: newText, editedBy };
+    });
+  }
+
+  /**
+   * Withdraw an argument so it is no longer judged; its history is kept
+   */
+  async withdrawArgument(sessionId: string, argumentId: string, withdrawnBy: string, reason?: string): Promise<Argument> {
+    return await this.reviseArgument(sessionId, argumentId, ['open', 'closed'], argument => {
+      if (argument.withdrawn) {
+        throw new Error(`Argument ${argumentId} has already been withdrawn`);
+      }
+      return { action: 'withdrawn', text: argument.text, editedBy: withdrawnBy, reason };
+    });
+  }
+
+  /**
+   * Append a revision to an argument while the session is in one of the allowed states
+   */
+  private async reviseArgument(
+    sessionId: string,
+    argumentId: string,
+    allowedStates: SessionState[],
+    change: (argument: Argument) => Pick<ArgumentRevision, 'action' | 'text' | 'editedBy' | 'reason'>
+  ): Promise<Argument> {
+    let revised: Argument | undefined;
+
+    await this.backend.updateSession(sessionId, session => {
+      if (!allowedStates.includes(session.state)) {
+        throw new Error(`Session ${sessionId} is ${session.state}; arguments cannot be changed`);
+      }
+
+      const argument = session.arguments.find(arg => arg.id === argumentId);
+      if (!argument) {
+        throw new Error(`Argument ${argumentId} not found in session ${sessionId}`);
+      }
+
+      const { action, text, editedBy, reason } = change(argument);
+      if (!editedBy.trim()) {
+        throw new Error('Editor is required for the audit trail');
+      }
+
+      // Edits are held to the word limits; the other rules were settled at submission
+      if (action === 'edited' && session.rules) {
+        const violations = wordLimitViolations(session.rules, text);
+        if (violations.length > 0 && session.rules.enforcement !== 'soft') {
+          throw new Error(`Edit rejected: ${violations.map(violation => violation.message).join('; ')}`);
+        }
+        const kept = (argument.penalties ?? []).filter(violation => violation.rule !== 'min_words' && violation.rule !== 'max_words');
+        if (kept.length + violations.length > 0) {
+          argument.penalties = [...kept, ...violations];
+        } else {
+          delete argument.penalties;
+        }
+      }
+
+      const entry: ArgumentRevision = {
+        revision: argument.revision + 1,
+        action,
+        text,
+        editedBy: editedBy.trim(),
+        editedAt: this.clock.now(),
+      };
+      if (reason?.trim()) {
+        entry.reason = reason.trim();
+      }
+
+      argument.history.push(entry);
+      argument.revision = entry.revision;
+      argument.text = text;
+      argument.withdrawn = action === 'withdrawn';
+      revised = argument;
+    }, saved => {
+      const latest = revised!.history[revised!.history.length - 1];
+      return this.event(latest.action === 'withdrawn' ? 'argument.withdrawn' : 'argument.edited', {
+        sessionId,
+        session: saved,
+        at: latest.editedAt,
+        detail: { argumentId, revision: latest.revision, editedBy: latest.editedBy, reason: latest.reason },
+      });
+    });
+
+    return revised!;
+  }
+
+  /**
+   * Save debate results as a new analysis run for the session
+   */
+  async saveResults(result: UnsavedDebateResult): Promise<DebateResult> {
+    return await this.backend.insertResult(result.sessionId, existingRuns => ({
+      ...result,
+      runId: this.generateId('run'),
+      revision: existingRuns.reduce((max, run) => Math.max(max, run.revision), 0) + 1,
+    }), this.journal('result.recorded', saved => ({ sessionId: saved.sessionId, result: saved })));
+  }
+
+  /**
+   * Get the verdict for a session: the official run if one is marked, otherwise the latest
+   */
+  async getResults(sessionId: string): Promise<DebateResult | null> {
+    const session = await this.backend.getSession(sessionId);
+    if (session?.officialRunId) {
+      const official = await this.getResultRun(sessionId, session.officialRunId);
+      if (official) {
+        return official;
+      }
+    }
+    return await this.getLatestResult(sessionId);
+  }
+
+  /**
+   * List every analysis run for a session, oldest revision first
+   */
+  async listResultRuns(sessionId: string): Promise<DebateResult[]> {
+    const runs = await this.backend.listResults(sessionId);
+    return runs.sort((a, b) => a.revision - b.revision);
+  }
+
+  /**
+   * Get the most recent analysis run for a session
+   */
+  async getLatestResult(sessionId: string): Promise<DebateResult | null> {
+    const runs = await this.listResultRuns(sessionId);
+    return runs[runs.length - 1] || null;
+  }
+
+  /**
+   * Get a specific analysis run by run ID or revision number
+   */
+  async getResultRun(sessionId: string, runIdOrRevision: string | number): Promise<DebateResult | null> {
+    const runs = await this.listResultRuns(sessionId);
+    return runs.find(run => run.runId === runIdOrRevision || run.revision === runIdOrRevision) || null;
+  }
+
+  /**
+   * Mark an analysis run as the official verdict for its session
+   */
+  async markOfficialResult(sessionId: string, runIdOrRevision: string | number): Promise<DebateResult> {
+    const run = await this.getResultRun(sessionId, runIdOrRevision);
+    if (!run) {
+      throw new Error(`Analysis run ${runIdOrRevision} not found for session ${sessionId}`);
+    }
+
+    await this.backend.updateSession(sessionId, session => {
+      session.officialRunId = run.runId;
+    }, this.journal('session.official_result', saved => ({ sessionId, session: saved, detail: { runId: run.runId } })));
+    return run;
+  }
+
+  /**
+   * Get all debate results
+   */
+  async getAllResults(): Promise<DebateResult[]> {
+    return await this.backend.listResults();
+  }
+
+  /**
+   * Open a draft or closed session for arguments
+   */
+  async openSession(sessionId: string): Promise<DebateSession> {
+    return await this.transitionSession(sessionId, 'open');
+  }
+
+  /**
+   * Close a session to further arguments so it can be judged
+   */
+  async closeSession(sessionId: string): Promise<DebateSession> {
+    return await this.transitionSession(sessionId, 'closed');
+  }
+
+  /**
+   * Mark a closed session as judged after an analysis run
+   */
+  async markSessionJudged(sessionId: string): Promise<DebateSession> {
+    return await this.transitionSession(sessionId, 'judged');
+  }
+
+  /**
+   * Archive a session, remembering its state so it can be restored later
+   */
+  async archiveSession(sessionId: string): Promise<DebateSession> {
+    let from: SessionState | undefined;
+    return await this.backend.updateSession(sessionId, session => {
+      if (!SESSION_TRANSITIONS[session.state].includes('archived')) {
+        throw new Error(`Cannot move session ${sessionId} from ${session.state} to archived`);
+      }
+
+      from = session.state;
+      session.archivedFrom = session.state;
+      session.state = 'archived';
+      session.stateChangedAt = this.clock.now();
+    }, this.journal('session.state_changed', saved => ({
+      sessionId,
+      session: saved,
+      at: saved.stateChangedAt,
+      detail: { from, to: 'archived' },
+    })));
+  }
+
+  /**
+   * Restore an archived session to the state it was archived from
+   */
+  async unarchiveSession(sessionId: string): Promise<DebateSession> {
+    return await this.backend.updateSession(sessionId, session => {
+      if (session.state !== 'archived') {
+        throw new Error(`Session ${sessionId} is ${session.state}, not archived`);
+      }
+
+      // Sessions archived before the previous state was recorded come back closed
+      session.state = session.archivedFrom ?? 'closed';
+      session.stateChangedAt = this.clock.now();
+      delete session.archivedFrom;
+    }, this.journal('session.state_changed', saved => ({
+      sessionId,
+      session: saved,
+      at: saved.stateChangedAt,
+      detail: { from: 'archived', to: saved.state },
+    })));
+  }
+
+  /**
+   * Permanently delete a session and every analysis run recorded for it
+   */
+  async deleteSession(sessionId: string): Promise<{ sessionId: string; resultsDeleted: number }> {
+    const resultsDeleted = await this.backend.deleteSession(sessionId, this.journal('session.deleted', removed => ({
+      sessionId,
+      detail: { resultsDeleted: removed },
+    })));
+    return { sessionId, resultsDeleted };
+  }
+
+  /**
+   * Move a session to a new lifecycle state, rejecting transitions the state machine does not allow.
+   * Archiving and restoring go through archiveSession() and unarchiveSession(), which keep track of
+   * the state to restore.
+   */
+  async transitionSession(sessionId: string, to: SessionState): Promise<DebateSession> {
+    if (to === 'archived') {
+      throw new Error(`Use archiveSession() to archive session ${sessionId}`);
+    }
+
+    let from: SessionState | undefined;
+    return await this.backend.updateSession(sessionId, session => {
+      if (session.state === 'archived') {
+        throw new Error(`Cannot move session ${sessionId} from archived to ${to}; use unarchiveSession() to restore it`);
+      }
+      if (!SESSION_TRANSITIONS[session.state].includes(to)) {
+        throw new Error(`Cannot move session ${sessionId} from ${session.state} to ${to}`);
+      }
+
+      from = session.state;
+      session.state = to;
+      session.stateChangedAt = this.clock.now();
+    }, this.journal('session.state_changed', saved => ({ sessionId, session: saved, at: saved.stateChangedAt, detail: { from, to } })));
+  }
+
+  /**
+   * Read the event journal, optionally for one session or up to a point in time
+   */
+  async listEvents(query: EventQuery = {}): Promise<DebateEvent[]> {
+    return await this.backend.listEvents(query);
+  }
+
+  /**
+   * Rebuild sessions, results and participants from the journal as they were at a point in time
+   * (default: now). Only changes made since the journal was introduced can be replayed.
+   */
+  async replay(until: number = this.clock.now()): Promise<ReplayState> {
+    return replayEvents(await this.backend.listEvents({ until }), until);
+  }
+
+  /**
+   * A session as it was at a point in time, or null if it did not exist yet (or had been deleted)
+   */
+  async getSessionAt(sessionId: string, at: number): Promise<DebateSession | null> {
+    // Repairs are journaled store-wide, without a session ID, so the whole journal is replayed
+    const state = replayEvents(await this.backend.listEvents({ until: at }), at);
+    return state.sessions.find(session => session.id === sessionId) ?? null;
+  }
+
+  /**
+   * Check stored data for orphaned results, duplicate IDs, malformed records and broken invariants
+   * (argument topics matching their session, scores within 0-10, official runs that exist). With
+   * `repair`, every issue that has a safe fix is fixed in one atomic rewrite and the repair is journaled.
+   */
+  async verify(options: { repair?: boolean } = {}): Promise<IntegrityReport> {
+    const checkedAt = this.clock.now();
+    const summarize = (contents: StoreContents, issues: IntegrityIssue[]): IntegrityReport => ({
+      checkedAt,
+      counts: { sessions: contents.sessions.length, results: contents.results.length, participants: contents.participants.length },
+      issues,
+      repaired: issues.filter(issue => issue.repaired).length,
+    });
+
+    if (!options.repair) {
+      const contents: StoreContents = {
+        sessions: await this.backend.listSessions(),
+        results: await this.backend.listResults(),
+        participants: await this.backend.listParticipants(),
+      };
+      return summarize(contents, inspectContents(contents));
+    }
+
+    let report: IntegrityReport | undefined;
+    let before: StoreContents | undefined;
+    await this.backend.rewrite(contents => {
+      before = structuredClone(contents);
+      report = summarize(contents, inspectContents(contents, prefix => this.generateId(prefix)));
+    }, repaired => report!.repaired === 0 ? null : this.event('store.repaired', {
+      at: checkedAt,
+      repairs: diffRepairs(before!, repaired),
+      detail: { repaired: report!.issues.filter(issue => issue.repaired).map(({ code, recordId }) => ({ code, recordId })) },
+    }));
+    return report!;
+  }
+
+  /**
+   * Export sessions with their arguments, participants and every analysis run as a self-describing bundle
+   */
+  async exportBundle(sessionIds: string[]): Promise<DebateBundle> {
+    if (sessionIds.length === 0) {
+      throw new Error('Select at least one session to export');
+    }
+
+    const sessions: DebateSession[] = [];
+    for (const sessionId of new Set(sessionIds)) {
+      const session = await this.backend.getSession(sessionId);
+      if (!session) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+      sessions.push(session);
+    }
+
+    // Everyone who argued or edited an argument, so the audit trail resolves on the other side
+    const referenced = new Set(sessions.flatMap(session =>
+      session.arguments.flatMap(arg => [arg.participantId, ...arg.history.map(entry => entry.editedBy)])
+    ));
+    const participants = (await this.backend.listParticipants()).filter(participant => referenced.has(participant.id));
+
+    const results: DebateResult[] = [];
+    for (const session of sessions) {
+      results.push(...await this.backend.listResults(session.id));
+    }
+
+    return {
+      format: BUNDLE_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: this.clock.now(),
+      sessions,
+      participants,
+      results,
+    };
+  }
+
+  /**
+   * Merge a bundle into this store. Participants are matched by ID or display name; sessions whose
+   * ID already exists are skipped or imported under a new ID, and every reference is rewritten to match.
+   * The bundle is validated in full first and merged in one rewrite, so an import lands whole or not at all.
+   */
+  async importBundle(raw: DebateBundle | unknown, options: BundleImportOptions = {}): Promise<BundleImportReport> {
+    const bundle = parseBundle(raw);
+    const { onSessionConflict = 'skip' } = options;
+    const report: BundleImportReport = {
+      sessionsImported: [],
+      sessionsSkipped: [],
+      participantsImported: 0,
+      participantsMatched: 0,
+      resultsImported: 0,
+      renamedIds: {},
+    };
+    const idMap = new Map<string, string>();
+    const remap = (id: string) => idMap.get(id) ?? id;
+    const rename = (id: string, prefix: IdPrefix) => {
+      const renamed = this.generateId(prefix);
+      idMap.set(id, renamed);
+      report.renamedIds[id] = renamed;
+      return renamed;
+    };
+    const entries: DebateEvent[] = [];
+
+    await this.backend.rewrite(contents => {
+      // Participants: reuse a registry entry with the same ID and name, or the same name, otherwise register
+      for (const participant of bundle.participants) {
+        const name = participant.displayName.toLowerCase();
+        const sameId = contents.participants.find(existing => existing.id === participant.id);
+        const sameName = contents.participants.find(existing => existing.displayName?.toLowerCase() === name);
+
+        if (sameName) {
+          if (sameName.id !== participant.id) {
+            idMap.set(participant.id, sameName.id);
+            report.renamedIds[participant.id] = sameName.id;
+          }
+          report.participantsMatched++;
+          continue;
+        }
+
+        const imported = { ...participant, id: sameId ? rename(participant.id, 'participant') : participant.id };
+        contents.participants.push(imported);
+        entries.push(this.event('participant.registered', { participant: imported, detail: { source: 'bundle' } }));
+        report.participantsImported++;
+      }
+
+      // Sessions, with participant references rewritten
+      const importedSessions = new Set<string>();
+      for (const session of bundle.sessions) {
+        const existing = contents.sessions.some(other => other.id === session.id);
+        if (existing && onSessionConflict === 'skip') {
+          report.sessionsSkipped.push(session.id);
+          continue;
+        }
+
+        const id = existing ? rename(session.id, 'debate') : session.id;
+        const imported: DebateSession = {
+          ...session,
+          id,
+          arguments: session.arguments.map(arg => ({
+            ...arg,
+            id: existing ? rename(arg.id, 'arg') : arg.id,
+            participantId: remap(arg.participantId),
+            history: arg.history.map(entry => ({ ...entry, editedBy: remap(entry.editedBy) })),
+            ...(arg.replyTo && { replyTo: remap(arg.replyTo) }),
+          })),
+        };
+        delete imported.officialRunId;
+        if (session.sideAssignments) {
+          imported.sideAssignments = Object.fromEntries(
+            Object.entries(session.sideAssignments).map(([participantId, sideId]) => [remap(participantId), sideId])
+          );
+        }
+        if (session.rules?.speakingOrder) {
+          imported.rules = { ...session.rules, speakingOrder: session.rules.speakingOrder.map(remap) };
+        }
+
+        contents.sessions.push(imported);
+        entries.push(this.event('session.created', {
+          sessionId: id,
+          session: structuredClone(imported),
+          detail: { source: 'bundle', bundledId: session.id },
+        }));
+        importedSessions.add(session.id);
+        report.sessionsImported.push(id);
+      }
+
+      // Results of imported sessions, in revision order so revisions line up with the original
+      const runs = bundle.results
+        .filter(result => importedSessions.has(result.sessionId))
+        .sort((a, b) => a.revision - b.revision);
+      const knownRunIds = new Set(contents.results.map(result => result.runId));
+      for (const run of runs) {
+        const runId = knownRunIds.has(run.runId) ? rename(run.runId, 'run') : run.runId;
+        const sessionId = remap(run.sessionId);
+        const results: DebateResult['results'] = {};
+        for (const [participantId, entry] of Object.entries(run.results)) {
+          results[remap(participantId)] = entry;
+        }
+        const argumentScores = run.arguments && Object.fromEntries(
+          Object.entries(run.arguments).map(([argumentId, entry]) => [remap(argumentId), { ...entry, participantId: remap(entry.participantId) }])
+        );
+
+        const imported: DebateResult = {
+          ...run,
+          runId,
+          sessionId,
+          revision: contents.results
+            .filter(existingRun => existingRun.sessionId === sessionId)
+            .reduce((max, existingRun) => Math.max(max, existingRun.revision), 0) + 1,
+          results,
+          winner: run.winner ? { ...run.winner, userId: remap(run.winner.userId) } : null,
+          ...(argumentScores && { arguments: argumentScores }),
+          ...(run.sides && {
+            sides: Object.fromEntries(Object.entries(run.sides).map(([sideId, side]) => [
+              sideId,
+              { ...side, participantIds: side.participantIds.map(remap) },
+            ])),
+          }),
+          ...(run.pairwise && {
+            pairwise: {
+              ...run.pairwise,
+              comparisons: run.pairwise.comparisons.map(comparison => ({
+                ...comparison,
+                first: remap(comparison.first),
+                second: remap(comparison.second),
+                verdicts: Object.fromEntries(Object.entries(comparison.verdicts).map(([criterion, verdict]) => [criterion, verdict && remap(verdict)])),
+              })),
+              ranking: run.pairwise.ranking.map(entry => ({ ...entry, userId: remap(entry.userId) })),
+              winProbabilities: Object.fromEntries(Object.entries(run.pairwise.winProbabilities).map(([participantId, odds]) => [
+                remap(participantId),
+                Object.fromEntries(Object.entries(odds).map(([opponentId, probability]) => [remap(opponentId), probability])),
+              ])),
+            },
+          }),
+          ...(run.provenance?.speakerLabels && {
+            provenance: {
+              ...run.provenance,
+              speakerLabels: Object.fromEntries(
+                Object.entries(run.provenance.speakerLabels).map(([participantId, label]) => [remap(participantId), label])
+              ),
+            },
+          }),
+          ...(run.orderBias && {
+            orderBias: {
+              orderings: run.orderBias.orderings.map(ordering => ({ ...ordering, order: ordering.order.map(remap) })),
+              participants: Object.fromEntries(
+                Object.entries(run.orderBias.participants).map(([participantId, entry]) => [remap(participantId), entry])
+              ),
+            },
+          }),
+          ...(run.panel && {
+            panel: {
+              ...run.panel,
+              ballots: run.panel.ballots.map(ballot => ({
+                ...ballot,
+                arguments: Object.fromEntries(Object.entries(ballot.arguments).map(([argumentId, entry]) => [remap(argumentId), entry])),
+              })),
+              agreement: {
+                ...run.panel.agreement,
+                participants: Object.fromEntries(
+                  Object.entries(run.panel.agreement.participants).map(([participantId, entry]) => [remap(participantId), entry])
+                ),
+              },
+            },
+          }),
+          ...(run.rounds && {
+            rounds: Object.fromEntries(Object.entries(run.rounds).map(([roundId, round]) => [
+              roundId,
+              {
+                ...round,
+                results: Object.fromEntries(Object.entries(round.results).map(([participantId, entry]) => [remap(participantId), entry])),
+                winner: round.winner ? { ...round.winner, userId: remap(round.winner.userId) } : null,
+              },
+            ])),
+          }),
+        };
+
+        contents.results.push(imported);
+        entries.push(this.event('result.recorded', { sessionId, result: imported, detail: { source: 'bundle' } }));
+        knownRunIds.add(runId);
+        report.resultsImported++;
+      }
+
+      // Restore each session's official verdict under its (possibly renamed) run ID
+      for (const session of bundle.sessions) {
+        if (importedSessions.has(session.id) && session.officialRunId) {
+          const imported = contents.sessions.find(other => other.id === remap(session.id))!;
+          imported.officialRunId = remap(session.officialRunId);
+          entries.push(this.event('session.official_result', {
+            sessionId: imported.id,
+            session: structuredClone(imported),
+            detail: { runId: imported.officialRunId, source: 'bundle' },
+          }));
+        }
+      }
+    }, () => entries);
+
+    return report;
+  }
+
+  /**
+   * Rewrite all stored data under a new encryption key, or decrypt it when the config has no key.
+   * Returns the files that were rewritten.
+   */
+  async reencrypt(encryption: EncryptionConfig): Promise<string[]> {
+    if (!this.root.reencrypt) {
+      throw new Error(`The ${this.root.kind} backend does not support encryption at rest`);
+    }
+    const files = await this.root.reencrypt(encryption);
+
+    // The active workspace's backend still holds the old key
+    if (this.backend !== this.root) {
+      await this.backend.close();
+      this.backend = this.root.forWorkspace(this.workspace.id);
+      await this.prepareBackend(this.backend);
+    }
+    return files;
+  }
+
+  /**
+   * Release resources held by the storage backend
+   */
+  async close(): Promise<void> {
+    if (this.backend !== this.root) {
+      await this.backend.close();
+    }
+    await this.root.close();
+  }
+
+  /**
+   * Initialize a backend and migrate its data to the current schema
+   */
+  private async prepareBackend(backend: StorageBackend): Promise<void> {
+    await backend.initialize();
+
+    const report = await backend.migrate();
+    if (report.applied.length > 0) {
+      logger.info(`Migrated debate data from schema v${report.fromVersion} to v${report.toVersion}`);
+      report.backups.forEach(backup => logger.info(`Backup of previous data kept at ${backup}`));
+    }
+  }
+
+  /**
+   * Reject rules with impossible limits or a speaking order naming unregistered participants
+   */
+  private async validateRules(rules: SessionRules): Promise<void> {
+    const counts: Array<[keyof SessionRules, number | undefined]> = [
+      ['minWords', rules.minWords],
+      ['maxWords', rules.maxWords],
+      ['maxArgumentsPerParticipant', rules.maxArgumentsPerParticipant],
+    ];
+    for (const [name, value] of counts) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`Rule ${name} must be a positive whole number`);
+      }
+    }
+    if (rules.minWords !== undefined && rules.maxWords !== undefined && rules.minWords > rules.maxWords) {
+      throw new Error('Rule minWords cannot be more than maxWords');
+    }
+    if (rules.opensAt !== undefined && rules.closesAt !== undefined && rules.opensAt >= rules.closesAt) {
+      throw new Error('The submission window must close after it opens');
+    }
+    if (rules.enforcement !== undefined && rules.enforcement !== 'hard' && rules.enforcement !== 'soft') {
+      throw new Error('Rule enforcement must be "hard" or "soft"');
+    }
+    if (rules.penaltyPerViolation !== undefined && !(rules.penaltyPerViolation >= 0 && rules.penaltyPerViolation <= 10)) {
+      throw new Error('Rule penaltyPerViolation must be between 0 and 10');
+    }
+
+    if (rules.speakingOrder) {
+      if (rules.speakingOrder.length === 0) {
+        throw new Error('The speaking order needs at least one participant');
+      }
+      if (new Set(rules.speakingOrder).size !== rules.speakingOrder.length) {
+        throw new Error('Each participant can appear in the speaking order only once');
+      }
+      for (const participantId of rules.speakingOrder) {
+        if (!(await this.backend.getParticipant(participantId))) {
+          throw new Error(`Participant ${participantId} in the speaking order is not registered`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Describe a change for the journal. `at` defaults to now; pass the timestamp stored on the record
+   * so replaying up to that timestamp includes the change.
+   */
+  private event(type: DebateEventType, fields: EventFields): DebateEvent {
+    const { at = this.clock.now(), ...rest } = fields;
+    return { id: this.generateId('event'), type, at, ...rest };
+  }
+
+  /**
+   * Event builder handed to the backend, which journals the change together with saving it
+   */
+  private journal<T>(type: DebateEventType, fields: (saved: T) => EventFields): EventBuilder<T> {
+    return saved => this.event(type, fields(saved));
+  }
+
+  /**
+   * Generate a unique, prefixed ID
+   */
+  private generateId(prefix: IdPrefix = 'debate'): string {
+    return this.idGenerator(prefix);
+  }
+}
+
+/**
+ * Turn side names into sides with slug IDs, rejecting fewer than two sides or duplicate names
+ */
+function buildSides(names: string[]): DebateSide[] {
+  const sides = names.map(name => ({
+    id: name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+    name: name.trim(),
+  }));
+
+  if (sides.length < 2) {
+    throw new Error('A debate needs at least two sides');
+  }
+  if (sides.some(side => !side.id)) {
+    throw new Error('Side names must contain at least one letter or digit');
+  }
+  if (new Set(sides.map(side => side.id)).size !== sides.length) {
+    throw new Error('Side names must be unique');
+  }
+  return sides;
+}
+
+/**
+ * Check that a participant may rebut an argument: it must exist in the session, still count, and
+ * come from someone else (on another side, when the session has sides)
+ */
+function validateReply(session: DebateSession, participantId: string, replyTo: string): void {
+  const target = session.arguments.find(arg => arg.id === replyTo);
+  if (!target) {
+    throw new Error(`Argument ${replyTo} does not exist in session ${session.id}`);
+  }
+  if (target.withdrawn) {
+    throw new Error(`Argument ${replyTo} has been withdrawn and cannot be replied to`);
+  }
+  if (target.participantId === participantId) {
+    throw new Error('Participants cannot rebut their own arguments');
+  }
+
+  const side = sideOf(session, participantId);
+  if (side && sideOf(session, target.participantId)?.id === side.id) {
+    throw new Error(`Argument ${replyTo} is from the same side (${side.name}); rebut an opposing argument`);
+  }
+}
+
+/**
+ * Reject rubric IDs that could not name a rubric file's ID
+ */
+function validateRubricId(rubricId: string): void {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(rubricId)) {
+    throw new Error(`Invalid rubric ID "${rubricId}"; rubric IDs are lowercase letters, digits and dashes`);
+  }
+}
+
+/**
+ * Every rule a new argument would break, each carrying the session's penalty
+ */
+function checkRules(session: DebateSession, rules: SessionRules, participantId: string, text: string, now: number): RuleViolation[] {
+  const violations = wordLimitViolations(rules, text);
+  const violation = (rule: RuleCode, message: string) => violations.push({ rule, message, penalty: rules.penaltyPerViolation ?? 1 });
+
+  const own = activeArguments(session).filter(arg => arg.participantId === participantId).length;
+  if (rules.maxArgumentsPerParticipant !== undefined && own >= rules.maxArgumentsPerParticipant) {
+    violation('max_arguments', `participant already has ${own} of at most ${rules.maxArgumentsPerParticipant} arguments`);
+  }
+
+  if (rules.opensAt !== undefined && now < rules.opensAt) {
+    violation('before_window', `submissions open at ${new Date(rules.opensAt).toISOString()}`);
+  }
+  if (rules.closesAt !== undefined && now > rules.closesAt) {
+    violation('after_window', `submissions closed at ${new Date(rules.closesAt).toISOString()}`);
+  }
+
+  if (rules.speakingOrder?.length) {
+    // Turns are counted over every argument from the order's speakers, withdrawn ones included
+    const turns = session.arguments.filter(arg =>
+      rules.speakingOrder!.includes(arg.participantId) && (!session.currentRoundId || arg.roundId === session.currentRoundId)
+    ).length;
+    const expected = rules.speakingOrder[turns % rules.speakingOrder.length];
+    if (expected !== participantId) {
+      violation('out_of_turn', rules.speakingOrder.includes(participantId)
+        ? `it is ${expected}'s turn to speak`
+        : `participant is not in the speaking order`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Word-limit rules the text breaks. Words are runs of non-space characters.
+ */
+function wordLimitViolations(rules: SessionRules, text: string): RuleViolation[] {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  const penalty = rules.penaltyPerViolation ?? 1;
+
+  if (rules.minWords !== undefined && words < rules.minWords) {
+    return [{ rule: 'min_words', message: `argument has ${words} words, below the minimum of ${rules.minWords}`, penalty }];
+  }
+  if (rules.maxWords !== undefined && words > rules.maxWords) {
+    return [{ rule: 'max_words', message: `argument has ${words} words, above the maximum of ${rules.maxWords}`, penalty }];
+  }
+  return [];
+}
+
+/**
+ * Give rounds slug IDs from their names, rejecting unknown kinds and duplicate names
+ */
+function buildRounds(specs: RoundSpec[]): DebateRound[] {
+  const kinds: RoundKind[] = ['opening', 'rebuttal', 'closing', 'other'];
+  const rounds = specs.map(spec => ({
+    id: spec.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+    name: spec.name.trim(),
+    kind: spec.kind,
+  }));
+
+  if (rounds.some(round => !round.id)) {
+    throw new Error('Round names must contain at least one letter or digit');
+  }
+  if (rounds.some(round => !kinds.includes(round.kind))) {
+    throw new Error(`Round kind must be one of ${kinds.join(', ')}`);
+  }
+  if (new Set(rounds.map(round => round.id)).size !== rounds.length) {
+    throw new Error('Round names must be unique');
+  }
+  return rounds;
+}
+
+/**
+ * The default workspace as it is before any of its settings are changed
+ */
+function defaultWorkspace(): Workspace {
+  return { id: DEFAULT_WORKSPACE_ID, name: 'Default', createdAt: 0, settings: {} };
+}
+
+/**
+ * Sessions and results a repair changed or added, and the runs it removed, so replay can apply the repair
+ */
+function diffRepairs(before: StoreContents, after: StoreContents): NonNullable<DebateEvent['repairs']> {
+  const sessionsBefore = new Set(before.sessions.map(session => JSON.stringify(session)));
+  const resultsBefore = new Set(before.results.map(result => JSON.stringify(result)));
+  const runsAfter = new Set(after.results.map(result => result.runId));
+  return {
+    sessions: after.sessions.filter(session => !sessionsBefore.has(JSON.stringify(session))),
+    results: after.results.filter(result => !resultsBefore.has(JSON.stringify(result))),
+    removedRuns: [...new Set(before.results.map(result => result.runId))].filter(runId => typeof runId === 'string' && !runsAfter.has(runId)),
+  };
+}
+
+/**
+ * Read the storage configuration from environment variables
+ */
+export function loadStoreConfig(env: Record<string, string | undefined> = process.env): DebateStoreConfig {
+  return resolveStoreConfig({}, env);
+}
+
+/**
+ * Fill in the settings a caller left unset from environment variables. Only those are read, so a
+ * stray or invalid DEBATE_* variable cannot break an explicitly configured store, and encryption
+ * variables are ignored when the caller picked another backend than json.
+ */
+function resolveStoreConfig(config: Partial<DebateStoreConfig>, env: Record<string, string | undefined>): DebateStoreConfig {
+  const backend = config.backend ?? (env.DEBATE_STORE_BACKEND || 'json').toLowerCase();
+
+  if (backend !== 'json' && backend !== 'memory' && backend !== 'sql') {
+    throw new Error(`Unknown DEBATE_STORE_BACKEND "${backend}" (expected json, memory or sql)`);
+  }
+
+  const fromEnv = env.DEBATE_ENCRYPTION_PASSPHRASE || env.DEBATE_ENCRYPTION_KEY_FILE
+    ? { passphrase: env.DEBATE_ENCRYPTION_PASSPHRASE || undefined, keyFile: env.DEBATE_ENCRYPTION_KEY_FILE || undefined }
+    : undefined;
+
+  return {
+    backend,
+    dataDir: config.dataDir ?? (env.DATA_DIR || './data'),
+    postgresUrl: 'postgresUrl' in config ? config.postgresUrl : env.POSTGRES_URL || undefined,
+    encryption: 'encryption' in config ? config.encryption : config.backend && config.backend !== 'json' ? undefined : fromEnv,
+  };
+}
+
+/**
+ * Create a debate store for the given configuration; settings left unset come from the environment
+ */
+export function createDebateStore(
+  config: Partial<DebateStoreConfig> = {},
+  dependencies: DebateStoreDependencies = {}
+): DebateStore {
+  const resolved = resolveStoreConfig(config, process.env);
+  if (resolved.encryption && resolved.backend !== 'json') {
+    throw new Error(`Encryption at rest is only supported by the json backend, not ${resolved.backend}`);
+  }
+
+  switch (resolved.backend) {
+    case 'memory':
+      return new DebateStore(new MemoryBackend(), dependencies);
+    case 'sql':
+      return new DebateStore(new SqlBackend({ dataDir: resolved.dataDir, postgresUrl: resolved.postgresUrl }), dependencies);
+    case 'json':
+    default:
+      return new DebateStore(new JsonFileBackend(resolved.dataDir, { encryption: resolved.encryption, clock: dependencies.clock }), dependencies);
   }
 }
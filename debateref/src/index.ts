@@ -2,9 +2,27 @@
 
 import { type IAgentRuntime, logger } from '@elizaos/core';
 import { createInterface } from 'readline';
-import { DebateStore, type DebateSession, type DebateResult } from './debateStore.js';
-import { DebateAnalyzer } from './debateAnalyzer.js';
+import {
+  activeArguments,
+  createDebateStore,
+  loadStoreConfig,
+  PRO_CON_SIDES,
+  SESSION_TRANSITIONS,
+  STANDARD_ROUNDS,
+  sideOf,
+  type Argument,
+  type DebateStore,
+  type DebateSession,
+  type DebateResult,
+  type Participant,
+  type SessionPage,
+  type SessionQuery,
+  type SessionRules,
+} from './debateStore.js';
+import { DebateAnalyzer, loadAnalyzerOptions, type DebateAnalyzerOptions } from './debateAnalyzer.js';
 import { ResultPrinter } from './resultPrinter.js';
+import { readBundleFile, writeBundleFile } from './storage/bundle.js';
+import { DEFAULT_RUBRIC, loadRubrics, type Rubric } from './rubric.js';
 
 /**
  * Main CLI application for Debate Referee AI
@@ -15,9 +33,11 @@ class DebateRefereeCLI {
   private printer: ResultPrinter;
   private runtime: IAgentRuntime | null = null;
   private rl: any;
+  private readonly pageSize = 10;
+  private rubrics: Rubric[] = [DEFAULT_RUBRIC];
 
   constructor() {
-    this.store = new DebateStore();
+    this.store = createDebateStore();
     this.printer = new ResultPrinter();
   }
 
@@ -28,9 +48,15 @@ class DebateRefereeCLI {
     try {
       // Initialize the debate store
       await this.store.initialize();
+
+      // Load scoring rubrics; without a rubrics directory only the default rubric is available
+      this.rubrics = await loadRubrics(process.env.DEBATE_RUBRICS_DIR || './rubrics');
+
+      // Check analyzer settings up front so a bad value is reported once, not as a runtime failure
+      const analyzerOptions = { ...loadAnalyzerOptions(), rubrics: this.rubrics };
       
       // Initialize elizaOS runtime
-      await this.initializeRuntime();
+      await this.initializeRuntime(analyzerOptions);
       
       // Initialize readline interface
       this.rl = createInterface({
@@ -48,7 +74,7 @@ class DebateRefereeCLI {
   /**
    * Initialize elizaOS runtime
    */
-  private async initializeRuntime(): Promise<void> {
+  private async initializeRuntime(analyzerOptions: DebateAnalyzerOptions): Promise<void> {
     try {
       // Import elizaOS components
       const { createAgentRuntime } = await import('@elizaos/core');
@@ -64,7 +90,7 @@ class DebateRefereeCLI {
       });
 
       // Initialize the analyzer with runtime
-      this.analyzer = new DebateAnalyzer(this.runtime);
+      this.analyzer = new DebateAnalyzer(this.runtime, analyzerOptions);
       
       logger.info('elizaOS runtime initialized successfully');
     } catch (error) {
@@ -78,7 +104,7 @@ class DebateRefereeCLI {
         },
       } as any;
       
-      this.analyzer = new DebateAnalyzer(this.runtime);
+      this.analyzer = new DebateAnalyzer(this.runtime, analyzerOptions);
     }
   }
 
@@ -86,11 +112,11 @@ class DebateRefereeCLI {
    * Start the main application loop
    */
   async start(): Promise<void> {
-    this.printer.printHelp();
+    this.printer.printHelp(this.rubrics);
     
     while (true) {
       try {
-        const choice = await this.promptUser('\nEnter your choice (1-7): ');
+        const choice = await this.promptUser(`\n[${this.store.activeWorkspace.name}] Enter your choice (1-14): `);
         
         switch (choice.trim()) {
           case '1':
@@ -109,13 +135,34 @@ class DebateRefereeCLI {
             await this.viewResults();
             break;
           case '6':
-            this.printer.printHelp();
+            await this.changeSessionState();
             break;
           case '7':
+            await this.reviseArgument();
+            break;
+          case '8':
+            await this.manageArchive();
+            break;
+          case '9':
+            await this.transferSessions();
+            break;
+          case '10':
+            await this.checkIntegrity();
+            break;
+          case '11':
+            await this.manageEncryption();
+            break;
+          case '12':
+            await this.switchWorkspace();
+            break;
+          case '13':
+            this.printer.printHelp(this.rubrics);
+            break;
+          case '14':
             this.printer.printMessage('Thank you for using Debate Referee AI!');
             process.exit(0);
           default:
-            this.printer.printError('Invalid choice. Please enter 1-7.');
+            this.printer.printError('Invalid choice. Please enter 1-14.');
         }
       } catch (error) {
         this.printer.printError(`An error occurred: ${error instanceof Error ? error.message : String(error)}`);
@@ -134,29 +181,123 @@ class DebateRefereeCLI {
       return;
     }
 
+    const sidesInput = (await this.promptUser(
+      'Sides: Enter for none, "p" for Proposition/Opposition, or comma-separated side names: '
+    )).trim();
+    const sides = sidesInput.toLowerCase() === 'p'
+      ? PRO_CON_SIDES
+      : sidesInput.split(',').map(name => name.trim()).filter(Boolean);
+
+    const roundsInput = (await this.promptUser('Rounds: Enter for none, "s" for Opening/Rebuttal/Closing: ')).trim().toLowerCase();
+    const rounds = roundsInput === 's' ? STANDARD_ROUNDS : [];
+
+    const withRules = await this.promptUser('Set submission rules (word limits, deadlines, speaking order)? (y/N): ');
+    const rules = withRules.trim().toLowerCase() === 'y' ? await this.promptRules() : undefined;
+
+    // Offer a choice of rubric when rubric files were loaded
+    let rubricId: string | undefined;
+    if (this.rubrics.length > 1) {
+      console.log('\nScoring rubrics:');
+      this.rubrics.forEach((rubric, index) => console.log(`${index + 1}. ${rubric.name} (${rubric.id} v${rubric.version})`));
+      const rubricChoice = (await this.promptUser(`Rubric number (Enter for ${DEFAULT_RUBRIC.id}): `)).trim();
+      if (rubricChoice) {
+        const rubric = this.rubrics[parseInt(rubricChoice, 10) - 1];
+        if (!rubric) {
+          this.printer.printError('Invalid rubric selection.');
+          return;
+        }
+        rubricId = rubric.id;
+      }
+    }
+
+    const openNow = await this.promptUser('Open for arguments now? (Y/n): ');
+
     try {
-      const session = await this.store.createSession(topic.trim());
+      const session = await this.store.createSession(topic.trim(), { draft: openNow.trim().toLowerCase() === 'n', sides, rounds, rules, rubricId });
       this.printer.printSuccess(`Debate session created successfully!`);
       this.printer.printMessage(`Session ID: ${session.id}`);
       this.printer.printMessage(`Topic: ${session.topic}`);
+      if (session.sides) {
+        this.printer.printMessage(`Sides: ${session.sides.map(side => side.name).join(' vs ')}`);
+      }
+      if (session.rounds) {
+        this.printer.printMessage(`Rounds: ${session.rounds.map(round => round.name).join(' → ')}`);
+      }
+      if (session.rules) {
+        const names = new Map((await this.store.listParticipants()).map(participant => [participant.id, participant.displayName]));
+        this.printer.printMessage(`Rules: ${this.printer.formatRules(session.rules, names)}`);
+      }
+      if (session.rubricId) {
+        this.printer.printMessage(`Rubric: ${session.rubricId}`);
+      }
+      this.printer.printMessage(`Status: ${this.printer.formatSessionState(session.state)}`);
     } catch (error) {
       this.printer.printError(`Failed to create session: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Ask for each submission rule; Enter skips a rule. Speaking order is given as registered participant names.
+   */
+  private async promptRules(): Promise<SessionRules> {
+    const rules: SessionRules = {};
+    const count = async (question: string) => {
+      const value = parseInt(await this.promptUser(question), 10);
+      return isNaN(value) ? undefined : value;
+    };
+
+    rules.minWords = await count('Minimum words per argument (Enter for none): ');
+    rules.maxWords = await count('Maximum words per argument (Enter for none): ');
+    rules.maxArgumentsPerParticipant = await count('Maximum arguments per participant (Enter for none): ');
+    const minutes = await count('Minutes until submissions close (Enter for no deadline): ');
+    if (minutes !== undefined) {
+      rules.closesAt = Date.now() + minutes * 60_000;
+    }
+
+    const order = (await this.promptUser('Speaking order, comma-separated participant names (Enter for any order): ')).trim();
+    if (order) {
+      const participants = await this.store.listParticipants();
+      rules.speakingOrder = order.split(',').map(name => {
+        const match = participants.find(participant => participant.displayName.toLowerCase() === name.trim().toLowerCase());
+        return match ? match.id : name.trim();
+      });
+    }
+
+    const soft = await this.promptUser('Accept rule-breaking arguments with a penalty instead of rejecting them? (y/N): ');
+    if (soft.trim().toLowerCase() === 'y') {
+      rules.enforcement = 'soft';
+      rules.penaltyPerViolation = await count('Points deducted per violation (Enter for 1): ');
+    }
+
+    return Object.fromEntries(Object.entries(rules).filter(([, value]) => value !== undefined)) as SessionRules;
+  }
+
   /**
    * View existing debate sessions
    */
   private async viewSessions(): Promise<void> {
     try {
-      const sessions = await this.store.getAllSessions();
-      this.printer.printSessionsList(sessions);
-      
-      if (sessions.length > 0) {
-        const viewDetails = await this.promptUser('\nView details for a session? (y/n): ');
-        if (viewDetails.toLowerCase() === 'y') {
+      let query = this.defaultSessionQuery();
+
+      while (true) {
+        const page = await this.store.querySessions(query);
+        this.printer.printSessionsList(page, query.topic);
+
+        if (page.total === 0 && !query.topic) {
+          return;
+        }
+
+        const input = await this.promptUser('\n"n"/"p" to page, "/text" to search, "a" to show/hide archived, "d" to view details, Enter to return: ');
+        const nextQuery = this.applyPagingCommand(input, query, page);
+        if (nextQuery) {
+          query = nextQuery;
+          continue;
+        }
+
+        if (input.trim().toLowerCase() === 'd') {
           await this.viewSessionDetails();
         }
+        return;
       }
     } catch (error) {
       this.printer.printError(`Failed to load sessions: ${error instanceof Error ? error.message : String(error)}`);
@@ -164,67 +305,135 @@ class DebateRefereeCLI {
   }
 
   /**
-   * Display available sessions for user selection
+   * Default query for the session pickers: newest first, one page at a time, archived sessions hidden
    */
-  private async displayAvailableSessions(): Promise<DebateSession[]> {
-    const sessions = await this.store.getAllSessions();
-    
-    if (sessions.length === 0) {
-      this.printer.printWarning('No debate sessions found. Create a new session first.');
-      return [];
+  private defaultSessionQuery(): SessionQuery {
+    return { sortBy: 'createdAt', sortOrder: 'desc', offset: 0, limit: this.pageSize, includeArchived: false };
+  }
+
+  /**
+   * Interpret paging ("n", "p"), search ("/text") and archive toggle ("a") input; returns null for anything else
+   */
+  private applyPagingCommand(input: string, query: SessionQuery, page: SessionPage): SessionQuery | null {
+    const command = input.trim();
+    const offset = query.offset ?? 0;
+
+    if (command.toLowerCase() === 'n') {
+      if (offset + this.pageSize >= page.total) {
+        this.printer.printWarning('Already on the last page.');
+        return query;
+      }
+      return { ...query, offset: offset + this.pageSize };
+    }
+
+    if (command.toLowerCase() === 'p') {
+      if (offset === 0) {
+        this.printer.printWarning('Already on the first page.');
+        return query;
+      }
+      return { ...query, offset: Math.max(0, offset - this.pageSize) };
     }
 
+    if (command.startsWith('/')) {
+      return { ...query, topic: command.slice(1).trim() || undefined, offset: 0 };
+    }
+
+    if (command.toLowerCase() === 'a') {
+      const includeArchived = query.includeArchived === false;
+      this.printer.printMessage(includeArchived ? 'Showing archived sessions.' : 'Hiding archived sessions.');
+      return { ...query, includeArchived, offset: 0 };
+    }
+
+    return null;
+  }
+
+  /**
+   * Display one page of available sessions for user selection
+   */
+  private displayAvailableSessions(page: SessionPage, search?: string): void {
     console.log('\n📋 Available Debate Sessions:');
+    console.log(`${this.printer.formatPageSummary(page, search)}`);
     console.log('─'.repeat(60));
+
+    if (page.sessions.length === 0) {
+      console.log(search ? `No sessions match "${search}".` : 'No sessions on this page.');
+      console.log();
+      return;
+    }
     
-    sessions.forEach((session, index) => {
-      const status = session.processedAt ? '✅ Processed' : '⏳ Pending';
+    page.sessions.forEach((session, index) => {
+      const status = this.printer.formatSessionState(session.state);
       const argumentCount = session.arguments.length;
       
-      console.log(`${index + 1}. ${session.topic}`);
+      console.log(`${page.offset + index + 1}. ${session.topic}`);
       console.log(`   ID: ${session.id}`);
       console.log(`   Arguments: ${argumentCount} | Status: ${status}`);
       console.log(`   Created: ${new Date(session.createdAt).toLocaleString()}`);
       console.log();
     });
-    
-    return sessions;
   }
 
   /**
-   * Get session by user selection (number or ID)
+   * Get session by user selection (number or ID). Archived sessions are hidden unless the
+   * initial query includes them or the user toggles them on with "a".
    */
-  private async getSessionByUserInput(): Promise<DebateSession | null> {
-    const sessions = await this.displayAvailableSessions();
+  private async getSessionByUserInput(initialQuery: Partial<SessionQuery> = {}): Promise<DebateSession | null> {
+    let query = { ...this.defaultSessionQuery(), ...initialQuery };
+    let page = await this.store.querySessions(query);
     
-    if (sessions.length === 0) {
+    if (page.total === 0 && query.state === 'archived') {
+      this.printer.printWarning('No archived sessions found.');
+      return null;
+    }
+    if (page.total === 0 && (await this.store.querySessions({ limit: 0 })).total === 0) {
+      this.printer.printWarning('No debate sessions found. Create a new session first.');
       return null;
     }
 
+    this.displayAvailableSessions(page, query.topic);
+
     while (true) {
-      const input = await this.promptUser(`\nEnter session number (1-${sessions.length}) or session ID: `);
+      const first = page.offset + 1;
+      const last = page.offset + page.sessions.length;
+      const input = await this.promptUser(
+        `\nEnter session number (${first}-${last}) or session ID, "n"/"p" to page, "/text" to search, "a" to show/hide archived, "q" to cancel: `
+      );
       
       if (!input.trim()) {
         this.printer.printError('Please enter a valid session number or ID.');
         continue;
       }
 
-      // Check if input is a number (session index)
+      if (input.trim().toLowerCase() === 'q') {
+        this.printer.printMessage('Operation cancelled.');
+        return null;
+      }
+
+      const nextQuery = this.applyPagingCommand(input, query, page);
+      if (nextQuery) {
+        query = nextQuery;
+        page = await this.store.querySessions(query);
+        this.displayAvailableSessions(page, query.topic);
+        continue;
+      }
+
+      // Check if input is a number (position in the listing)
       const sessionNumber = parseInt(input.trim());
-      if (!isNaN(sessionNumber) && sessionNumber >= 1 && sessionNumber <= sessions.length) {
-        return sessions[sessionNumber - 1];
+      if (!isNaN(sessionNumber) && sessionNumber >= first && sessionNumber <= last) {
+        return page.sessions[sessionNumber - first];
       }
 
       // Check if input is a session ID
-      const session = sessions.find(s => s.id === input.trim());
+      const session = await this.store.getSession(input.trim());
       if (session) {
         return session;
       }
 
-      this.printer.printError(`Invalid session. Please enter a number between 1-${sessions.length} or a valid session ID.`);
+      this.printer.printError(`Invalid session. Please enter a number between ${first}-${last} or a valid session ID.`);
     }
   }
 
+
   /**
    * View details of a specific session
    */
@@ -235,7 +444,12 @@ class DebateRefereeCLI {
         return;
       }
       
-      this.printer.printSessionDetails(session);
+      const showHistory = await this.promptUser('Show edit history? (y/N): ');
+      this.printer.printSessionDetails(
+        session,
+        await this.store.getSessionParticipants(session.id),
+        showHistory.trim().toLowerCase() === 'y'
+      );
     } catch (error) {
       this.printer.printError(`Failed to load session: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -252,6 +466,11 @@ class DebateRefereeCLI {
         return;
       }
 
+      if (session.state !== 'open') {
+        this.printer.printError(`Session is ${session.state}; arguments can only be added while it is open.`);
+        return;
+      }
+
       // Show session info for confirmation
       console.log(`\n📝 Adding argument to: "${session.topic}"`);
       console.log(`Session ID: ${session.id}`);
@@ -263,17 +482,41 @@ class DebateRefereeCLI {
         return;
       }
 
-      // Get user details
-      const userId = await this.promptUser('Enter your user ID: ');
-      if (!userId.trim()) {
-        this.printer.printError('User ID is required.');
+      // Pick or register the participant
+      const participant = await this.getParticipantByUserInput();
+      if (!participant) {
         return;
       }
 
-      const userName = await this.promptUser('Enter your name: ');
-      if (!userName.trim()) {
-        this.printer.printError('Name is required.');
-        return;
+      // Sessions with sides need to know which side the participant argues for
+      let side = sideOf(session, participant.id);
+      if (session.sides?.length && !side) {
+        console.log(`\nWhich side does ${participant.displayName} argue for?`);
+        session.sides.forEach((option, index) => console.log(`${index + 1}. ${option.name}`));
+        const choice = session.sides[parseInt(await this.promptUser('Side number: '), 10) - 1];
+        if (!choice) {
+          this.printer.printError('Invalid side selection.');
+          return;
+        }
+        await this.store.assignSide(session.id, participant.id, choice.id);
+        side = choice;
+      } else if (side) {
+        console.log(`${participant.displayName} argues for ${side.name}.`);
+      }
+
+      // Optionally rebut a specific argument from someone else (on another side, if there are sides)
+      let replyTo: Argument | null = null;
+      const rebuttable = activeArguments(session).filter(arg =>
+        arg.participantId !== participant.id && (!side || sideOf(session, arg.participantId)?.id !== side.id)
+      );
+      if (rebuttable.length > 0) {
+        const rebut = await this.promptUser('Is this a rebuttal of a specific argument? (y/N): ');
+        if (rebut.trim().toLowerCase() === 'y') {
+          replyTo = await this.getArgumentByUserInput(session, rebuttable);
+          if (!replyTo) {
+            return;
+          }
+        }
       }
 
       const argumentText = await this.promptUser('Enter your argument: ');
@@ -285,13 +528,17 @@ class DebateRefereeCLI {
       // Add the argument
       const argument = await this.store.addArgument(
         session.id,
-        userId.trim(),
-        userName.trim(),
-        argumentText.trim()
+        participant.id,
+        argumentText.trim(),
+        replyTo ? { replyTo: replyTo.id } : {}
       );
       
       this.printer.printSuccess('Argument added successfully!');
+      (argument.penalties ?? []).forEach(violation => {
+        this.printer.printWarning(`Penalty -${violation.penalty}: ${violation.message}`);
+      });
       this.printer.printMessage(`Argument ID: ${argument.id}`);
+      this.printer.printMessage(`Participant: ${participant.displayName}`);
       this.printer.printMessage(`Session: ${session.topic}`);
       
     } catch (error) {
@@ -299,6 +546,165 @@ class DebateRefereeCLI {
     }
   }
 
+  /**
+   * Edit or withdraw an argument; the previous text stays in the argument's history
+   */
+  private async reviseArgument(): Promise<void> {
+    try {
+      const session = await this.getSessionByUserInput();
+      if (!session) {
+        return;
+      }
+
+      if (session.state !== 'open' && session.state !== 'closed') {
+        this.printer.printError(`Session is ${session.state}; its arguments can no longer be changed.`);
+        return;
+      }
+
+      const argument = await this.getArgumentByUserInput(session);
+      if (!argument) {
+        return;
+      }
+
+      // Changes are recorded against whoever made them, usually the argument's author
+      console.log('\nWho is making this change?');
+      const editor = await this.getParticipantByUserInput();
+      if (!editor) {
+        return;
+      }
+
+      // Closed sessions only allow withdrawal
+      const action = session.state === 'open'
+        ? (await this.promptUser('\n"e" to edit, "w" to withdraw: ')).trim().toLowerCase()
+        : 'w';
+
+      if (action === 'e') {
+        const newText = await this.promptUser('Enter the revised argument: ');
+        if (!newText.trim()) {
+          this.printer.printError('Argument text is required.');
+          return;
+        }
+        const updated = await this.store.editArgument(session.id, argument.id, newText.trim(), editor.id);
+        this.printer.printSuccess(`Argument updated to revision ${updated.revision}.`);
+      } else if (action === 'w') {
+        const confirm = await this.promptUser('Withdraw this argument? It will not be judged. (y/n): ');
+        if (confirm.toLowerCase() !== 'y') {
+          this.printer.printMessage('Operation cancelled.');
+          return;
+        }
+        const reason = await this.promptUser('Reason (optional): ');
+        await this.store.withdrawArgument(session.id, argument.id, editor.id, reason);
+        this.printer.printSuccess('Argument withdrawn.');
+      } else {
+        this.printer.printMessage('Operation cancelled.');
+      }
+    } catch (error) {
+      this.printer.printError(`Failed to change argument: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Pick one of a session's arguments that has not been withdrawn
+   */
+  private async getArgumentByUserInput(
+    session: DebateSession,
+    args: Argument[] = activeArguments(session),
+    emptyMessage: string = 'This session has no arguments that can be changed.'
+  ): Promise<Argument | null> {
+    if (args.length === 0) {
+      this.printer.printWarning(emptyMessage);
+      return null;
+    }
+
+    const participants = await this.store.getSessionParticipants(session.id);
+    const names = new Map(participants.map(participant => [participant.id, participant.displayName]));
+
+    console.log('\n💬 Arguments:');
+    args.forEach((arg, index) => {
+      const preview = arg.text.length > 60 ? `${arg.text.slice(0, 57)}...` : arg.text;
+      console.log(`${index + 1}. ${names.get(arg.participantId) ?? arg.participantId}: ${preview}`);
+    });
+
+    while (true) {
+      const input = (await this.promptUser(`\nEnter argument number (1-${args.length}), argument ID, or "q" to cancel: `)).trim();
+
+      if (input.toLowerCase() === 'q') {
+        this.printer.printMessage('Operation cancelled.');
+        return null;
+      }
+
+      const argumentNumber = parseInt(input);
+      if (!isNaN(argumentNumber) && argumentNumber >= 1 && argumentNumber <= args.length) {
+        return args[argumentNumber - 1];
+      }
+
+      const argument = args.find(arg => arg.id === input);
+      if (argument) {
+        return argument;
+      }
+
+      this.printer.printError(`Invalid argument. Please enter a number between 1-${args.length} or a valid argument ID.`);
+    }
+  }
+
+  /**
+   * Pick a registered participant (by number or ID) or register a new one
+   */
+  private async getParticipantByUserInput(): Promise<Participant | null> {
+    const participants = await this.store.listParticipants();
+    this.printer.printParticipantsList(participants);
+
+    while (true) {
+      const prompt = participants.length > 0
+        ? `\nEnter participant number (1-${participants.length}), participant ID, "new" to register, or "q" to cancel: `
+        : '\nNo participants registered yet. Type "new" to register one, or "q" to cancel: ';
+      const input = (await this.promptUser(prompt)).trim();
+
+      if (input.toLowerCase() === 'q') {
+        this.printer.printMessage('Operation cancelled.');
+        return null;
+      }
+
+      if (input.toLowerCase() === 'new') {
+        return await this.registerParticipant();
+      }
+
+      const participantNumber = parseInt(input);
+      if (!isNaN(participantNumber) && participantNumber >= 1 && participantNumber <= participants.length) {
+        return participants[participantNumber - 1];
+      }
+
+      const participant = participants.find(p => p.id === input);
+      if (participant) {
+        return participant;
+      }
+
+      this.printer.printError('Invalid participant. Enter a listed number, a participant ID, or "new".');
+    }
+  }
+
+  /**
+   * Register a new participant from user input
+   */
+  private async registerParticipant(): Promise<Participant | null> {
+    const displayName = await this.promptUser('Enter the participant\'s display name: ');
+    if (!displayName.trim()) {
+      this.printer.printError('Display name is required.');
+      return null;
+    }
+
+    const affiliation = await this.promptUser('Enter an affiliation (optional): ');
+
+    try {
+      const participant = await this.store.registerParticipant(displayName, { affiliation });
+      this.printer.printSuccess(`Registered ${participant.displayName} (${participant.id})`);
+      return participant;
+    } catch (error) {
+      this.printer.printError(`Failed to register participant: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
   /**
    * Analyze a debate session
    */
@@ -310,17 +716,31 @@ class DebateRefereeCLI {
         return;
       }
 
-      // Check if session has arguments
-      if (session.arguments.length === 0) {
+      // Check if session has arguments that are still in play
+      if (activeArguments(session).length === 0) {
         this.printer.printError('No arguments to analyze. Add arguments first.');
         return;
       }
 
+      // Judging requires the session to be closed to further arguments
+      if (session.state === 'open') {
+        const close = await this.promptUser('\nSession is still open for arguments. Close it now? (y/n): ');
+        if (close.toLowerCase() !== 'y') {
+          this.printer.printMessage('Analysis cancelled.');
+          return;
+        }
+        Object.assign(session, await this.store.closeSession(session.id));
+      } else if (session.state !== 'closed' && session.state !== 'judged') {
+        this.printer.printError(`Session is ${session.state} and cannot be analyzed.`);
+        return;
+      }
+
       // Show session info for confirmation
+      const participants = await this.store.getSessionParticipants(session.id);
       console.log(`\n🤖 Analyzing debate: "${session.topic}"`);
       console.log(`Session ID: ${session.id}`);
-      console.log(`Arguments to analyze: ${session.arguments.length}`);
-      console.log(`Participants: ${[...new Set(session.arguments.map(arg => arg.userName))].join(', ')}`);
+      console.log(`Arguments to analyze: ${activeArguments(session).length}`);
+      console.log(`Participants: ${participants.map(participant => participant.displayName).join(', ')}`);
       
       const confirm = await this.promptUser('\nStart analysis? (y/n): ');
       if (confirm.toLowerCase() !== 'y') {
@@ -336,22 +756,16 @@ class DebateRefereeCLI {
       this.printer.printMessage('Analyzing debate... This may take a moment.');
       
       // Analyze the debate
-      const result = await this.analyzer.analyzeDebate(session);
+      const result = await this.analyzer.analyzeDebate(session, participants);
       
-      // Fill in user names from session data
-      for (const [userId, userResult] of Object.entries(result.results)) {
-        const argument = session.arguments.find(arg => arg.userId === userId);
-        if (argument) {
-          userResult.userName = argument.userName;
-        }
+      // Save the results as a new analysis run
+      const savedResult = await this.store.saveResults(result);
+      if (session.state === 'closed') {
+        await this.store.markSessionJudged(session.id);
       }
       
-      // Save the results
-      await this.store.saveResults(result);
-      await this.store.markSessionProcessed(session.id);
-      
       // Display the results
-      this.printer.printDebateResults(result);
+      this.printer.printDebateResults(savedResult);
       
     } catch (error) {
       this.printer.printError(`Failed to analyze debate: ${error instanceof Error ? error.message : String(error)}`);
@@ -370,16 +784,32 @@ class DebateRefereeCLI {
       }
 
       // Check if results exist
-      const result = await this.store.getResults(session.id);
-      if (!result) {
+      const runs = await this.store.listResultRuns(session.id);
+      if (runs.length === 0) {
         this.printer.printError('No results found for this session. Run analysis first.');
         return;
       }
+
+      const result = await this.getResultRunByUserInput(session, runs);
+      if (!result) {
+        return;
+      }
       
       // Show session info for confirmation
       console.log(`\n📊 Viewing results for: "${session.topic}"`);
       console.log(`Session ID: ${session.id}`);
+      console.log(`Run: #${result.revision} (${result.runId})`);
       console.log(`Analysis completed: ${new Date(result.processedAt).toLocaleString()}`);
+
+      let officialRunId = session.officialRunId;
+      if (runs.length > 1 && officialRunId !== result.runId) {
+        const markOfficial = await this.promptUser(`\nMark run #${result.revision} as the official verdict? (y/n): `);
+        if (markOfficial.toLowerCase() === 'y') {
+          await this.store.markOfficialResult(session.id, result.runId);
+          officialRunId = result.runId;
+          this.printer.printSuccess(`Run #${result.revision} is now the official verdict.`);
+        }
+      }
       
       const confirm = await this.promptUser('\nDisplay results? (y/n): ');
       if (confirm.toLowerCase() !== 'y') {
@@ -387,12 +817,372 @@ class DebateRefereeCLI {
         return;
       }
       
-      this.printer.printDebateResults(result);
+      this.printer.printDebateResults(result, officialRunId === result.runId);
     } catch (error) {
       this.printer.printError(`Failed to load results: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Open or close a session
+   */
+  private async changeSessionState(): Promise<void> {
+    try {
+      const session = await this.getSessionByUserInput();
+      if (!session) {
+        return;
+      }
+
+      // Judged is only reached by running an analysis, and archiving has its own menu option
+      const targets = SESSION_TRANSITIONS[session.state].filter(state => state !== 'judged' && state !== 'archived');
+      if (targets.length === 0) {
+        this.printer.printWarning(`Session is ${session.state}; use "Archive, restore or delete a session" to change it.`);
+        return;
+      }
+
+      // Open sessions with rounds can also move on to their next round
+      const roundIndex = session.rounds?.findIndex(round => round.id === session.currentRoundId) ?? -1;
+      const nextRound = session.state === 'open' ? session.rounds?.[roundIndex + 1] : undefined;
+
+      console.log(`\nCurrent status: ${this.printer.formatSessionState(session.state)}`);
+      if (session.rounds && roundIndex >= 0) {
+        console.log(`Current round: ${session.rounds[roundIndex].name}`);
+      }
+      targets.forEach((state, index) => {
+        console.log(`${index + 1}. ${this.printer.formatSessionState(state)}`);
+      });
+      if (nextRound) {
+        console.log(`${targets.length + 1}. ⏭️  Advance to the ${nextRound.name} round`);
+      }
+
+      const choices = targets.length + (nextRound ? 1 : 0);
+      const input = await this.promptUser(`\nMove session to (1-${choices}): `);
+      if (nextRound && parseInt(input.trim()) === targets.length + 1) {
+        await this.store.advanceRound(session.id);
+        this.printer.printSuccess(`Session is now in the ${nextRound.name} round.`);
+        return;
+      }
+
+      const target = targets[parseInt(input.trim()) - 1];
+      if (!target) {
+        this.printer.printMessage('Operation cancelled.');
+        return;
+      }
+
+      const updated = await this.store.transitionSession(session.id, target);
+      this.printer.printSuccess(`Session is now ${this.printer.formatSessionState(updated.state)}.`);
+    } catch (error) {
+      this.printer.printError(`Failed to change session state: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Archive, restore or permanently delete a session after confirmation
+   */
+  private async manageArchive(): Promise<void> {
+    try {
+      const action = (await this.promptUser('\n"a" to archive, "r" to restore from the archive, "d" to delete permanently: ')).trim().toLowerCase();
+
+      if (action === 'a') {
+        const session = await this.getSessionByUserInput();
+        if (!session) {
+          return;
+        }
+        const confirm = await this.promptUser(`Archive "${session.topic}"? It will be hidden from session lists. (y/n): `);
+        if (confirm.toLowerCase() !== 'y') {
+          this.printer.printMessage('Operation cancelled.');
+          return;
+        }
+        await this.store.archiveSession(session.id);
+        this.printer.printSuccess('Session archived.');
+      } else if (action === 'r') {
+        const session = await this.getSessionByUserInput({ state: 'archived', includeArchived: true });
+        if (!session) {
+          return;
+        }
+        const confirm = await this.promptUser(`Restore "${session.topic}"? (y/n): `);
+        if (confirm.toLowerCase() !== 'y') {
+          this.printer.printMessage('Operation cancelled.');
+          return;
+        }
+        const restored = await this.store.unarchiveSession(session.id);
+        this.printer.printSuccess(`Session restored as ${this.printer.formatSessionState(restored.state)}.`);
+      } else if (action === 'd') {
+        const session = await this.getSessionByUserInput({ includeArchived: true });
+        if (!session) {
+          return;
+        }
+        const runs = await this.store.listResultRuns(session.id);
+        this.printer.printWarning(
+          `This permanently deletes "${session.topic}", its ${session.arguments.length} argument(s) and ${runs.length} analysis run(s).`
+        );
+        const confirm = await this.promptUser('Type "delete" to confirm: ');
+        if (confirm.trim().toLowerCase() !== 'delete') {
+          this.printer.printMessage('Operation cancelled.');
+          return;
+        }
+        const { resultsDeleted } = await this.store.deleteSession(session.id);
+        this.printer.printSuccess(`Session deleted along with ${resultsDeleted} analysis run(s).`);
+      } else {
+        this.printer.printMessage('Operation cancelled.');
+      }
+    } catch (error) {
+      this.printer.printError(`Failed to update session: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Check the store for integrity problems and offer to repair the ones with a safe fix
+   */
+  private async checkIntegrity(): Promise<void> {
+    try {
+      const report = await this.store.verify();
+      this.printer.printIntegrityReport(report);
+
+      const repairable = report.issues.filter(issue => issue.repairable).length;
+      if (repairable === 0) {
+        return;
+      }
+
+      const confirm = await this.promptUser(`\nRepair ${repairable} issue(s)? Orphaned results are deleted. (y/n): `);
+      if (confirm.toLowerCase() !== 'y') {
+        this.printer.printMessage('No changes made.');
+        return;
+      }
+
+      const repaired = await this.store.verify({ repair: true });
+      this.printer.printIntegrityReport(repaired);
+      this.printer.printSuccess(`Repaired ${repaired.repaired} issue(s).`);
+    } catch (error) {
+      this.printer.printError(`Failed to check data integrity: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Switch to another workspace, create a new one, or change the active workspace's settings
+   */
+  private async switchWorkspace(): Promise<void> {
+    try {
+      const workspaces = await this.store.listWorkspaces();
+      const active = this.store.activeWorkspace;
+      this.printer.printWorkspaces(workspaces, active.id);
+
+      const input = (await this.promptUser(
+        '\nSelect a workspace by number or name, "n" to create one, "s" to change settings of this one: '
+      )).trim();
+
+      if (input.toLowerCase() === 'n') {
+        const name = (await this.promptUser('Workspace name (e.g. "Period 3" or "Team Blue"): ')).trim();
+        if (!name) {
+          this.printer.printMessage('Operation cancelled.');
+          return;
+        }
+        const description = (await this.promptUser('Description (optional): ')).trim();
+        const workspace = await this.store.createWorkspace(name, description ? { description } : {});
+        await this.store.useWorkspace(workspace.id);
+        this.printer.printSuccess(`Created and switched to workspace "${workspace.name}" (${workspace.id}).`);
+      } else if (input.toLowerCase() === 's') {
+        const description = (await this.promptUser(`Description [${active.settings.description ?? ''}]: `)).trim();
+        const draft = (await this.promptUser(
+          `Create new sessions as drafts? (y/n) [${active.settings.draftByDefault ? 'y' : 'n'}]: `
+        )).trim().toLowerCase();
+        const workspace = await this.store.updateWorkspaceSettings({
+          ...(description ? { description } : {}),
+          ...(draft === 'y' || draft === 'n' ? { draftByDefault: draft === 'y' } : {}),
+        });
+        this.printer.printSuccess(`Updated settings of workspace "${workspace.name}".`);
+      } else if (input) {
+        const index = parseInt(input, 10) - 1;
+        const selected = /^\d+$/.test(input) ? workspaces[index]?.id : input;
+        if (!selected) {
+          this.printer.printError('Invalid workspace selection.');
+          return;
+        }
+        const workspace = await this.store.useWorkspace(selected);
+        this.printer.printSuccess(`Switched to workspace "${workspace.name}".`);
+      } else {
+        this.printer.printMessage('Operation cancelled.');
+      }
+    } catch (error) {
+      this.printer.printError(`Failed to change workspace: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Encrypt the data directory with the configured key, decrypt it, or rotate to a new key
+   */
+  private async manageEncryption(): Promise<void> {
+    const configured = loadStoreConfig().encryption;
+    const action = (await this.promptUser(
+      '\n"e" to encrypt with the configured key, "d" to decrypt to plain files, "r" to rotate to a new key: '
+    )).trim().toLowerCase();
+
+    try {
+      if (action === 'e') {
+        if (!configured) {
+          this.printer.printError('Set DEBATE_ENCRYPTION_PASSPHRASE or DEBATE_ENCRYPTION_KEY_FILE first.');
+          return;
+        }
+        const files = await this.store.reencrypt(configured);
+        this.printer.printSuccess(`Encrypted ${files.length} file(s).`);
+      } else if (action === 'd') {
+        const confirm = await this.promptUser('Store all debate data unencrypted? (y/n): ');
+        if (confirm.toLowerCase() !== 'y') {
+          this.printer.printMessage('No changes made.');
+          return;
+        }
+        const files = await this.store.reencrypt({});
+        this.printer.printSuccess(`Decrypted ${files.length} file(s).`);
+        this.printer.printMessage('Unset DEBATE_ENCRYPTION_PASSPHRASE and DEBATE_ENCRYPTION_KEY_FILE before the next start.');
+      } else if (action === 'r') {
+        const keyFile = (await this.promptUser('Path to the new key file (leave empty to enter a passphrase): ')).trim();
+        const passphrase = keyFile ? '' : await this.promptUser('New passphrase: ');
+        if (!keyFile && !passphrase) {
+          this.printer.printMessage('Operation cancelled.');
+          return;
+        }
+        const files = await this.store.reencrypt(keyFile ? { keyFile } : { passphrase });
+        this.printer.printSuccess(`Re-encrypted ${files.length} file(s) with the new key.`);
+        this.printer.printMessage(
+          `Set ${keyFile ? 'DEBATE_ENCRYPTION_KEY_FILE' : 'DEBATE_ENCRYPTION_PASSPHRASE'} to the new key before the next start.`
+        );
+      } else {
+        this.printer.printMessage('Operation cancelled.');
+      }
+    } catch (error) {
+      this.printer.printError(`Failed to change encryption: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Export sessions to a bundle file, or merge a bundle file into the store
+   */
+  private async transferSessions(): Promise<void> {
+    const action = (await this.promptUser('\n"e" to export sessions to a bundle, "i" to import a bundle: ')).trim().toLowerCase();
+
+    if (action === 'e') {
+      await this.exportBundle();
+    } else if (action === 'i') {
+      await this.importBundle();
+    } else {
+      this.printer.printMessage('Operation cancelled.');
+    }
+  }
+
+  /**
+   * Pick one or more sessions and write them to a bundle file
+   */
+  private async exportBundle(): Promise<void> {
+    try {
+      const sessions: DebateSession[] = [];
+      while (true) {
+        const session = await this.getSessionByUserInput({ includeArchived: true });
+        if (session && !sessions.some(selected => selected.id === session.id)) {
+          sessions.push(session);
+        }
+        if (sessions.length === 0) {
+          return;
+        }
+
+        console.log(`\nSelected: ${sessions.map(selected => `"${selected.topic}"`).join(', ')}`);
+        const more = await this.promptUser('Add another session? (y/N): ');
+        if (more.trim().toLowerCase() !== 'y') {
+          break;
+        }
+      }
+
+      const defaultFile = `./debate-bundle-${new Date().toISOString().slice(0, 10)}.json`;
+      const file = (await this.promptUser(`Bundle file (${defaultFile}): `)).trim() || defaultFile;
+
+      const bundle = await this.store.exportBundle(sessions.map(session => session.id));
+      await writeBundleFile(file, bundle);
+      this.printer.printSuccess(
+        `Exported ${bundle.sessions.length} session(s), ${bundle.participants.length} participant(s) and ${bundle.results.length} analysis run(s) to ${file}`
+      );
+    } catch (error) {
+      this.printer.printError(`Failed to export sessions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Read a bundle file and merge it into the store after confirmation
+   */
+  private async importBundle(): Promise<void> {
+    try {
+      const file = (await this.promptUser('Bundle file to import: ')).trim();
+      if (!file) {
+        this.printer.printMessage('Operation cancelled.');
+        return;
+      }
+
+      const bundle = await readBundleFile(file);
+      console.log(`\n📦 Bundle exported ${new Date(bundle.exportedAt).toLocaleString()}:`);
+      bundle.sessions.forEach(session => console.log(`   - ${session.topic} (${session.id})`));
+      console.log(`   ${bundle.participants.length} participant(s), ${bundle.results.length} analysis run(s)`);
+
+      const conflicts = [];
+      for (const session of bundle.sessions) {
+        if (await this.store.getSession(session.id)) {
+          conflicts.push(session);
+        }
+      }
+
+      let onSessionConflict: 'skip' | 'rename' = 'skip';
+      if (conflicts.length > 0) {
+        this.printer.printWarning(`${conflicts.length} session(s) in the bundle already exist in this store.`);
+        const choice = await this.promptUser('"s" to skip them, "c" to import them as copies with new IDs: ');
+        onSessionConflict = choice.trim().toLowerCase() === 'c' ? 'rename' : 'skip';
+      }
+
+      const confirm = await this.promptUser('Import this bundle? (y/n): ');
+      if (confirm.toLowerCase() !== 'y') {
+        this.printer.printMessage('Operation cancelled.');
+        return;
+      }
+
+      const report = await this.store.importBundle(bundle, { onSessionConflict });
+      this.printer.printSuccess(
+        `Imported ${report.sessionsImported.length} session(s) and ${report.resultsImported} analysis run(s); ` +
+        `${report.participantsImported} new participant(s), ${report.participantsMatched} matched to existing ones.`
+      );
+      if (report.sessionsSkipped.length > 0) {
+        this.printer.printMessage(`Skipped existing session(s): ${report.sessionsSkipped.join(', ')}`);
+      }
+      const renamed = Object.keys(report.renamedIds).length;
+      if (renamed > 0) {
+        this.printer.printMessage(`${renamed} ID(s) were changed to avoid collisions.`);
+      }
+    } catch (error) {
+      this.printer.printError(`Failed to import bundle: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Let the user pick an analysis run; Enter picks the official verdict (or the latest run)
+   */
+  private async getResultRunByUserInput(session: DebateSession, runs: DebateResult[]): Promise<DebateResult | null> {
+    if (runs.length === 1) {
+      return runs[0];
+    }
+
+    this.printer.printResultRuns(runs, session.officialRunId);
+
+    while (true) {
+      const input = await this.promptUser(`\nEnter run number (1-${runs.length}), run ID, or press Enter for the official verdict: `);
+
+      if (!input.trim()) {
+        return await this.store.getResults(session.id);
+      }
+
+      const run = runs.find(r => r.runId === input.trim() || r.revision === parseInt(input.trim()));
+      if (run) {
+        return run;
+      }
+
+      this.printer.printError(`Invalid run. Please enter a number between 1-${runs.length} or a valid run ID.`);
+    }
+  }
+
   /**
    * Prompt user for input
    */
@@ -411,6 +1201,12 @@ class DebateRefereeCLI {
     if (this.rl) {
       this.rl.close();
     }
+
+    try {
+      await this.store.close();
+    } catch (error) {
+      logger.warn('Error closing debate store:', error);
+    }
     
     if (this.runtime) {
       try {
@@ -458,6 +1254,11 @@ main().catch((error) => {
 });
 
 export { DebateRefereeCLI };
-export { DebateStore } from './debateStore.js';
+export { DebateStore, createDebateStore, loadStoreConfig } from './debateStore.js';
+export { JsonFileBackend } from './storage/jsonFileBackend.js';
+export { MemoryBackend } from './storage/memoryBackend.js';
+export { SqlBackend } from './storage/sqlBackend.js';
+export { readBundleFile, writeBundleFile } from './storage/bundle.js';
+export { createUlidGenerator, systemClock } from './clock.js';
 export { DebateAnalyzer } from './debateAnalyzer.js';
 export { ResultPrinter } from './resultPrinter.js';
\ No newline at end of file
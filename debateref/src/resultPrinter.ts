@@ -1,4 +1,19 @@
-import { type DebateResult, type DebateSession } from './debateStore.js';
+import {
+  activeArguments,
+  argumentsByRound,
+  replyThreads,
+  sideOf,
+  type Argument,
+  type DebateResult,
+  type DebateSession,
+  type Participant,
+  type SessionPage,
+  type SessionRules,
+  type SessionState,
+  type Workspace,
+} from './debateStore.js';
+import { type IntegrityReport } from './storage/integrity.js';
+import { DEFAULT_RUBRIC, formatWeight, type Rubric } from './rubric.js';
 
 /**
  * Result Printer - Handles console output formatting for debate results
@@ -13,14 +28,42 @@ export class ResultPrinter {
   /**
    * Print the main debate results in a formatted table
    */
-  printDebateResults(result: DebateResult): void {
+  printDebateResults(result: DebateResult, isOfficial: boolean = false): void {
     console.clear();
     this.printHeader('DEBATE REFEREE AI - RESULTS');
     this.printTopic(result.topic);
+    this.printCentered(
+      `Run #${result.revision} · ${new Date(result.processedAt).toLocaleString()}${result.provenance?.blind ? ' · Judged blind' : ''}${isOfficial ? ' · Official verdict' : ''}`
+    );
     this.printSeparator();
     
     this.printScoresTable(result);
     this.printSeparator();
+
+    if (result.rounds) {
+      this.printRoundResults(result);
+      this.printSeparator();
+    }
+
+    if (result.sides) {
+      this.printSideScores(result);
+      this.printSeparator();
+    }
+
+    if (result.pairwise) {
+      this.printPairwise(result);
+      this.printSeparator();
+    }
+
+    if (result.panel && result.panel.ballots.length > 1) {
+      this.printPanel(result);
+      this.printSeparator();
+    }
+
+    if (result.orderBias) {
+      this.printOrderBias(result);
+      this.printSeparator();
+    }
     
     this.printWinner(result);
     this.printSeparator();
@@ -32,23 +75,28 @@ export class ResultPrinter {
   }
 
   /**
-   * Print a list of available debate sessions
+   * Print one page of available debate sessions
    */
-  printSessionsList(sessions: DebateSession[]): void {
+  printSessionsList(page: SessionPage, search?: string): void {
+    const { sessions } = page;
+
     console.clear();
     this.printHeader('AVAILABLE DEBATE SESSIONS');
     
     if (sessions.length === 0) {
-      this.printCentered('No debate sessions found.');
+      this.printCentered(search ? `No debate sessions match "${search}".` : 'No debate sessions found.');
       this.printSeparator();
       return;
     }
 
+    this.printCentered(this.formatPageSummary(page, search));
+    this.printSeparator();
+
     sessions.forEach((session, index) => {
-      const status = session.processedAt ? '✅ Processed' : '⏳ Pending';
+      const status = this.formatSessionState(session.state);
       const argumentCount = session.arguments.length;
       
-      console.log(`${this.sideChar} ${index + 1}. ${session.topic}`);
+      console.log(`${this.sideChar} ${page.offset + index + 1}. ${session.topic}`);
       console.log(`${this.sideChar}    ID: ${session.id}`);
       console.log(`${this.sideChar}    Arguments: ${argumentCount}`);
       console.log(`${this.sideChar}    Status: ${status}`);
@@ -63,9 +111,99 @@ export class ResultPrinter {
   }
 
   /**
-   * Print a single debate session details
+   * Print the analysis runs recorded for a session
+   */
+  printResultRuns(runs: DebateResult[], officialRunId?: string): void {
+    console.log('\n📊 Analysis Runs:');
+    console.log(this.separatorChar.repeat(60));
+
+    runs.forEach(run => {
+      const winner = run.isTie ? 'Tie' : run.winner ? `${run.winner.userName} (${run.winner.finalScore})` : 'None';
+      const official = run.runId === officialRunId ? ' ⭐ Official' : '';
+
+      console.log(`${run.revision}. ${new Date(run.processedAt).toLocaleString()}${official}`);
+      console.log(`   Run ID: ${run.runId}`);
+      if (run.sides) {
+        const side = run.isSideTie ? 'Tie' : run.winningSide ? `${run.winningSide.sideName} (${run.winningSide.finalScore})` : 'None';
+        console.log(`   Winning side: ${side}`);
+      }
+      console.log(`   Winner: ${winner}`);
+      if (run.panel?.strongDisagreement) {
+        console.log('   ⚠️  Judges strongly disagreed');
+      }
+      console.log();
+    });
+  }
+
+  /**
+   * Print the participant registry for selection
+   */
+  printParticipantsList(participants: Participant[]): void {
+    console.log('\n👥 Registered Participants:');
+    console.log(this.separatorChar.repeat(60));
+
+    participants.forEach((participant, index) => {
+      const affiliation = participant.affiliation ? ` · ${participant.affiliation}` : '';
+      console.log(`${index + 1}. ${participant.displayName}${affiliation}`);
+      console.log(`   ID: ${participant.id}`);
+    });
+  }
+
+  /**
+   * Print the outcome of a store integrity check, grouped by issue type
+   */
+  printIntegrityReport(report: IntegrityReport): void {
+    console.clear();
+    this.printHeader('DATA INTEGRITY REPORT');
+
+    const { sessions, results, participants } = report.counts;
+    console.log(`${this.sideChar} Checked: ${new Date(report.checkedAt).toLocaleString()}`);
+    console.log(`${this.sideChar} Records: ${sessions} session(s), ${results} result(s), ${participants} participant(s)`);
+    this.printSeparator();
+
+    if (report.issues.length === 0) {
+      this.printCentered('✅ No problems found.');
+      this.printSeparator();
+      return;
+    }
+
+    const byCode = new Map<string, IntegrityReport['issues']>();
+    report.issues.forEach(issue => byCode.set(issue.code, [...(byCode.get(issue.code) ?? []), issue]));
+
+    byCode.forEach((issues, code) => {
+      console.log(`${this.sideChar} ${code.replace(/_/g, ' ').toUpperCase()} (${issues.length})`);
+      issues.forEach(issue => {
+        const marker = issue.repaired ? '🔧' : issue.repairable ? '⚠️ ' : '❌';
+        console.log(`${this.sideChar}   ${marker} [${issue.collection}] ${issue.recordId}: ${issue.message}`);
+      });
+      console.log(`${this.sideChar}`);
+    });
+
+    const repairable = report.issues.filter(issue => issue.repairable && !issue.repaired).length;
+    console.log(`${this.sideChar} ${report.issues.length} issue(s): ${report.repaired} repaired, ${repairable} repairable, ` +
+      `${report.issues.length - report.repaired - repairable} need manual attention`);
+    this.printSeparator();
+  }
+
+  /**
+   * Print the numbered list of workspaces, marking the active one
+   */
+  printWorkspaces(workspaces: Workspace[], activeId: string): void {
+    console.log(`\n${this.sideChar} WORKSPACES:`);
+    workspaces.forEach((workspace, index) => {
+      const marker = workspace.id === activeId ? ' (active)' : '';
+      const draft = workspace.settings.draftByDefault ? ' [drafts]' : '';
+      console.log(`${this.sideChar} ${index + 1}. ${workspace.name} (${workspace.id})${marker}${draft}`);
+      if (workspace.settings.description) {
+        console.log(`${this.sideChar}    ${workspace.settings.description}`);
+      }
+    });
+  }
+
+  /**
+   * Print a single debate session details, optionally with each argument's edit history
    */
-  printSessionDetails(session: DebateSession): void {
+  printSessionDetails(session: DebateSession, participants: Participant[] = [], showHistory: boolean = false): void {
     console.clear();
     this.printHeader('DEBATE SESSION DETAILS');
     this.printTopic(session.topic);
@@ -73,39 +211,177 @@ export class ResultPrinter {
     
     console.log(`${this.sideChar} Session ID: ${session.id}`);
     console.log(`${this.sideChar} Created: ${new Date(session.createdAt).toLocaleString()}`);
-    console.log(`${this.sideChar} Arguments: ${session.arguments.length}`);
-    console.log(`${this.sideChar} Status: ${session.processedAt ? '✅ Processed' : '⏳ Pending'}`);
+    const withdrawn = session.arguments.length - activeArguments(session).length;
+    console.log(`${this.sideChar} Arguments: ${session.arguments.length}${withdrawn > 0 ? ` (${withdrawn} withdrawn)` : ''}`);
+    console.log(`${this.sideChar} Status: ${this.formatSessionState(session.state)}`);
+    if (session.sides?.length) {
+      const names = new Map(participants.map(participant => [participant.id, participant.displayName]));
+      session.sides.forEach(side => {
+        const members = Object.entries(session.sideAssignments ?? {})
+          .filter(([, sideId]) => sideId === side.id)
+          .map(([participantId]) => names.get(participantId) ?? participantId);
+        console.log(`${this.sideChar} Side ${side.name}: ${members.length > 0 ? members.join(', ') : 'nobody assigned yet'}`);
+      });
+    }
+    if (session.rules) {
+      const names = new Map(participants.map(participant => [participant.id, participant.displayName]));
+      console.log(`${this.sideChar} Rules: ${this.formatRules(session.rules, names)}`);
+    }
+    console.log(`${this.sideChar} Rubric: ${session.rubricId ?? `${DEFAULT_RUBRIC.id} (default)`}`);
     this.printSeparator();
     
     if (session.arguments.length === 0) {
       this.printCentered('No arguments submitted yet.');
     } else {
-      this.printArguments(session.arguments);
+      this.printArguments(session, participants, showHistory);
     }
     
     this.printSeparator();
   }
 
+  /**
+   * Summarize a session's submission rules on one line
+   */
+  formatRules(rules: SessionRules, names: Map<string, string> = new Map()): string {
+    const parts: string[] = [];
+    if (rules.minWords !== undefined || rules.maxWords !== undefined) {
+      parts.push(`${rules.minWords ?? 0}-${rules.maxWords ?? '∞'} words`);
+    }
+    if (rules.maxArgumentsPerParticipant !== undefined) {
+      parts.push(`max ${rules.maxArgumentsPerParticipant} per participant`);
+    }
+    if (rules.opensAt !== undefined || rules.closesAt !== undefined) {
+      const from = rules.opensAt !== undefined ? new Date(rules.opensAt).toLocaleString() : 'now';
+      const to = rules.closesAt !== undefined ? new Date(rules.closesAt).toLocaleString() : 'close';
+      parts.push(`window ${from} → ${to}`);
+    }
+    if (rules.speakingOrder?.length) {
+      parts.push(`order ${rules.speakingOrder.map(id => names.get(id) ?? id).join(' → ')}`);
+    }
+    const enforcement = rules.enforcement === 'soft'
+      ? `soft, -${rules.penaltyPerViolation ?? 1} per violation`
+      : 'hard';
+    return `${parts.length > 0 ? parts.join(' · ') : 'none'} (${enforcement})`;
+  }
+
+  /**
+   * Describe which slice of the matching sessions a page shows
+   */
+  formatPageSummary(page: SessionPage, search?: string): string {
+    const first = page.total === 0 ? 0 : page.offset + 1;
+    const last = page.offset + page.sessions.length;
+    return `Showing ${first}-${last} of ${page.total}${search ? ` matching "${search}"` : ''}`;
+  }
+
+  /**
+   * Format a session lifecycle state for display
+   */
+  formatSessionState(state: SessionState): string {
+    switch (state) {
+      case 'draft':
+        return '📝 Draft';
+      case 'open':
+        return '🟢 Open for arguments';
+      case 'closed':
+        return '🔒 Closed';
+      case 'judged':
+        return '✅ Judged';
+      case 'archived':
+        return '📦 Archived';
+      default:
+        return `❔ ${state}`;
+    }
+  }
+
   /**
    * Print arguments in a formatted way
    */
-  private printArguments(args: any[]): void {
+  private printArguments(session: DebateSession, participants: Participant[], showHistory: boolean): void {
+    const names = new Map(participants.map(participant => [participant.id, participant.displayName]));
+
     console.log(`${this.sideChar} ARGUMENTS:`);
     console.log(`${this.sideChar}`);
-    
-    args.forEach((arg, index) => {
-      console.log(`${this.sideChar} ${index + 1}. ${arg.userName} (${arg.userId})`);
-      console.log(`${this.sideChar}    ${new Date(arg.timestamp).toLocaleString()}`);
-      console.log(`${this.sideChar}`);
-      
-      // Wrap long text
-      const wrappedText = this.wrapText(arg.text, this.maxWidth - 6);
-      wrappedText.forEach(line => {
-        console.log(`${this.sideChar}    ${line}`);
-      });
-      
-      if (index < args.length - 1) {
+
+    // Sessions with rounds are shown round by round, in round order
+    if (session.rounds?.length) {
+      argumentsByRound(session).forEach(({ round, arguments: roundArguments }, roundIndex) => {
+        const current = round.id === session.currentRoundId && session.state === 'open' ? ' · current' : '';
+        console.log(`${this.sideChar} ROUND ${roundIndex + 1}: ${round.name.toUpperCase()} (${round.kind})${current}`);
         console.log(`${this.sideChar}`);
+        if (roundArguments.length === 0) {
+          console.log(`${this.sideChar}    No arguments in this round.`);
+        }
+        roundArguments.forEach(arg => this.printArgument(session, arg, names, showHistory, 0));
+        if (roundIndex < session.rounds!.length - 1) {
+          console.log(`${this.sideChar}`);
+        }
+      });
+      return;
+    }
+
+    // Replies are indented under the argument they rebut
+    replyThreads(session.arguments).forEach(({ argument, depth }) => this.printArgument(session, argument, names, showHistory, depth));
+  }
+
+  /**
+   * Print one argument with its author, side, status and (optionally) edit history, indented by its reply depth
+   */
+  private printArgument(session: DebateSession, arg: Argument, names: Map<string, string>, showHistory: boolean, depth: number): void {
+    const index = session.arguments.indexOf(arg);
+    const side = sideOf(session, arg.participantId);
+    const indent = '   '.repeat(Math.min(depth, 6));
+    const branch = depth > 0 ? '↳ ' : '';
+    const body = `${indent}${depth > 0 ? '  ' : ''}    `;
+    console.log(`${this.sideChar} ${indent}${branch}${index + 1}. ${names.get(arg.participantId) ?? arg.participantId} (${arg.participantId})${side ? ` · ${side.name}` : ''}`);
+    console.log(`${this.sideChar}${body}${new Date(arg.timestamp).toLocaleString()}${this.formatArgumentStatus(arg)}`);
+    if (arg.replyTo) {
+      const target = session.arguments.find(other => other.id === arg.replyTo);
+      const targetLabel = target ? `#${session.arguments.indexOf(target) + 1} by ${names.get(target.participantId) ?? target.participantId}` : arg.replyTo;
+      console.log(`${this.sideChar}${body}In reply to ${targetLabel}`);
+    }
+    (arg.penalties ?? []).forEach(violation => {
+      console.log(`${this.sideChar}${body}⚠️ Penalty -${violation.penalty}: ${violation.message}`);
+    });
+    console.log(`${this.sideChar}`);
+    
+    // Wrap long text
+    const wrappedText = this.wrapText(arg.text, this.maxWidth - 2 - body.length);
+    wrappedText.forEach(line => {
+      console.log(`${this.sideChar}${body}${line}`);
+    });
+
+    if (showHistory && arg.history.length > 1) {
+      this.printArgumentHistory(arg, names);
+    }
+    
+    console.log(`${this.sideChar}`);
+  }
+
+  /**
+   * Describe whether an argument was edited or withdrawn
+   */
+  private formatArgumentStatus(arg: Argument): string {
+    if (arg.withdrawn) {
+      return ' · 🚫 Withdrawn (not judged)';
+    }
+    return arg.revision > 1 ? ` · ✏️ Edited (revision ${arg.revision})` : '';
+  }
+
+  /**
+   * Print every revision of an argument, oldest first
+   */
+  private printArgumentHistory(arg: Argument, names: Map<string, string>): void {
+    console.log(`${this.sideChar}`);
+    console.log(`${this.sideChar}    History:`);
+
+    arg.history.forEach(entry => {
+      const editor = names.get(entry.editedBy) ?? entry.editedBy;
+      const reason = entry.reason ? ` — ${entry.reason}` : '';
+      console.log(`${this.sideChar}    r${entry.revision} ${entry.action} by ${editor}, ${new Date(entry.editedAt).toLocaleString()}${reason}`);
+      if (entry.action !== 'withdrawn') {
+        this.wrapText(entry.text, this.maxWidth - 10).forEach(line => {
+          console.log(`${this.sideChar}        ${line}`);
+        });
       }
     });
   }
@@ -117,8 +393,12 @@ export class ResultPrinter {
     console.log(`${this.sideChar} SCORING RESULTS:`);
     console.log(`${this.sideChar}`);
     
+    // One column per criterion of the rubric the run was scored with
+    const criteria = result.rubric?.criteria ?? DEFAULT_RUBRIC.criteria;
+    const widths = criteria.map(criterion => Math.max(8, criterion.name.length + 1));
+
     // Table header
-    const header = 'User'.padEnd(15) + 'Clarity'.padEnd(8) + 'Logic'.padEnd(8) + 'Evidence'.padEnd(9) + 'Relevance'.padEnd(10) + 'Final';
+    const header = 'User'.padEnd(15) + criteria.map((criterion, index) => criterion.name.padEnd(widths[index])).join('') + 'Final';
     console.log(`${this.sideChar} ${header}`);
     console.log(`${this.sideChar} ${this.separatorChar.repeat(header.length)}`);
     
@@ -126,24 +406,167 @@ export class ResultPrinter {
     Object.entries(result.results).forEach(([userId, userResult]) => {
       const row = 
         userResult.userName.padEnd(15) +
-        userResult.scores.clarity.toString().padEnd(8) +
-        userResult.scores.logic.toString().padEnd(8) +
-        userResult.scores.evidence.toString().padEnd(9) +
-        userResult.scores.relevance.toString().padEnd(10) +
-        userResult.finalScore.toString();
+        criteria.map((criterion, index) => String(userResult.scores[criterion.id] ?? '-').padEnd(widths[index])).join('') +
+        userResult.finalScore.toString() +
+        (userResult.penalty ? ` (-${userResult.penalty} penalty)` : '');
       
       console.log(`${this.sideChar} ${row}`);
     });
     
+    // Participants with several arguments get their individual argument scores listed
+    const perArgument = Object.values(result.arguments ?? {});
+    const repeat = Object.keys(result.results).filter(userId => perArgument.filter(entry => entry.participantId === userId).length > 1);
+    if (repeat.length > 0) {
+      console.log(`${this.sideChar}`);
+      console.log(`${this.sideChar} Per-argument scores (combined by ${this.formatAggregation(result.aggregation)}):`);
+      repeat.forEach(userId => {
+        const scores = perArgument.filter(entry => entry.participantId === userId).map(entry => entry.finalScore);
+        console.log(`${this.sideChar}    ${result.results[userId].userName.padEnd(15)} ${scores.join(', ')} → ${result.results[userId].finalScore}`);
+      });
+    }
+    
     console.log(`${this.sideChar}`);
-    console.log(`${this.sideChar} Scoring Weights: Clarity 25%, Logic 30%, Evidence 25%, Relevance 20%`);
+    const rubric = result.rubric ?? DEFAULT_RUBRIC;
+    console.log(`${this.sideChar} Rubric: ${rubric.name} (${rubric.id} v${rubric.version})`);
+    console.log(`${this.sideChar} Scoring Weights: ${criteria.map(criterion => `${criterion.name} ${formatWeight(criterion.weight)}`).join(', ')}`);
+    if (result.judgingMode === 'pairwise') {
+      console.log(`${this.sideChar} Scores are 10 × the average chance of beating each opponent in pairwise comparisons`);
+    }
+    if (Object.values(result.results).some(userResult => userResult.penalty)) {
+      console.log(`${this.sideChar} Final scores include penalties for breaking the session's soft rules`);
+    }
+  }
+
+  /**
+   * Describe how argument scores were combined
+   */
+  private formatAggregation(aggregation: DebateResult['aggregation']): string {
+    switch (aggregation) {
+      case 'best':
+        return 'best argument';
+      case 'round-weighted':
+        return 'round-weighted mean';
+      default:
+        return 'mean';
+    }
   }
 
   /**
-   * Print the winner information
+   * Print each round's scores and winner, in round order
+   */
+  private printRoundResults(result: DebateResult): void {
+    console.log(`${this.sideChar} ROUND BY ROUND:`);
+
+    Object.values(result.rounds ?? {}).forEach((round, index) => {
+      const winner = round.isTie ? 'Tie' : round.winner ? `${round.winner.userName} (${round.winner.finalScore})` : 'None';
+      console.log(`${this.sideChar}`);
+      console.log(`${this.sideChar} Round ${index + 1}: ${round.roundName} (${round.kind}) · Winner: ${winner}`);
+      Object.values(round.results).forEach(entry => {
+        console.log(`${this.sideChar}    ${entry.userName.padEnd(20)} ${entry.finalScore}/10`);
+      });
+    });
+  }
+
+  /**
+   * Print how well each side defended its position
+   */
+  private printSideScores(result: DebateResult): void {
+    console.log(`${this.sideChar} SIDES:`);
+    console.log(`${this.sideChar}`);
+
+    Object.values(result.sides ?? {}).forEach(side => {
+      const speakers = side.participantIds.map(userId => result.results[userId]?.userName ?? userId);
+      console.log(`${this.sideChar} ${side.sideName.padEnd(20)} ${side.finalScore}/10  ${speakers.length > 0 ? `(${speakers.join(', ')})` : ''}`);
+      this.wrapText(side.reasoning, this.maxWidth - 8).forEach(line => {
+        console.log(`${this.sideChar}    ${line}`);
+      });
+    });
+  }
+
+  /**
+   * Print the Bradley-Terry ranking with each participant's chance of beating the others
+   */
+  private printPairwise(result: DebateResult): void {
+    const pairwise = result.pairwise!;
+    const names = new Map(pairwise.ranking.map(entry => [entry.userId, entry.userName]));
+    console.log(`${this.sideChar} PAIRWISE RANKING (${pairwise.comparisons.length} comparisons, both orders):`);
+    console.log(`${this.sideChar}`);
+
+    pairwise.ranking.forEach((entry, index) => {
+      const odds = Object.entries(pairwise.winProbabilities[entry.userId] ?? {})
+        .map(([opponentId, probability]) => `${names.get(opponentId) ?? opponentId} ${Math.round(probability * 100)}%`)
+        .join(', ');
+      console.log(`${this.sideChar} ${index + 1}. ${entry.userName.padEnd(20)} strength ${String(entry.strength).padEnd(7)} beats ${odds}`);
+    });
+
+    if (pairwise.firstPositionRate !== null) {
+      console.log(`${this.sideChar}`);
+      console.log(`${this.sideChar} Verdicts for whoever was shown first: ${Math.round(pairwise.firstPositionRate * 100)}% (50% is no position bias)`);
+    }
+  }
+
+  /**
+   * Print each judge's final score per participant and how far the judges agreed
+   */
+  private printPanel(result: DebateResult): void {
+    const panel = result.panel!;
+    console.log(`${this.sideChar} JUDGING PANEL (${panel.ballots.length} judges, combined by ${panel.aggregation}):`);
+    console.log(`${this.sideChar}`);
+
+    const widths = panel.ballots.map(ballot => Math.max(8, ballot.judgeName.length + 1));
+    const header = 'User'.padEnd(15) + panel.ballots.map((ballot, index) => ballot.judgeName.padEnd(widths[index])).join('') + 'SD'.padEnd(7) + 'α';
+    console.log(`${this.sideChar} ${header}`);
+    console.log(`${this.sideChar} ${this.separatorChar.repeat(header.length)}`);
+
+    Object.entries(panel.agreement.participants).forEach(([userId, agreement]) => {
+      const row =
+        (result.results[userId]?.userName ?? userId).padEnd(15) +
+        panel.ballots.map((ballot, index) => String(agreement.finalScores[ballot.judgeId] ?? '-').padEnd(widths[index])).join('') +
+        String(agreement.stdDev).padEnd(7) +
+        (agreement.alpha ?? '-');
+      console.log(`${this.sideChar} ${row}`);
+    });
+
+    console.log(`${this.sideChar}`);
+    console.log(`${this.sideChar} Overall agreement (Krippendorff's α): ${panel.agreement.alpha ?? '-'}`);
+  }
+
+  /**
+   * Print how far each participant's final score moved with the order the arguments were shown in,
+   * averaged over the judges
+   */
+  private printOrderBias(result: DebateResult): void {
+    const orderBias = result.orderBias!;
+    console.log(`${this.sideChar} ORDER BIAS (${orderBias.orderings.length} judge calls, arguments shuffled; spread within each judge):`);
+    console.log(`${this.sideChar}`);
+
+    Object.entries(orderBias.participants).forEach(([userId, entry]) => {
+      const low = Math.min(...entry.finalScores);
+      const high = Math.max(...entry.finalScores);
+      console.log(`${this.sideChar}    ${(result.results[userId]?.userName ?? userId).padEnd(20)} ${low}-${high}  moved ${entry.range}, SD ${entry.stdDev}`);
+    });
+  }
+
+  /**
+   * Print the winner information: the winning side first for sessions with sides, then the best speaker
    */
   private printWinner(result: DebateResult): void {
-    console.log(`${this.sideChar} WINNER:`);
+    if (result.sides) {
+      console.log(`${this.sideChar} WINNING SIDE:`);
+      console.log(`${this.sideChar}`);
+
+      if (result.isSideTie) {
+        this.printCentered('🏆 TIE! Sides defended their positions equally well.');
+      } else if (result.winningSide) {
+        this.printCentered(`🏆 WINNING SIDE: ${result.winningSide.sideName}`);
+        this.printCentered(`Side Score: ${result.winningSide.finalScore}/10`);
+      } else {
+        this.printCentered('No winning side determined.');
+      }
+      console.log(`${this.sideChar}`);
+    }
+
+    console.log(`${this.sideChar} ${result.sides ? 'BEST SPEAKER' : 'WINNER'}:`);
     console.log(`${this.sideChar}`);
     
     if (result.isTie) {
@@ -154,6 +577,11 @@ export class ResultPrinter {
     } else {
       this.printCentered('No winner determined.');
     }
+
+    if (result.panel?.strongDisagreement) {
+      console.log(`${this.sideChar}`);
+      this.printCentered('⚠️  The judges strongly disagree; treat this verdict with caution.');
+    }
   }
 
   /**
@@ -270,7 +698,8 @@ export class ResultPrinter {
   /**
    * Print help information
    */
-  printHelp(): void {
+  printHelp(rubrics: Rubric[] = [DEFAULT_RUBRIC]): void {
+    const standard = rubrics.find(rubric => rubric.id === DEFAULT_RUBRIC.id) ?? DEFAULT_RUBRIC;
     console.clear();
     this.printHeader('DEBATE REFEREE AI - HELP');
     
@@ -279,21 +708,43 @@ export class ResultPrinter {
     console.log(`${this.sideChar} 1. Create new debate session`);
     console.log(`${this.sideChar} 2. View existing sessions`);
     console.log(`${this.sideChar} 3. Add argument to session`);
-    console.log(`${this.sideChar} 4. Analyze debate (requires arguments)`);
+    console.log(`${this.sideChar} 4. Analyze debate (requires a closed session with arguments)`);
     console.log(`${this.sideChar} 5. View results`);
-    console.log(`${this.sideChar} 6. Help`);
-    console.log(`${this.sideChar} 7. Exit`);
+    console.log(`${this.sideChar} 6. Open or close a session, or advance its round`);
+    console.log(`${this.sideChar} 7. Edit or withdraw an argument`);
+    console.log(`${this.sideChar} 8. Archive, restore or delete a session`);
+    console.log(`${this.sideChar} 9. Export or import sessions (bundle files)`);
+    console.log(`${this.sideChar} 10. Check data integrity (and repair)`);
+    console.log(`${this.sideChar} 11. Manage encryption (encrypt, decrypt, rotate key)`);
+    console.log(`${this.sideChar} 12. Switch, create or configure a workspace`);
+    console.log(`${this.sideChar} 13. Help`);
+    console.log(`${this.sideChar} 14. Exit`);
+    console.log(`${this.sideChar}`);
+    console.log(`${this.sideChar} SESSION LIFECYCLE:`);
+    console.log(`${this.sideChar} - Draft → Open for arguments → Closed → Judged, and any state → Archived`);
+    console.log(`${this.sideChar} - Restoring an archived session returns it to its previous state`);
+    console.log(`${this.sideChar} - Deleting a session also deletes its analysis runs and cannot be undone`);
+    console.log(`${this.sideChar} - Arguments can only be added while a session is open`);
+    console.log(`${this.sideChar} - Closing a session locks its arguments so it can be analyzed`);
+    console.log(`${this.sideChar} - Arguments can be edited while open and withdrawn until judged;`);
+    console.log(`${this.sideChar}   every revision is kept, and withdrawn arguments are not scored`);
     console.log(`${this.sideChar}`);
     console.log(`${this.sideChar} SESSION SELECTION:`);
     console.log(`${this.sideChar} - You can select sessions by number (1, 2, 3...) or by ID`);
-    console.log(`${this.sideChar} - Session IDs are long strings like: debate_1758xxx_abc123`);
-    console.log(`${this.sideChar} - The system will show you all available sessions first`);
+    console.log(`${this.sideChar} - Session IDs look like: debate_01J9ZK3M7Q8R2T4V6W8X0Y2Z4A`);
+    console.log(`${this.sideChar} - Sessions are listed newest first, a page at a time`);
+    console.log(`${this.sideChar} - Type "n" / "p" for the next / previous page`);
+    console.log(`${this.sideChar} - Type "/text" to search topics, or "/" alone to clear the search`);
+    console.log(`${this.sideChar} - Archived sessions are hidden; type "a" to show or hide them`);
     console.log(`${this.sideChar}`);
-    console.log(`${this.sideChar} SCORING CRITERIA:`);
-    console.log(`${this.sideChar} - Clarity (25%): How clear and well-structured`);
-    console.log(`${this.sideChar} - Logic (30%): How sound the reasoning is`);
-    console.log(`${this.sideChar} - Evidence (25%): How well-supported with evidence`);
-    console.log(`${this.sideChar} - Relevance (20%): How relevant to the topic`);
+    console.log(`${this.sideChar} SCORING CRITERIA (${standard.name} rubric, used unless a session picks another):`);
+    standard.criteria.forEach(criterion => {
+      console.log(`${this.sideChar} - ${criterion.name} (${formatWeight(criterion.weight)}): ${criterion.description}`);
+    });
+    const others = rubrics.filter(rubric => rubric !== standard);
+    if (others.length > 0) {
+      console.log(`${this.sideChar} Other rubrics: ${others.map(rubric => `${rubric.name} (${rubric.id} v${rubric.version})`).join(', ')}`);
+    }
     console.log(`${this.sideChar}`);
     console.log(`${this.sideChar} Each criterion is scored 0-10, then weighted.`);
     console.log(`${this.sideChar} Final score is out of 10.`);
@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { hasErrorCode } from './storage/fileSafety.js';
+
+/**
+ * Tolerance when checking that criterion weights sum to 1, so weights like 0.3 + 0.3 + 0.4 pass
+ */
+const WEIGHT_TOLERANCE = 0.001;
+
+/**
+ * What a score means on a criterion, e.g. 8: "Clear throughout, with signposting"
+ */
+const levelSchema = z.object({
+  score: z.number().min(0).max(10),
+  description: z.string().trim().min(1),
+});
+
+/**
+ * One thing arguments are judged on. The ID is the key the judge scores it under.
+ */
+const criterionSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Criterion IDs must be lowercase letters, digits and underscores'),
+  name: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  weight: z.number().gt(0).max(1),
+  levels: z.array(levelSchema).min(2, 'Give at least two level anchors'),
+});
+
+/**
+ * A rubric file: criteria with descriptions, level anchors and weights that sum to 1
+ */
+export const rubricSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Rubric IDs must be lowercase letters, digits and dashes'),
+    name: z.string().trim().min(1),
+    /** Bump whenever criteria or weights change; results record the version they were scored with */
+    version: z.string().trim().min(1),
+    description: z.string().trim().optional(),
+    criteria: z.array(criterionSchema).min(1, 'A rubric needs at least one criterion'),
+  })
+  .superRefine((rubric, context) => {
+    const ids = rubric.criteria.map(criterion => criterion.id);
+    if (new Set(ids).size !== ids.length) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['criteria'], message: 'Criterion IDs must be unique' });
+    }
+    if (ids.includes('reasoning')) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['criteria'], message: '"reasoning" is reserved and cannot be a criterion ID' });
+    }
+
+    const total = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+    if (Math.abs(total - 1) > WEIGHT_TOLERANCE) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['criteria'], message: `Criterion weights must sum to 1 (they sum to ${Math.round(total * 1000) / 1000})` });
+    }
+
+    rubric.criteria.forEach((criterion, index) => {
+      const scores = criterion.levels.map(level => level.score);
+      if (new Set(scores).size !== scores.length) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['criteria', index, 'levels'], message: `Level scores for ${criterion.id} must be unique` });
+      }
+    });
+  });
+
+export type Rubric = z.infer<typeof rubricSchema>;
+export type RubricCriterion = Rubric['criteria'][number];
+
+/**
+ * The rubric sessions use unless they choose another: clarity, logic, evidence and relevance
+ */
+export const DEFAULT_RUBRIC: Rubric = {
+  id: 'standard',
+  name: 'Standard',
+  version: '1',
+  criteria: [
+    {
+      id: 'clarity',
+      name: 'Clarity',
+      description: 'How clear and well-structured is the argument?',
+      weight: 0.25,
+      levels: [
+        { score: 2, description: 'Hard to follow; the main claim is unclear' },
+        { score: 5, description: 'The claim is clear but the structure wanders' },
+        { score: 8, description: 'Clear claim and a logical order of points' },
+        { score: 10, description: 'Crisp, well signposted and easy to follow throughout' },
+      ],
+    },
+    {
+      id: 'logic',
+      name: 'Logic',
+      description: 'How sound is the logical reasoning?',
+      weight: 0.3,
+      levels: [
+        { score: 2, description: 'Conclusions do not follow from the premises' },
+        { score: 5, description: 'Mostly sound, with gaps or unstated assumptions' },
+        { score: 8, description: 'Sound reasoning that anticipates obvious objections' },
+        { score: 10, description: 'Rigorous, with every step justified' },
+      ],
+    },
+    {
+      id: 'evidence',
+      name: 'Evidence',
+      description: 'How well-supported is the argument with evidence?',
+      weight: 0.25,
+      levels: [
+        { score: 2, description: 'Assertions only' },
+        { score: 5, description: 'Some examples or general references' },
+        { score: 8, description: 'Specific, relevant evidence for the main claims' },
+        { score: 10, description: 'Strong, well-sourced evidence for every claim' },
+      ],
+    },
+    {
+      id: 'relevance',
+      name: 'Relevance',
+      description: 'How relevant is the argument to the topic?',
+      weight: 0.2,
+      levels: [
+        { score: 2, description: 'Mostly off-topic' },
+        { score: 5, description: 'On topic but drifts' },
+        { score: 8, description: 'Focused on the motion' },
+        { score: 10, description: 'Directly addresses the heart of the motion' },
+      ],
+    },
+  ],
+};
+
+/**
+ * Validate a rubric definition, throwing an error that lists every problem
+ */
+export function parseRubric(raw: unknown, source: string = 'rubric'): Rubric {
+  const parsed = rubricSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`);
+    throw new Error(`Invalid ${source}: ${problems.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load and validate a rubric from a .json, .yaml or .yml file
+ */
+export async function loadRubricFile(path: string): Promise<Rubric> {
+  const extension = extname(path).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new Error(`Rubric ${path} must be a .json, .yaml or .yml file`);
+  }
+
+  const text = await fs.readFile(path, 'utf-8');
+  let raw: unknown;
+  try {
+    raw = extension === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Rubric ${path} could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseRubric(raw, `rubric ${path}`);
+}
+
+/**
+ * Load every rubric file in a directory, plus the default rubric. A missing directory just gives
+ * the default; a file may replace the default by using its ID. Rubric IDs must be unique.
+ */
+export async function loadRubrics(dir: string): Promise<Rubric[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter(file => ['.json', '.yaml', '.yml'].includes(extname(file).toLowerCase())).sort();
+  } catch (error) {
+    if (hasErrorCode(error, 'ENOENT')) {
+      return [DEFAULT_RUBRIC];
+    }
+    throw error;
+  }
+
+  const rubrics: Rubric[] = [];
+  for (const file of files) {
+    const rubric = await loadRubricFile(join(dir, file));
+    if (rubrics.some(other => other.id === rubric.id)) {
+      throw new Error(`Rubric ${rubric.id} is defined more than once in ${dir}`);
+    }
+    rubrics.push(rubric);
+  }
+
+  return rubrics.some(rubric => rubric.id === DEFAULT_RUBRIC.id) ? rubrics : [DEFAULT_RUBRIC, ...rubrics];
+}
+
+/**
+ * Format a criterion weight as a percentage, e.g. 0.25 → "25%"
+ */
+export function formatWeight(weight: number): string {
+  return `${Math.round(weight * 1000) / 10}%`;
+}
@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { type DebateSession, type DebateResult, type Participant } from '../debateStore.js';
+import { writeFileAtomic } from './fileSafety.js';
+import { CURRENT_SCHEMA_VERSION, runMigrations } from './migrations.js';
+
+/**
+ * Marker identifying a file as a debate bundle
+ */
+export const BUNDLE_FORMAT = 'debate-referee-bundle';
+
+/**
+ * Self-describing export of one or more sessions with everything needed to judge or review them elsewhere
+ */
+export interface DebateBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  sessions: DebateSession[];
+  participants: Participant[];
+  results: DebateResult[];
+}
+
+/**
+ * How to handle a bundled session whose ID already exists in the store
+ */
+export type SessionConflictMode = 'skip' | 'rename';
+
+/**
+ * Options for importing a bundle
+ */
+export interface BundleImportOptions {
+  /** Keep the existing session ("skip", default) or import the bundled one under a new ID ("rename") */
+  onSessionConflict?: SessionConflictMode;
+}
+
+/**
+ * Summary of a bundle import
+ */
+export interface BundleImportReport {
+  sessionsImported: string[];
+  sessionsSkipped: string[];
+  participantsImported: number;
+  /** Bundled participants that matched an existing registry entry by ID or display name */
+  participantsMatched: number;
+  resultsImported: number;
+  /** Bundled ID → ID it was stored under, for every record that had to be renamed */
+  renamedIds: Record<string, string>;
+}
+
+const id = z.string().min(1);
+const idMap = <T extends z.ZodTypeAny>(value: T) => z.record(id, value);
+const participantResult = z.object({
+  userName: z.string(),
+  scores: z.record(z.number()),
+  finalScore: z.number(),
+  reasoning: z.string(),
+}).passthrough();
+const winner = z.object({ userId: id, userName: z.string(), finalScore: z.number() }).passthrough().nullable();
+
+// Records are checked for everything an import reads or rewrites; other fields pass through untouched
+const participantSchema = z.object({
+  id,
+  displayName: z.string().trim().min(1),
+  createdAt: z.number(),
+}).passthrough();
+
+const sessionSchema = z.object({
+  id,
+  topic: z.string(),
+  createdAt: z.number(),
+  state: z.enum(['draft', 'open', 'closed', 'judged', 'archived']),
+  stateChangedAt: z.number(),
+  officialRunId: id.optional(),
+  arguments: z.array(z.object({
+    id,
+    participantId: id,
+    text: z.string(),
+    revision: z.number().int(),
+    history: z.array(z.object({ editedBy: z.string() }).passthrough()),
+    replyTo: id.optional(),
+  }).passthrough()),
+  sideAssignments: idMap(id).optional(),
+  rules: z.object({ speakingOrder: z.array(id).optional() }).passthrough().optional(),
+}).passthrough();
+
+const resultSchema = z.object({
+  runId: id,
+  revision: z.number().int().min(1),
+  sessionId: id,
+  results: idMap(participantResult),
+  winner,
+  arguments: idMap(z.object({ participantId: id }).passthrough()).optional(),
+  sides: z.record(z.object({ participantIds: z.array(id) }).passthrough()).optional(),
+  pairwise: z.object({
+    comparisons: z.array(z.object({ first: id, second: id, verdicts: z.record(id.nullable()) }).passthrough()),
+    ranking: z.array(z.object({ userId: id }).passthrough()),
+    winProbabilities: idMap(idMap(z.number())),
+  }).passthrough().optional(),
+  provenance: z.object({ speakerLabels: idMap(z.string()).optional() }).passthrough().optional(),
+  orderBias: z.object({
+    orderings: z.array(z.object({ judgeId: z.string(), order: z.array(id) }).passthrough()),
+    participants: idMap(z.object({}).passthrough()),
+  }).passthrough().optional(),
+  panel: z.object({
+    ballots: z.array(z.object({ arguments: idMap(z.object({}).passthrough()) }).passthrough()),
+    agreement: z.object({ participants: idMap(z.object({}).passthrough()) }).passthrough(),
+  }).passthrough().optional(),
+  rounds: z.record(z.object({ results: idMap(participantResult), winner }).passthrough()).optional(),
+}).passthrough();
+
+const recordsSchema = z.object({
+  sessions: z.array(sessionSchema),
+  participants: z.array(participantSchema),
+  results: z.array(resultSchema),
+});
+
+/**
+ * Check a parsed bundle file and upgrade it to the current schema. Bundles from newer builds are
+ * refused, and so are bundles with any malformed record, before anything is imported.
+ */
+export function parseBundle(raw: unknown): DebateBundle {
+  if (!raw || typeof raw !== 'object' || (raw as DebateBundle).format !== BUNDLE_FORMAT) {
+    throw new Error('Not a debate bundle');
+  }
+
+  const bundle = raw as DebateBundle;
+  if (!Number.isInteger(bundle.schemaVersion) || bundle.schemaVersion < 1) {
+    throw new Error('Bundle has no valid schema version');
+  }
+  if (bundle.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Bundle is at schema version ${bundle.schemaVersion}, newer than supported ${CURRENT_SCHEMA_VERSION}; upgrade debateref first`);
+  }
+  for (const kind of ['sessions', 'participants', 'results'] as const) {
+    if (!Array.isArray(bundle[kind])) {
+      throw new Error(`Bundle is missing its ${kind} list`);
+    }
+  }
+
+  for (const kind of ['sessions', 'participants', 'results'] as const) {
+    const index = bundle[kind].findIndex(record => !record || typeof record !== 'object' || Array.isArray(record));
+    if (index >= 0) {
+      throw new Error(`Invalid bundle: ${kind}.${index}: Expected object`);
+    }
+  }
+
+  let snapshot: ReturnType<typeof runMigrations>['snapshot'];
+  try {
+    ({ snapshot } = runMigrations(
+      { sessions: bundle.sessions, results: bundle.results, participants: bundle.participants },
+      bundle.schemaVersion
+    ));
+  } catch (error) {
+    throw new Error(`Invalid bundle: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const parsed = recordsSchema.safeParse(snapshot);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid bundle: ${problems.join('; ')}`);
+  }
+  return { ...bundle, schemaVersion: CURRENT_SCHEMA_VERSION, ...snapshot };
+}
+
+/**
+ * Write a bundle to a file
+ */
+export async function writeBundleFile(file: string, bundle: DebateBundle): Promise<void> {
+  await writeFileAtomic(file, JSON.stringify(bundle, null, 2));
+}
+
+/**
+ * Read and validate a bundle file
+ */
+export async function readBundleFile(file: string): Promise<DebateBundle> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read bundle ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseBundle(raw);
+}
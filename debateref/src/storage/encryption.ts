@@ -0,0 +1,148 @@
+import { promises as fs } from 'fs';
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, scryptSync } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * Sealed form of an encrypted file or journal line
+ */
+export interface EncryptedEnvelope {
+  encrypted: typeof ALGORITHM;
+  kdf: 'scrypt';
+  /**
+   * Short fingerprint of the derived key (an HMAC under it, so it reveals nothing about the
+   * passphrase), to tell "wrong key" apart from "corrupt data"
+   */
+  keyId: string;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Encryption settings read from the environment
+ */
+export interface EncryptionConfig {
+  passphrase?: string;
+  keyFile?: string;
+}
+
+/**
+ * Check whether parsed JSON is an encrypted envelope rather than plain data
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  return typeof value === 'object' && value !== null && (value as EncryptedEnvelope).encrypted === ALGORITHM;
+}
+
+/**
+ * AES-256-GCM encryption of store data with a key derived (scrypt) from a passphrase or key file
+ */
+export class DataCipher {
+  private readonly secret: Buffer;
+  private readonly derivedKeys = new Map<string, Buffer>();
+  // One salt per cipher instance, so writes reuse a single derived key
+  private readonly writeSalt = randomBytes(SALT_LENGTH).toString('base64');
+
+  constructor(secret: string | Buffer) {
+    this.secret = Buffer.isBuffer(secret) ? secret : Buffer.from(secret, 'utf-8');
+    if (this.secret.length === 0) {
+      throw new Error('Encryption passphrase or key file must not be empty');
+    }
+  }
+
+  /**
+   * Build a cipher from a passphrase or a key file; a key file wins when both are given
+   */
+  static async fromConfig(config: EncryptionConfig): Promise<DataCipher | null> {
+    if (config.keyFile) {
+      try {
+        return new DataCipher(await fs.readFile(config.keyFile));
+      } catch (error) {
+        throw new Error(`Failed to read encryption key file ${config.keyFile}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return config.passphrase ? new DataCipher(config.passphrase) : null;
+  }
+
+  /**
+   * Encrypt a string into an envelope
+   */
+  seal(plaintext: string): EncryptedEnvelope {
+    const key = this.keyFor(this.writeSalt);
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    return {
+      encrypted: ALGORITHM,
+      kdf: 'scrypt',
+      keyId: fingerprint(key),
+      salt: this.writeSalt,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  /**
+   * Decrypt an envelope back to the original string
+   */
+  open(envelope: EncryptedEnvelope): string {
+    const key = this.keyFor(envelope.salt);
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      if (envelope.keyId !== fingerprint(key)) {
+        throw new Error('Data is encrypted with a different key');
+      }
+      throw new Error('Encrypted data failed its integrity check; it is corrupt or was tampered with');
+    }
+  }
+
+  /**
+   * Derive (and cache) the key for a salt
+   */
+  private keyFor(salt: string): Buffer {
+    let key = this.derivedKeys.get(salt);
+    if (!key) {
+      key = scryptSync(this.secret, Buffer.from(salt, 'base64'), KEY_LENGTH);
+      this.derivedKeys.set(salt, key);
+    }
+    return key;
+  }
+}
+
+/**
+ * Short, non-reversible fingerprint of a derived key
+ */
+function fingerprint(key: Buffer): string {
+  return createHmac('sha256', key).update('key-id').digest('hex').slice(0, 12);
+}
+
+/**
+ * Turn parsed file contents into plain data: envelopes are decrypted, plain JSON passes through
+ * (so a directory can be encrypted gradually). Encrypted data without a key is refused.
+ */
+export function unsealJson(raw: unknown, cipher: DataCipher | null, source: string): unknown {
+  if (!isEncryptedEnvelope(raw)) {
+    return raw;
+  }
+  if (!cipher) {
+    throw new Error(`${source} is encrypted; set DEBATE_ENCRYPTION_PASSPHRASE or DEBATE_ENCRYPTION_KEY_FILE`);
+  }
+  return JSON.parse(cipher.open(raw));
+}
+
+/**
+ * Serialize data for writing, sealing it when a cipher is configured
+ */
+export function sealJson(data: unknown, cipher: DataCipher | null): string {
+  const json = JSON.stringify(data, null, 2);
+  return cipher ? JSON.stringify(cipher.seal(json), null, 2) : json;
+}
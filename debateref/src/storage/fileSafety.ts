@@ -0,0 +1,251 @@
+import { logger } from '@elizaos/core';
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+
+/**
+ * Options for the advisory directory lock
+ */
+export interface FileLockOptions {
+  /** How long to keep retrying before giving up, in milliseconds */
+  timeoutMs?: number;
+  /** Age after which a lock left behind by a crashed process is taken over, in milliseconds */
+  staleMs?: number;
+  /** Delay between attempts, in milliseconds */
+  retryDelayMs?: number;
+}
+
+/**
+ * Check whether an error is a Node.js filesystem error with the given code
+ */
+export function hasErrorCode(error: unknown, code: string): boolean {
+  return error instanceof Error && 'code' in error && error.code === code;
+}
+
+/**
+ * Path of the last known good copy kept next to a data file
+ */
+export function backupPath(file: string): string {
+  return `${file}.bak`;
+}
+
+/**
+ * Write contents to a new temporary sibling of a file and flush it to disk, returning its path.
+ * The caller renames it into place or removes it.
+ */
+export async function writeTempFile(file: string, contents: string): Promise<string> {
+  const tempFile = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+
+  try {
+    const handle = await fs.open(tempFile, 'w');
+    try {
+      await handle.writeFile(contents, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    await fs.rm(tempFile, { force: true });
+    throw error;
+  }
+  return tempFile;
+}
+
+/**
+ * Write a file by writing a temporary sibling and renaming it over the target.
+ * The previous contents are kept as the last good copy before being replaced.
+ */
+export async function writeFileAtomic(file: string, contents: string): Promise<void> {
+  const tempFile = await writeTempFile(file, contents);
+
+  try {
+    await preserveLastGoodCopy(file);
+    await fs.rename(tempFile, file);
+  } catch (error) {
+    await fs.rm(tempFile, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Read and parse a JSON file, falling back to its last good copy when the primary is corrupt.
+ * Returns the fallback value when neither file exists.
+ */
+export async function readJsonWithRecovery<T>(file: string, fallback: T): Promise<T> {
+  let primaryError: unknown;
+
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error) {
+    if (!(error instanceof SyntaxError) && !hasErrorCode(error, 'ENOENT')) {
+      throw error;
+    }
+    primaryError = error;
+  }
+
+  try {
+    const recovered = JSON.parse(await fs.readFile(backupPath(file), 'utf-8'));
+    logger.warn(`Recovered ${file} from last good copy: ${primaryError instanceof Error ? primaryError.message : String(primaryError)}`);
+    return recovered;
+  } catch (error) {
+    if (hasErrorCode(primaryError, 'ENOENT') && hasErrorCode(error, 'ENOENT')) {
+      return fallback;
+    }
+    throw primaryError;
+  }
+}
+
+/**
+ * Hold an advisory lock file while running the given function.
+ * Other processes using the same lock path wait until it is released. The lock records a token
+ * unique to this holder, and only a lock still carrying that token is removed on release.
+ */
+export async function withFileLock<T>(lockFile: string, fn: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const { timeoutMs = 10000, staleMs = 30000, retryDelayMs = 25 } = options;
+  const deadline = Date.now() + timeoutMs;
+  const token = randomBytes(8).toString('hex');
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockFile, 'wx');
+      try {
+        await handle.writeFile(JSON.stringify({ pid: process.pid, acquiredAt: Date.now(), token }));
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if (!hasErrorCode(error, 'EEXIST')) {
+        throw error;
+      }
+
+      const stale = await readStaleLock(lockFile, staleMs);
+      if (stale !== null && await takeOverStaleLock(lockFile, stale)) {
+        logger.warn(`Removed stale lock ${lockFile}`);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for lock ${lockFile}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs + Math.random() * retryDelayMs));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await releaseLock(lockFile, token);
+  }
+}
+
+/**
+ * Remove this holder's lock, unless a waiter judged it stale and it now belongs to someone else.
+ * A copy a waiter had to set aside (see takeOverStaleLock) is removed as well.
+ */
+async function releaseLock(lockFile: string, token: string): Promise<void> {
+  const current = await fs.readFile(lockFile, 'utf-8').catch(() => null);
+  if (lockToken(current) === token) {
+    await fs.rm(lockFile, { force: true });
+  }
+  await fs.rm(heldLockPath(lockFile, token), { force: true });
+}
+
+/**
+ * Token recorded in a lock file's contents, if it has one
+ */
+function lockToken(contents: string | null): string | null {
+  try {
+    const token = JSON.parse(contents ?? '').token;
+    return typeof token === 'string' ? token : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where a live lock is kept when a waiter moved it aside and could not put it back
+ */
+function heldLockPath(lockFile: string, token: string): string {
+  return `${lockFile}.${token}.held`;
+}
+
+/**
+ * Copy the current file to its backup slot, but only when it still parses
+ */
+async function preserveLastGoodCopy(file: string): Promise<void> {
+  let current: string;
+  try {
+    current = await fs.readFile(file, 'utf-8');
+    JSON.parse(current);
+  } catch {
+    return;
+  }
+
+  const tempBackup = `${backupPath(file)}.${process.pid}.tmp`;
+  await fs.writeFile(tempBackup, current, 'utf-8');
+  await fs.rename(tempBackup, backupPath(file));
+}
+
+/**
+ * Read a lock file's contents if it is older than the stale threshold, going by its recorded
+ * acquiredAt (or its modification time when it was left half-written); null when it is fresh
+ */
+async function readStaleLock(lockFile: string, staleMs: number): Promise<string | null> {
+  try {
+    const contents = await fs.readFile(lockFile, 'utf-8');
+    let acquiredAt: number;
+    try {
+      acquiredAt = Number(JSON.parse(contents).acquiredAt);
+    } catch {
+      acquiredAt = NaN;
+    }
+    if (!Number.isFinite(acquiredAt)) {
+      acquiredAt = (await fs.stat(lockFile)).mtimeMs;
+    }
+    return Date.now() - acquiredAt > staleMs ? contents : null;
+  } catch {
+    // Lock disappeared between attempts; retry rather than removing a lock someone else just took
+    return null;
+  }
+}
+
+/**
+ * Remove a stale lock atomically: move it aside under a unique name, then check that what was moved
+ * is still the stale lock. When another waiter took it over first and a fresh lock was moved
+ * instead, put that lock back, or, if the path has been locked again meanwhile, keep it where its
+ * holder removes it on release. A fresh lock is never deleted. Returns whether the stale lock was removed.
+ */
+async function takeOverStaleLock(lockFile: string, staleContents: string): Promise<boolean> {
+  const aside = `${lockFile}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
+  try {
+    await fs.rename(lockFile, aside);
+  } catch (error) {
+    if (hasErrorCode(error, 'ENOENT')) {
+      return false;
+    }
+    throw error;
+  }
+
+  const moved = await fs.readFile(aside, 'utf-8').catch(() => null);
+  if (moved === staleContents) {
+    await fs.rm(aside, { force: true });
+    return true;
+  }
+
+  // Not the lock we judged stale: restore it, or hand it back to its holder if the path is taken again
+  try {
+    await fs.link(aside, lockFile);
+    await fs.rm(aside, { force: true });
+  } catch (error) {
+    if (!hasErrorCode(error, 'EEXIST')) {
+      throw error;
+    }
+    // Read it again: a lock moved aside just after it was created may have been empty the first time
+    const token = lockToken(await fs.readFile(aside, 'utf-8').catch(() => null));
+    if (token !== null) {
+      await fs.rename(aside, heldLockPath(lockFile, token));
+    }
+  }
+  return false;
+}
@@ -0,0 +1,256 @@
+import { SESSION_TRANSITIONS } from '../debateStore.js';
+import { type IdPrefix } from '../clock.js';
+import { type StoreContents } from './storageBackend.js';
+import { type CollectionKind } from './migrations.js';
+import { DEFAULT_RUBRIC } from '../rubric.js';
+
+/**
+ * Kinds of problem the integrity check looks for
+ */
+export type IntegrityIssueCode =
+  | 'malformed_record'
+  | 'duplicate_id'
+  | 'orphaned_result'
+  | 'missing_official_run'
+  | 'unknown_participant'
+  | 'topic_drift'
+  | 'dangling_reply'
+  | 'score_out_of_range';
+
+/**
+ * One problem found in the stored data
+ */
+export interface IntegrityIssue {
+  code: IntegrityIssueCode;
+  collection: CollectionKind;
+  recordId: string;
+  message: string;
+  /** Whether repair mode knows a safe fix */
+  repairable: boolean;
+  /** Set when repair mode fixed the issue */
+  repaired?: boolean;
+}
+
+/**
+ * Result of checking (and optionally repairing) a store
+ */
+export interface IntegrityReport {
+  checkedAt: number;
+  counts: Record<CollectionKind, number>;
+  issues: IntegrityIssue[];
+  repaired: number;
+}
+
+/**
+ * Check store contents for problems. When a repair ID generator is given, repairable problems are
+ * fixed in place: orphaned results are dropped, duplicate session, argument and run IDs are renamed,
+ * drifted argument topics are reset, scores are clamped to 0-10, and dangling official runs and
+ * reply-to links are cleared.
+ */
+export function inspectContents(contents: StoreContents, repair?: (prefix: IdPrefix) => string): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const report = (issue: Omit<IntegrityIssue, 'repaired'>, fix?: () => void) => {
+    if (repair && issue.repairable && fix) {
+      fix();
+      issues.push({ ...issue, repaired: true });
+    } else {
+      issues.push(issue);
+    }
+  };
+
+  const participantIds = new Set<string>();
+  contents.participants.forEach((participant: any, index) => {
+    if (!isObject(participant) || typeof participant.id !== 'string' || typeof participant.displayName !== 'string') {
+      report({ code: 'malformed_record', collection: 'participants', recordId: recordLabel(participant, index), message: 'Participant is missing its id or displayName', repairable: false });
+      return;
+    }
+    if (participantIds.has(participant.id)) {
+      report({ code: 'duplicate_id', collection: 'participants', recordId: participant.id, message: `Participant ID ${participant.id} is used more than once`, repairable: false });
+    }
+    participantIds.add(participant.id);
+  });
+
+  const sessionIds = new Set<string>();
+  const argumentIds = new Set<string>();
+  const wellFormedSessions = contents.sessions.filter((session: any, index) => {
+    if (
+      !isObject(session) ||
+      typeof session.id !== 'string' ||
+      typeof session.topic !== 'string' ||
+      !Array.isArray(session.arguments) ||
+      !(session.state in SESSION_TRANSITIONS)
+    ) {
+      report({ code: 'malformed_record', collection: 'sessions', recordId: recordLabel(session, index), message: 'Session is missing its id, topic, arguments or a valid state', repairable: false });
+      return false;
+    }
+    return true;
+  });
+
+  for (const session of wellFormedSessions) {
+    if (sessionIds.has(session.id)) {
+      const original = session.id;
+      report(
+        { code: 'duplicate_id', collection: 'sessions', recordId: original, message: `Session ID ${original} is used more than once; results stay with the first`, repairable: true },
+        () => { session.id = repair!('debate'); delete session.officialRunId; }
+      );
+    }
+    sessionIds.add(session.id);
+
+    const sessionArgumentIds = new Set(session.arguments.map((argument: any) => argument?.id));
+    session.arguments.forEach((argument: any, index) => {
+      if (!isObject(argument) || typeof argument.id !== 'string' || typeof argument.participantId !== 'string' || typeof argument.text !== 'string') {
+        report({ code: 'malformed_record', collection: 'sessions', recordId: `${session.id} argument ${recordLabel(argument, index)}`, message: 'Argument is missing its id, participantId or text', repairable: false });
+        return;
+      }
+
+      if (argumentIds.has(argument.id)) {
+        const original = argument.id;
+        report(
+          { code: 'duplicate_id', collection: 'sessions', recordId: original, message: `Argument ID ${original} is used more than once`, repairable: true },
+          () => { argument.id = repair!('arg'); }
+        );
+      }
+      argumentIds.add(argument.id);
+
+      if (argument.topic !== session.topic) {
+        report(
+          { code: 'topic_drift', collection: 'sessions', recordId: argument.id, message: `Argument topic "${argument.topic}" differs from session topic "${session.topic}"`, repairable: true },
+          () => { argument.topic = session.topic; }
+        );
+      }
+
+      if (argument.replyTo !== undefined && (argument.replyTo === argument.id || !sessionArgumentIds.has(argument.replyTo))) {
+        report(
+          { code: 'dangling_reply', collection: 'sessions', recordId: argument.id, message: `Argument replies to ${argument.replyTo}, which is not another argument in its session`, repairable: true },
+          () => { delete argument.replyTo; }
+        );
+      }
+
+      if (!participantIds.has(argument.participantId)) {
+        report({ code: 'unknown_participant', collection: 'sessions', recordId: argument.id, message: `Argument author ${argument.participantId} is not a registered participant`, repairable: false });
+      }
+    });
+  }
+
+  const runIds = new Set<string>();
+  const orphaned = new Set<unknown>();
+  contents.results.forEach((result: any, index) => {
+    if (!isObject(result) || typeof result.runId !== 'string' || typeof result.sessionId !== 'string' || !isObject(result.results)) {
+      report({ code: 'malformed_record', collection: 'results', recordId: recordLabel(result, index, 'runId'), message: 'Result is missing its runId, sessionId or scores', repairable: false });
+      return;
+    }
+
+    if (runIds.has(result.runId)) {
+      const original = result.runId;
+      report(
+        { code: 'duplicate_id', collection: 'results', recordId: original, message: `Run ID ${original} is used more than once`, repairable: true },
+        () => { result.runId = repair!('run'); }
+      );
+    }
+    runIds.add(result.runId);
+
+    if (!sessionIds.has(result.sessionId)) {
+      report(
+        { code: 'orphaned_result', collection: 'results', recordId: result.runId, message: `Result belongs to session ${result.sessionId}, which does not exist`, repairable: true },
+        () => orphaned.add(result)
+      );
+      return;
+    }
+
+    const checkScore = (holder: Record<string, any>, field: string, label: string) => {
+      if (!isValidScore(holder[field])) {
+        report(
+          { code: 'score_out_of_range', collection: 'results', recordId: result.runId, message: `${label} is ${String(holder[field])}, expected 0-10`, repairable: true },
+          () => { holder[field] = clampScore(holder[field]); }
+        );
+      }
+    };
+
+    // Scores are checked for every criterion of the rubric the run was scored with
+    const criteria: string[] = isObject(result.rubric) && Array.isArray(result.rubric.criteria)
+      ? result.rubric.criteria.map((criterion: any) => String(criterion?.id))
+      : DEFAULT_RUBRIC.criteria.map(criterion => criterion.id);
+
+    for (const [participantId, entry] of Object.entries<any>(result.results)) {
+      if (!isObject(entry) || !isObject(entry.scores)) {
+        report({ code: 'malformed_record', collection: 'results', recordId: result.runId, message: `Scores for ${participantId} are missing`, repairable: false });
+        continue;
+      }
+      for (const criterion of criteria) {
+        checkScore(entry.scores, criterion, `${criterion} for ${participantId}`);
+      }
+      checkScore(entry, 'finalScore', `Final score for ${participantId}`);
+    }
+    for (const [argumentId, entry] of Object.entries<any>(isObject(result.arguments) ? result.arguments : {})) {
+      if (!isObject(entry) || !isObject(entry.scores)) {
+        report({ code: 'malformed_record', collection: 'results', recordId: result.runId, message: `Scores for argument ${argumentId} are missing`, repairable: false });
+        continue;
+      }
+      for (const criterion of criteria) {
+        checkScore(entry.scores, criterion, `${criterion} for argument ${argumentId}`);
+      }
+      checkScore(entry, 'finalScore', `Final score for argument ${argumentId}`);
+    }
+    for (const ballot of isObject(result.panel) && Array.isArray(result.panel.ballots) ? result.panel.ballots : []) {
+      for (const [argumentId, entry] of Object.entries<any>(isObject(ballot?.arguments) ? ballot.arguments : {})) {
+        if (isObject(entry?.scores)) {
+          for (const criterion of criteria) {
+            checkScore(entry.scores, criterion, `${criterion} for argument ${argumentId} on ${ballot.judgeId}'s ballot`);
+          }
+        }
+      }
+    }
+    if (isObject(result.winner)) {
+      checkScore(result.winner, 'finalScore', 'Winner score');
+    }
+    for (const [sideId, side] of Object.entries<any>(isObject(result.sides) ? result.sides : {})) {
+      if (isObject(side)) {
+        checkScore(side, 'finalScore', `Side score for ${sideId}`);
+      }
+    }
+    if (isObject(result.winningSide)) {
+      checkScore(result.winningSide, 'finalScore', 'Winning side score');
+    }
+    for (const [roundId, round] of Object.entries<any>(isObject(result.rounds) ? result.rounds : {})) {
+      for (const [participantId, entry] of Object.entries<any>(isObject(round?.results) ? round.results : {})) {
+        if (isObject(entry)) {
+          checkScore(entry, 'finalScore', `Round ${roundId} score for ${participantId}`);
+        }
+      }
+    }
+  });
+
+  if (orphaned.size > 0) {
+    contents.results = contents.results.filter(result => !orphaned.has(result));
+  }
+
+  for (const session of wellFormedSessions) {
+    if (session.officialRunId && !contents.results.some(result => result.runId === session.officialRunId && result.sessionId === session.id)) {
+      report(
+        { code: 'missing_official_run', collection: 'sessions', recordId: session.id, message: `Official run ${session.officialRunId} does not exist`, repairable: true },
+        () => { delete session.officialRunId; }
+      );
+    }
+  }
+
+  return issues;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Identify a record in a report even when its ID is missing
+ */
+function recordLabel(record: unknown, index: number, idField: string = 'id'): string {
+  return isObject(record) && typeof record[idField] === 'string' ? record[idField] : `#${index + 1}`;
+}
+
+function isValidScore(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 10;
+}
+
+function clampScore(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(10, Math.max(0, value)) : 0;
+}
@@ -0,0 +1,136 @@
+import { type DebateSession, type DebateResult, type Participant } from '../debateStore.js';
+
+/**
+ * Kinds of change recorded in the event journal
+ */
+export type DebateEventType =
+  | 'session.created'
+  | 'session.state_changed'
+  | 'session.official_result'
+  | 'session.sides_changed'
+  | 'session.side_assigned'
+  | 'session.rounds_changed'
+  | 'session.round_advanced'
+  | 'session.rules_changed'
+  | 'session.rubric_changed'
+  | 'session.deleted'
+  | 'argument.added'
+  | 'argument.edited'
+  | 'argument.withdrawn'
+  | 'result.recorded'
+  | 'participant.registered'
+  | 'workspace.created'
+  | 'workspace.updated'
+  | 'store.repaired';
+
+/**
+ * One entry in the append-only event journal. Session events carry the session as it was right
+ * after the change, so replay never depends on re-running store logic.
+ */
+export interface DebateEvent {
+  id: string;
+  type: DebateEventType;
+  at: number;
+  sessionId?: string;
+  session?: DebateSession;
+  result?: DebateResult;
+  participant?: Participant;
+  /** Sessions and results a repair changed or added, and the run IDs of results it removed */
+  repairs?: { sessions: DebateSession[]; results: DebateResult[]; removedRuns: string[] };
+  /** What changed, e.g. the argument ID or the state transition */
+  detail?: Record<string, unknown>;
+}
+
+/**
+ * Builds the journal entry for a change from the record as saved. Backends call it and append the
+ * entry while still holding the lock or transaction the change was made under, so the journal
+ * never misses a change that was saved. Returning null records nothing; a change spanning several
+ * records, such as a bundle import, returns one entry per record in order.
+ */
+export type EventBuilder<T> = (saved: T) => DebateEvent | DebateEvent[] | null;
+
+/**
+ * What the store fills in to describe a change; the ID and type are added for it, and `at` defaults to now
+ */
+export type EventFields = Omit<DebateEvent, 'id' | 'type' | 'at'> & { at?: number };
+
+/**
+ * Filters for reading the journal
+ */
+export interface EventQuery {
+  sessionId?: string;
+  /** Only events recorded at or before this timestamp */
+  until?: number;
+}
+
+/**
+ * Store contents rebuilt from the journal
+ */
+export interface ReplayState {
+  at: number;
+  sessions: DebateSession[];
+  results: DebateResult[];
+  participants: Participant[];
+}
+
+/**
+ * The entries an event builder gives for a saved change, if the caller passed one
+ */
+export function buildEvents<T>(saved: T, event?: EventBuilder<T>): DebateEvent[] {
+  const built = event?.(saved) ?? [];
+  return Array.isArray(built) ? built : [built];
+}
+
+/**
+ * Keep the events that match a query, in journal order
+ */
+export function filterEvents(events: DebateEvent[], query: EventQuery = {}): DebateEvent[] {
+  return events.filter(event =>
+    (query.sessionId === undefined || event.sessionId === query.sessionId) &&
+    (query.until === undefined || event.at <= query.until)
+  );
+}
+
+/**
+ * Rebuild sessions, results and participants from journal events, in order
+ */
+export function replayEvents(events: DebateEvent[], at: number): ReplayState {
+  const sessions = new Map<string, DebateSession>();
+  const results = new Map<string, DebateResult>();
+  const participants = new Map<string, Participant>();
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'session.deleted':
+        sessions.delete(event.sessionId!);
+        for (const [runId, result] of results) {
+          if (result.sessionId === event.sessionId) {
+            results.delete(runId);
+          }
+        }
+        break;
+      case 'result.recorded':
+        results.set(event.result!.runId, event.result!);
+        break;
+      case 'participant.registered':
+        participants.set(event.participant!.id, event.participant!);
+        break;
+      case 'store.repaired':
+        event.repairs?.removedRuns.forEach(runId => results.delete(runId));
+        event.repairs?.sessions.forEach(session => sessions.set(session.id, session));
+        event.repairs?.results.forEach(result => results.set(result.runId, result));
+        break;
+      default:
+        if (event.session) {
+          sessions.set(event.session.id, event.session);
+        }
+    }
+  }
+
+  return {
+    at,
+    sessions: [...sessions.values()],
+    results: [...results.values()],
+    participants: [...participants.values()],
+  };
+}
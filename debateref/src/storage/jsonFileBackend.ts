@@ -0,0 +1,519 @@
+import { promises as fs } from 'fs';
+import { join, relative } from 'path';
+import { type DebateSession, type DebateResult, type Participant, type Workspace } from '../debateStore.js';
+import { systemClock, type Clock } from '../clock.js';
+import { type StorageBackend, type StoreContents } from './storageBackend.js';
+import { backupPath, hasErrorCode, readJsonWithRecovery, withFileLock, writeFileAtomic, writeTempFile } from './fileSafety.js';
+import { DataCipher, sealJson, unsealJson, type EncryptionConfig } from './encryption.js';
+import {
+  COLLECTION_KINDS,
+  CURRENT_SCHEMA_VERSION,
+  readVersioned,
+  runMigrations,
+  wrapVersioned,
+  type CollectionKind,
+  type MigrationReport,
+  type StoreSnapshot,
+} from './migrations.js';
+import { buildEvents, filterEvents, type DebateEvent, type EventBuilder, type EventQuery } from './journal.js';
+
+/**
+ * A re-sealed file written beside the one it is about to replace
+ */
+interface StagedFile {
+  file: string;
+  tempFile: string;
+}
+
+/**
+ * JSON file storage backend - Keeps each collection (sessions, results, participants) in its own
+ * JSON file under a data directory. Writes go through a temp file and rename, and every
+ * read-modify-write holds an advisory lock so several CLI instances can share one data directory.
+ * The event journal is an append-only `events.ndjson` file, one event per line. With a cipher,
+ * every file and journal line is written encrypted; plain files are still read. Other workspaces
+ * live in `workspaces/<id>/` subdirectories, listed in `workspaces.json`.
+ */
+export class JsonFileBackend implements StorageBackend {
+  readonly kind = 'json' as const;
+  private readonly dataDir: string;
+  private readonly lockFile: string;
+  private readonly journalFile: string;
+  private readonly workspacesFile: string;
+  /** Files a reencrypt() is renaming into place, present only while it does */
+  private readonly manifestFile: string;
+  private encryption: EncryptionConfig;
+  private cipher: DataCipher | null = null;
+  /** Time source for the updatedAt stamp on data files, normally the store's */
+  private readonly clock: Clock;
+
+  constructor(dataDir: string = './data', options: { encryption?: EncryptionConfig; clock?: Clock } = {}) {
+    this.dataDir = dataDir;
+    this.lockFile = join(dataDir, '.debate.lock');
+    this.journalFile = join(dataDir, 'events.ndjson');
+    this.workspacesFile = join(dataDir, 'workspaces.json');
+    this.manifestFile = join(dataDir, '.reencrypt.json');
+    this.encryption = options.encryption ?? {};
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Whether new data is written encrypted
+   */
+  get encrypted(): boolean {
+    return this.cipher !== null;
+  }
+
+  /**
+   * Initialize the data directory and files
+   */
+  async initialize(): Promise<void> {
+    this.cipher = await DataCipher.fromConfig(this.encryption);
+    await fs.mkdir(this.dataDir, { recursive: true });
+    if (await fileExists(this.manifestFile)) {
+      await withFileLock(this.lockFile, async () => await this.finishReencryption());
+    }
+
+    // Initialize data files if they don't exist, without clobbering one created concurrently
+    for (const kind of COLLECTION_KINDS) {
+      try {
+        await fs.writeFile(this.fileFor(kind), sealJson(wrapVersioned(kind, [], this.clock), this.cipher), { flag: 'wx' });
+      } catch (error) {
+        if (!hasErrorCode(error, 'EEXIST')) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Upgrade outdated data files to the current schema, copying the originals to *.v<N>.backup
+   * first. Each file is migrated from its own version; files already current are left untouched.
+   */
+  async migrate(): Promise<MigrationReport> {
+    return await withFileLock(this.lockFile, async () => {
+      const files = {} as Record<CollectionKind, { version: number; data: any }>;
+      for (const kind of COLLECTION_KINDS) {
+        files[kind] = readVersioned(await this.readFile(this.fileFor(kind)));
+      }
+
+      const fromVersion = Math.min(...COLLECTION_KINDS.map(kind => files[kind].version));
+      const report: MigrationReport = { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied: [], backups: [] };
+
+      if (COLLECTION_KINDS.every(kind => files[kind].version === CURRENT_SCHEMA_VERSION)) {
+        return report;
+      }
+
+      // An empty file, such as one initialize() just created beside older files, has nothing to
+      // protect and takes whatever the migrations produce for it
+      const isEmpty = (kind: CollectionKind) => Array.isArray(files[kind].data) && files[kind].data.length === 0;
+      const snapshot = {} as StoreSnapshot;
+      const versions = {} as Record<CollectionKind, number>;
+      for (const kind of COLLECTION_KINDS) {
+        snapshot[kind] = files[kind].data;
+        versions[kind] = isEmpty(kind) ? fromVersion : files[kind].version;
+      }
+      const migrated = runMigrations(snapshot, versions);
+
+      for (const kind of COLLECTION_KINDS) {
+        if (files[kind].version === CURRENT_SCHEMA_VERSION) {
+          continue;
+        }
+
+        const backup = `${this.fileFor(kind)}.v${files[kind].version}.backup`;
+        try {
+          await writeFileAtomic(backup, await fs.readFile(this.fileFor(kind), 'utf-8'));
+          report.backups.push(backup);
+        } catch (error) {
+          if (!hasErrorCode(error, 'ENOENT')) {
+            throw error;
+          }
+        }
+      }
+
+      for (const kind of COLLECTION_KINDS) {
+        if (versions[kind] !== CURRENT_SCHEMA_VERSION) {
+          await this.saveCollection(kind, migrated.snapshot[kind]);
+        }
+      }
+
+      report.applied = migrated.applied.map(migration => `v${migration.version}: ${migration.description}`);
+      return report;
+    });
+  }
+
+  async listSessions(): Promise<DebateSession[]> {
+    return await this.loadCollection<DebateSession>('sessions');
+  }
+
+  async getSession(sessionId: string): Promise<DebateSession | null> {
+    const sessions = await this.loadCollection<DebateSession>('sessions');
+    return sessions.find(session => session.id === sessionId) || null;
+  }
+
+  async insertSession(session: DebateSession, event?: EventBuilder<DebateSession>): Promise<void> {
+    await withFileLock(this.lockFile, async () => {
+      const sessions = await this.loadCollection<DebateSession>('sessions');
+      sessions.push(session);
+      await this.saveCollection('sessions', sessions);
+      await this.journal(session, event);
+    });
+  }
+
+  async updateSession(sessionId: string, mutate: (session: DebateSession) => void, event?: EventBuilder<DebateSession>): Promise<DebateSession> {
+    return await withFileLock(this.lockFile, async () => {
+      const sessions = await this.loadCollection<DebateSession>('sessions');
+      const session = sessions.find(candidate => candidate.id === sessionId);
+
+      if (!session) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      mutate(session);
+      await this.saveCollection('sessions', sessions);
+      await this.journal(session, event);
+      return session;
+    });
+  }
+
+  async deleteSession(sessionId: string, event?: EventBuilder<number>): Promise<number> {
+    return await withFileLock(this.lockFile, async () => {
+      const sessions = await this.loadCollection<DebateSession>('sessions');
+      const remainingSessions = sessions.filter(session => session.id !== sessionId);
+      if (remainingSessions.length === sessions.length) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      // Drop the results first so a failure never leaves results pointing at a missing session
+      const results = await this.loadCollection<DebateResult>('results');
+      const remainingResults = results.filter(result => result.sessionId !== sessionId);
+      await this.saveCollection('results', remainingResults);
+      await this.saveCollection('sessions', remainingSessions);
+      const removed = results.length - remainingResults.length;
+      await this.journal(removed, event);
+      return removed;
+    });
+  }
+
+  async listResults(sessionId?: string): Promise<DebateResult[]> {
+    const results = await this.loadCollection<DebateResult>('results');
+    return sessionId === undefined ? results : results.filter(result => result.sessionId === sessionId);
+  }
+
+  async insertResult(
+    sessionId: string,
+    build: (existingRuns: DebateResult[]) => DebateResult,
+    event?: EventBuilder<DebateResult>
+  ): Promise<DebateResult> {
+    return await withFileLock(this.lockFile, async () => {
+      const results = await this.loadCollection<DebateResult>('results');
+      const result = build(results.filter(existing => existing.sessionId === sessionId));
+      results.push(result);
+      await this.saveCollection('results', results);
+      await this.journal(result, event);
+      return result;
+    });
+  }
+
+  async listParticipants(): Promise<Participant[]> {
+    return await this.loadCollection<Participant>('participants');
+  }
+
+  async getParticipant(participantId: string): Promise<Participant | null> {
+    const participants = await this.loadCollection<Participant>('participants');
+    return participants.find(participant => participant.id === participantId) || null;
+  }
+
+  async insertParticipant(participant: Participant, validate: (existing: Participant[]) => void, event?: EventBuilder<Participant>): Promise<void> {
+    await withFileLock(this.lockFile, async () => {
+      const participants = await this.loadCollection<Participant>('participants');
+      validate(participants);
+      participants.push(participant);
+      await this.saveCollection('participants', participants);
+      await this.journal(participant, event);
+    });
+  }
+
+  async rewrite(mutate: (contents: StoreContents) => void, event?: EventBuilder<StoreContents>): Promise<void> {
+    await withFileLock(this.lockFile, async () => {
+      const contents: StoreContents = {
+        sessions: await this.loadCollection<DebateSession>('sessions'),
+        results: await this.loadCollection<DebateResult>('results'),
+        participants: await this.loadCollection<Participant>('participants'),
+      };
+      mutate(contents);
+
+      for (const kind of COLLECTION_KINDS) {
+        await this.saveCollection<unknown>(kind, contents[kind]);
+      }
+      await this.journal(contents, event);
+    });
+  }
+
+  async appendEvent(event: DebateEvent): Promise<void> {
+    await withFileLock(this.lockFile, async () => {
+      await this.writeEvent(event);
+    });
+  }
+
+  async listEvents(query: EventQuery = {}): Promise<DebateEvent[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.journalFile, 'utf-8');
+    } catch (error) {
+      if (hasErrorCode(error, 'ENOENT')) {
+        return [];
+      }
+      throw error;
+    }
+
+    const events: DebateEvent[] = [];
+    const lines = contents.split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        events.push(unsealJson(JSON.parse(line), this.cipher, this.journalFile) as DebateEvent);
+      } catch (error) {
+        // A crash mid-append can only leave the last line incomplete; anything earlier is real damage
+        if (index < lines.length - 1 && lines.slice(index + 1).some(rest => rest.trim())) {
+          throw new Error(`Event journal is corrupt at line ${index + 1}`);
+        }
+      }
+    });
+    return filterEvents(events, query);
+  }
+
+  forWorkspace(workspaceId: string): JsonFileBackend {
+    return new JsonFileBackend(this.workspaceDir(workspaceId), { encryption: this.encryption, clock: this.clock });
+  }
+
+  async listWorkspaces(): Promise<Workspace[]> {
+    const workspaces = await this.readFile(this.workspacesFile);
+    return Array.isArray(workspaces) ? workspaces : [];
+  }
+
+  async updateWorkspaces(mutate: (workspaces: Workspace[]) => void, event?: EventBuilder<Workspace[]>): Promise<Workspace[]> {
+    return await withFileLock(this.lockFile, async () => {
+      const workspaces = await this.listWorkspaces();
+      mutate(workspaces);
+      await writeFileAtomic(this.workspacesFile, sealJson(workspaces, this.cipher));
+      await this.journal(workspaces, event);
+      return workspaces;
+    });
+  }
+
+  /**
+   * Rewrite every data file, journal, last good copy and migration backup with a different key
+   * (or in plain text when `to` has no key), then use that key from now on. Other workspaces are
+   * rewritten too. Every file is first written re-sealed beside the one it replaces, and only once
+   * all are on disk are they renamed into place, under a manifest that initialize() uses to finish
+   * the switch after a crash. Returns the rewritten files.
+   */
+  async reencrypt(encryption: EncryptionConfig): Promise<string[]> {
+    const to = await DataCipher.fromConfig(encryption);
+    return await withFileLock(this.lockFile, async () => {
+      const staged: StagedFile[] = [];
+      let rewritten: string[];
+      try {
+        rewritten = await this.stageReencryption(to, staged);
+      } catch (error) {
+        await Promise.all(staged.map(({ tempFile }) => fs.rm(tempFile, { force: true })));
+        throw error;
+      }
+
+      const manifest = staged.map(({ file, tempFile }) => ({ file: relative(this.dataDir, file), tempFile: relative(this.dataDir, tempFile) }));
+      await writeFileAtomic(this.manifestFile, JSON.stringify(manifest));
+      await this.finishReencryption();
+
+      this.cipher = to;
+      this.encryption = encryption;
+      return rewritten;
+    });
+  }
+
+  async close(): Promise<void> {
+    // Files are opened per operation; nothing to release
+  }
+
+  /**
+   * Write every file of this backend and its workspaces re-sealed with `to` to a temp file beside
+   * it. `staged` collects each temp file as it is written, so a caller can remove them on failure.
+   * Returns the files that will be rewritten, not counting their last good copies.
+   */
+  private async stageReencryption(to: DataCipher | null, staged: StagedFile[]): Promise<string[]> {
+    const rewritten: string[] = [];
+    const stage = async (file: string, contents: string) => {
+      staged.push({ file, tempFile: await writeTempFile(file, contents) });
+      rewritten.push(file);
+
+      // Last good copies still hold the old encoding; replace them with the rewritten contents too
+      if (await fileExists(backupPath(file))) {
+        staged.push({ file: backupPath(file), tempFile: await writeTempFile(backupPath(file), contents) });
+      }
+    };
+
+    for (const kind of COLLECTION_KINDS) {
+      await stage(this.fileFor(kind), sealJson(wrapVersioned(kind, await this.loadCollection<unknown>(kind), this.clock), to));
+    }
+
+    const events = await this.listEvents();
+    if (events.length > 0) {
+      await stage(this.journalFile, events.map(event => this.encodeJournalLine(event, to) + '\n').join(''));
+    }
+
+    const workspaces = await this.listWorkspaces();
+    if (workspaces.length > 0) {
+      await stage(this.workspacesFile, sealJson(workspaces, to));
+    }
+
+    // Migration backups are whole data files from an older schema
+    for (const name of await fs.readdir(this.dataDir)) {
+      if (!name.endsWith('.backup')) {
+        continue;
+      }
+      const file = join(this.dataDir, name);
+      await stage(file, sealJson(unsealJson(JSON.parse(await fs.readFile(file, 'utf-8')), this.cipher, file), to));
+    }
+
+    for (const workspace of workspaces) {
+      if (await directoryExists(this.workspaceDir(workspace.id))) {
+        const backend = this.forWorkspace(workspace.id);
+        await backend.initialize();
+        rewritten.push(...await backend.stageReencryption(to, staged));
+      }
+    }
+    return rewritten;
+  }
+
+  /**
+   * Rename the files staged by reencrypt() into place if its manifest is present, then remove the
+   * manifest. Files already renamed before a crash are skipped, so this can run again safely.
+   */
+  private async finishReencryption(): Promise<void> {
+    let manifest: Array<{ file: string; tempFile: string }>;
+    try {
+      manifest = JSON.parse(await fs.readFile(this.manifestFile, 'utf-8'));
+    } catch (error) {
+      if (hasErrorCode(error, 'ENOENT')) {
+        return;
+      }
+      throw error;
+    }
+
+    for (const { file, tempFile } of manifest) {
+      try {
+        await fs.rename(join(this.dataDir, tempFile), join(this.dataDir, file));
+      } catch (error) {
+        if (!hasErrorCode(error, 'ENOENT')) {
+          throw error;
+        }
+      }
+    }
+    await fs.rm(this.manifestFile, { force: true });
+  }
+
+  /**
+   * Read a data file, recovering from its last good copy and decrypting it if needed
+   */
+  private async readFile(file: string): Promise<unknown> {
+    return unsealJson(await readJsonWithRecovery<unknown>(file, null), this.cipher, file);
+  }
+
+  /**
+   * Serialize one journal event as a single line, encrypted when a cipher is configured
+   */
+  private encodeJournalLine(event: DebateEvent, cipher: DataCipher | null = this.cipher): string {
+    return cipher ? JSON.stringify(cipher.seal(JSON.stringify(event))) : JSON.stringify(event);
+  }
+
+  /**
+   * Directory holding a workspace's data files
+   */
+  private workspaceDir(workspaceId: string): string {
+    return join(this.dataDir, 'workspaces', workspaceId);
+  }
+
+  /**
+   * Append the entry for a change just saved, if the caller asked for one. The caller holds the lock.
+   */
+  private async journal<T>(saved: T, event?: EventBuilder<T>): Promise<void> {
+    for (const entry of buildEvents(saved, event)) {
+      await this.writeEvent(entry);
+    }
+  }
+
+  /**
+   * Append one line to the journal and flush it to disk. The caller holds the lock.
+   */
+  private async writeEvent(event: DebateEvent): Promise<void> {
+    const handle = await fs.open(this.journalFile, 'a');
+    try {
+      await handle.appendFile(this.encodeJournalLine(event) + '\n');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Path of the JSON file holding a collection
+   */
+  private fileFor(kind: CollectionKind): string {
+    return join(this.dataDir, `${kind}.json`);
+  }
+
+  /**
+   * Load a collection from its JSON file, recovering from the last good copy if it is corrupt
+   */
+  private async loadCollection<T>(kind: CollectionKind): Promise<T[]> {
+    try {
+      const raw = await this.readFile(this.fileFor(kind));
+      if (raw === null) {
+        return [];
+      }
+
+      const { version, data } = readVersioned(raw);
+      if (version !== CURRENT_SCHEMA_VERSION) {
+        throw new Error(`data is at schema version ${version}, expected ${CURRENT_SCHEMA_VERSION}; run initialize() to migrate`);
+      }
+      return data;
+    } catch (error) {
+      throw new Error(`Failed to load ${kind}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Atomically save a collection to its JSON file
+   */
+  private async saveCollection<T>(kind: CollectionKind, records: T[], cipher: DataCipher | null = this.cipher): Promise<void> {
+    try {
+      await writeFileAtomic(this.fileFor(kind), sealJson(wrapVersioned(kind, records, this.clock), cipher));
+    } catch (error) {
+      throw new Error(`Failed to save ${kind}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+async function fileExists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch (error) {
+    if (hasErrorCode(error, 'ENOENT')) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function directoryExists(dir: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dir)).isDirectory();
+  } catch (error) {
+    if (hasErrorCode(error, 'ENOENT')) {
+      return false;
+    }
+    throw error;
+  }
+}
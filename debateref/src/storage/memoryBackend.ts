@@ -0,0 +1,153 @@
+import { type DebateSession, type DebateResult, type Participant, type Workspace } from '../debateStore.js';
+import { type StorageBackend, type StoreContents } from './storageBackend.js';
+import { CURRENT_SCHEMA_VERSION, type MigrationReport } from './migrations.js';
+import { buildEvents, filterEvents, type DebateEvent, type EventBuilder, type EventQuery } from './journal.js';
+
+/**
+ * In-memory storage backend - Keeps everything in process memory, for tests and demos
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly kind = 'memory' as const;
+  private sessions = new Map<string, DebateSession>();
+  private results: DebateResult[] = [];
+  private participants = new Map<string, Participant>();
+  private events: DebateEvent[] = [];
+  private workspaces: Workspace[] = [];
+  private readonly workspaceBackends = new Map<string, MemoryBackend>();
+
+  async initialize(): Promise<void> {
+    // Nothing to prepare
+  }
+
+  async migrate(): Promise<MigrationReport> {
+    // Memory is always created at the current schema version
+    return { fromVersion: CURRENT_SCHEMA_VERSION, toVersion: CURRENT_SCHEMA_VERSION, applied: [], backups: [] };
+  }
+
+  async listSessions(): Promise<DebateSession[]> {
+    return [...this.sessions.values()].map(session => structuredClone(session));
+  }
+
+  async getSession(sessionId: string): Promise<DebateSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  async insertSession(session: DebateSession, event?: EventBuilder<DebateSession>): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+    this.journal(session, event);
+  }
+
+  async updateSession(sessionId: string, mutate: (session: DebateSession) => void, event?: EventBuilder<DebateSession>): Promise<DebateSession> {
+    const stored = this.sessions.get(sessionId);
+    if (!stored) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const session = structuredClone(stored);
+    mutate(session);
+    this.sessions.set(sessionId, session);
+    this.journal(session, event);
+    return structuredClone(session);
+  }
+
+  async deleteSession(sessionId: string, event?: EventBuilder<number>): Promise<number> {
+    if (!this.sessions.delete(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const remaining = this.results.filter(result => result.sessionId !== sessionId);
+    const removed = this.results.length - remaining.length;
+    this.results = remaining;
+    this.journal(removed, event);
+    return removed;
+  }
+
+  async listResults(sessionId?: string): Promise<DebateResult[]> {
+    return this.results
+      .filter(result => sessionId === undefined || result.sessionId === sessionId)
+      .map(result => structuredClone(result));
+  }
+
+  async insertResult(
+    sessionId: string,
+    build: (existingRuns: DebateResult[]) => DebateResult,
+    event?: EventBuilder<DebateResult>
+  ): Promise<DebateResult> {
+    const result = build(await this.listResults(sessionId));
+    this.results.push(structuredClone(result));
+    this.journal(result, event);
+    return structuredClone(result);
+  }
+
+  async listParticipants(): Promise<Participant[]> {
+    return [...this.participants.values()].map(participant => structuredClone(participant));
+  }
+
+  async getParticipant(participantId: string): Promise<Participant | null> {
+    const participant = this.participants.get(participantId);
+    return participant ? structuredClone(participant) : null;
+  }
+
+  async insertParticipant(participant: Participant, validate: (existing: Participant[]) => void, event?: EventBuilder<Participant>): Promise<void> {
+    validate(await this.listParticipants());
+    this.participants.set(participant.id, structuredClone(participant));
+    this.journal(participant, event);
+  }
+
+  async rewrite(mutate: (contents: StoreContents) => void, event?: EventBuilder<StoreContents>): Promise<void> {
+    const contents: StoreContents = {
+      sessions: await this.listSessions(),
+      results: await this.listResults(),
+      participants: await this.listParticipants(),
+    };
+    mutate(contents);
+
+    this.sessions = new Map(contents.sessions.map(session => [session.id, structuredClone(session)]));
+    this.results = contents.results.map(result => structuredClone(result));
+    this.participants = new Map(contents.participants.map(participant => [participant.id, structuredClone(participant)]));
+    this.journal(contents, event);
+  }
+
+  async appendEvent(event: DebateEvent): Promise<void> {
+    this.events.push(structuredClone(event));
+  }
+
+  async listEvents(query: EventQuery = {}): Promise<DebateEvent[]> {
+    return filterEvents(this.events, query).map(event => structuredClone(event));
+  }
+
+  forWorkspace(workspaceId: string): MemoryBackend {
+    let backend = this.workspaceBackends.get(workspaceId);
+    if (!backend) {
+      backend = new MemoryBackend();
+      this.workspaceBackends.set(workspaceId, backend);
+    }
+    return backend;
+  }
+
+  async listWorkspaces(): Promise<Workspace[]> {
+    return structuredClone(this.workspaces);
+  }
+
+  async updateWorkspaces(mutate: (workspaces: Workspace[]) => void, event?: EventBuilder<Workspace[]>): Promise<Workspace[]> {
+    const workspaces = await this.listWorkspaces();
+    mutate(workspaces);
+    this.workspaces = structuredClone(workspaces);
+    this.journal(workspaces, event);
+    return workspaces;
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  /**
+   * Append the entry for a change just made, if the caller asked for one
+   */
+  private journal<T>(saved: T, event?: EventBuilder<T>): void {
+    for (const entry of buildEvents(saved, event)) {
+      this.events.push(structuredClone(entry));
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { type Clock } from '../clock.js';
+
+/**
+ * Schema version written by this build of the store
+ */
+export const CURRENT_SCHEMA_VERSION = 6;
+
+/**
+ * Record collections kept by every storage backend
+ */
+export type CollectionKind = 'sessions' | 'results' | 'participants';
+
+/**
+ * All collections, in the order they are read and written
+ */
+export const COLLECTION_KINDS: CollectionKind[] = ['sessions', 'results', 'participants'];
+
+/**
+ * Versioned envelope wrapped around every stored data file
+ */
+export interface VersionedFile<T> {
+  schemaVersion: number;
+  kind: CollectionKind;
+  updatedAt: number;
+  data: T;
+}
+
+/**
+ * Raw store contents handed to migrations; records may still be in an older shape
+ */
+export type StoreSnapshot = Record<CollectionKind, any[]>;
+
+/**
+ * A single upgrade step from `version - 1` to `version`
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up(snapshot: StoreSnapshot): StoreSnapshot;
+}
+
+/**
+ * Summary of a migration run
+ */
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  backups: string[];
+}
+
+/**
+ * Ordered list of migrations. Version 1 is the original unversioned flat-array format.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Wrap data files in a versioned envelope and normalize results to an array',
+    up: snapshot => ({
+      ...snapshot,
+      // Early builds overwrote results.json with a single bare result object
+      results: Array.isArray(snapshot.results) ? snapshot.results : [snapshot.results],
+    }),
+  },
+  {
+    version: 3,
+    description: 'Number analysis results as revisions with a run ID',
+    up: snapshot => {
+      const revisions = new Map<string, number>();
+      return {
+        ...snapshot,
+        results: snapshot.results.map(result => {
+          const revision = (revisions.get(result.sessionId) ?? 0) + 1;
+          revisions.set(result.sessionId, revision);
+          return { runId: `run_${result.sessionId}_${revision}`, revision, ...result };
+        }),
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Replace the processedAt flag with an explicit session lifecycle state',
+    up: snapshot => ({
+      ...snapshot,
+      sessions: snapshot.sessions.map(({ processedAt, ...session }) => ({
+        ...session,
+        state: processedAt ? 'judged' : 'open',
+        stateChangedAt: processedAt ?? session.createdAt,
+      })),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Register participants and reference them from arguments by ID',
+    up: snapshot => {
+      const participants = new Map<string, any>(snapshot.participants.map(participant => [participant.id, participant]));
+      const sessions = snapshot.sessions.map(session => ({
+        ...session,
+        arguments: session.arguments.map(({ userId, userName, ...argument }: any) => {
+          // The free-text user ID becomes the participant ID; the first name seen wins. Sessions
+          // already at v5 carry the participant ID themselves.
+          const participantId = userId ?? argument.participantId;
+          if (!participants.has(participantId)) {
+            participants.set(participantId, { id: participantId, displayName: userName || participantId, createdAt: argument.timestamp });
+          }
+          return { ...argument, participantId };
+        }),
+      }));
+      return { ...snapshot, sessions, participants: [...participants.values()] };
+    },
+  },
+  {
+    version: 6,
+    description: 'Start an edit history on every argument',
+    up: snapshot => ({
+      ...snapshot,
+      sessions: snapshot.sessions.map(session => ({
+        ...session,
+        arguments: session.arguments.map((argument: any) => ({
+          ...argument,
+          revision: 1,
+          withdrawn: false,
+          history: [{
+            revision: 1,
+            action: 'submitted',
+            text: argument.text,
+            editedBy: argument.participantId,
+            editedAt: argument.timestamp,
+          }],
+        })),
+      })),
+    }),
+  },
+];
+
+/**
+ * Wrap data in the current versioned envelope, stamped with the store's clock
+ */
+export function wrapVersioned<T>(kind: CollectionKind, data: T, clock: Clock): VersionedFile<T> {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, kind, updatedAt: clock.now(), data };
+}
+
+/**
+ * Work out the schema version and payload of a parsed data file
+ */
+export function readVersioned(raw: unknown): { version: number; data: any } {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw) && 'schemaVersion' in raw) {
+    const file = raw as VersionedFile<unknown>;
+    if (typeof file.schemaVersion !== 'number' || !('data' in file)) {
+      throw new Error('Malformed versioned data file');
+    }
+    return { version: file.schemaVersion, data: file.data };
+  }
+
+  // Unversioned files are the original v1 format
+  return { version: 1, data: raw ?? [] };
+}
+
+/**
+ * Apply every migration newer than the given version. With a version per collection, each
+ * collection only takes the output of migrations newer than its own version, so a collection
+ * already at a later version is never rewritten by an older step.
+ */
+export function runMigrations(
+  snapshot: StoreSnapshot,
+  fromVersion: number | Record<CollectionKind, number>
+): { snapshot: StoreSnapshot; applied: Migration[] } {
+  const versions = typeof fromVersion === 'number'
+    ? Object.fromEntries(COLLECTION_KINDS.map(kind => [kind, fromVersion])) as Record<CollectionKind, number>
+    : fromVersion;
+  const newest = Math.max(...COLLECTION_KINDS.map(kind => versions[kind]));
+  if (newest > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Data schema version ${newest} is newer than supported version ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  const oldest = Math.min(...COLLECTION_KINDS.map(kind => versions[kind]));
+  const pending = migrations
+    .filter(migration => migration.version > oldest)
+    .sort((a, b) => a.version - b.version);
+
+  let current = snapshot;
+  for (const migration of pending) {
+    const next = migration.up(current);
+    current = Object.fromEntries(
+      COLLECTION_KINDS.map(kind => [kind, migration.version > versions[kind] ? next[kind] : current[kind]])
+    ) as StoreSnapshot;
+  }
+
+  return { snapshot: current, applied: pending };
+}
@@ -0,0 +1,528 @@
+import { createHash } from 'crypto';
+import { DEFAULT_WORKSPACE_ID, type DebateSession, type DebateResult, type Participant, type Workspace } from '../debateStore.js';
+import { type StorageBackend, type StoreContents } from './storageBackend.js';
+import { CURRENT_SCHEMA_VERSION, runMigrations, type MigrationReport } from './migrations.js';
+import { buildEvents, type DebateEvent, type EventBuilder, type EventQuery } from './journal.js';
+
+/**
+ * Minimal query surface shared by the PGlite and node-postgres connections plugin-sql hands out
+ */
+interface SqlConnection {
+  query<T = Record<string, unknown>>(text: string, params?: unknown[]): Promise<{ rows: T[] }>;
+}
+
+/**
+ * node-postgres pool (POSTGRES_URL), whose clients must be checked out to hold a transaction
+ */
+interface SqlPool extends SqlConnection {
+  connect(): Promise<SqlConnection & { release(): void }>;
+}
+
+/**
+ * PGlite database (embedded), which serializes a transaction's statements through its own API
+ */
+interface SqlTransactional extends SqlConnection {
+  transaction<T>(work: (tx: SqlConnection) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Minimal surface of the database adapter created by @elizaos/plugin-sql
+ */
+interface SqlAdapter {
+  init(): Promise<void>;
+  getConnection(): Promise<unknown>;
+  close(): Promise<void>;
+}
+
+/**
+ * Options for the SQL storage backend
+ */
+export interface SqlBackendOptions {
+  /** Postgres connection string; when omitted an embedded PGlite database is used */
+  postgresUrl?: string;
+  /** Directory for the embedded PGlite database */
+  dataDir?: string;
+  /** Workspace whose tables to use; the default workspace uses the unprefixed `debate_*` tables */
+  workspace?: string;
+}
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Postgres truncates identifiers at 63 bytes. The longest name built on a workspace prefix is the
+ * "debate_ws_<slug>_participants_v<NN>_backup" table, which leaves room for 29 characters of slug.
+ */
+const MAX_TABLE_SLUG = 29;
+
+/**
+ * SQL storage backend - Stores one row per session and per result through @elizaos/plugin-sql.
+ * Each workspace has its own set of tables in the same database, sharing one connection.
+ */
+export class SqlBackend implements StorageBackend {
+  readonly kind = 'sql' as const;
+  private readonly options: SqlBackendOptions;
+  /** Table name prefix for this backend's workspace */
+  private readonly prefix: string;
+  /** Backend owning the connection, for workspace backends */
+  private readonly owner: SqlBackend | null;
+  private adapter: SqlAdapter | null = null;
+  private connection: SqlConnection | null = null;
+
+  constructor(options: SqlBackendOptions = {}, owner: SqlBackend | null = null) {
+    this.options = options;
+    this.owner = owner;
+    const workspace = options.workspace ?? DEFAULT_WORKSPACE_ID;
+    this.prefix = workspace === DEFAULT_WORKSPACE_ID ? 'debate' : `debate_ws_${tableSlug(workspace)}`;
+  }
+
+  /**
+   * Open the database and create the debate tables
+   */
+  async initialize(): Promise<void> {
+    if (this.owner) {
+      this.connection = this.owner.db();
+    } else {
+      const { stringToUuid } = await import('@elizaos/core');
+      const { createDatabaseAdapter } = await import('@elizaos/plugin-sql');
+
+      this.adapter = createDatabaseAdapter(
+        { dataDir: this.options.dataDir, postgresUrl: this.options.postgresUrl },
+        stringToUuid('debate-referee')
+      ) as unknown as SqlAdapter;
+      await this.adapter.init();
+      this.connection = (await this.adapter.getConnection()) as SqlConnection;
+    }
+
+    await this.db().query(`
+      CREATE TABLE IF NOT EXISTS ${this.prefix}_sessions (
+        id TEXT PRIMARY KEY,
+        created_at BIGINT NOT NULL,
+        version INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      )
+    `);
+    await this.db().query(`
+      CREATE TABLE IF NOT EXISTS ${this.prefix}_results (
+        seq SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        processed_at BIGINT NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+    await this.db().query(`ALTER TABLE ${this.prefix}_results ADD COLUMN IF NOT EXISTS run_id TEXT`);
+    await this.db().query(`ALTER TABLE ${this.prefix}_results ADD COLUMN IF NOT EXISTS revision INTEGER`);
+    await this.db().query(`CREATE INDEX IF NOT EXISTS ${this.prefix}_results_session_idx ON ${this.prefix}_results (session_id)`);
+    await this.db().query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS ${this.prefix}_results_revision_idx ON ${this.prefix}_results (session_id, revision)`
+    );
+    await this.db().query(`
+      CREATE TABLE IF NOT EXISTS ${this.prefix}_participants (
+        id TEXT PRIMARY KEY,
+        created_at BIGINT NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+    await this.db().query(`
+      CREATE TABLE IF NOT EXISTS ${this.prefix}_events (
+        seq SERIAL PRIMARY KEY,
+        id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        session_id TEXT,
+        at BIGINT NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+    await this.db().query(`CREATE INDEX IF NOT EXISTS ${this.prefix}_events_session_idx ON ${this.prefix}_events (session_id)`);
+    await this.db().query(`
+      CREATE TABLE IF NOT EXISTS ${this.prefix}_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+    await this.db().query(`
+      CREATE TABLE IF NOT EXISTS debate_workspaces (
+        id TEXT PRIMARY KEY,
+        created_at BIGINT NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Upgrade stored rows to the current schema, copying both tables to backup tables first
+   */
+  async migrate(): Promise<MigrationReport> {
+    const { rows } = await this.db().query<{ value: string }>(
+      `SELECT value FROM ${this.prefix}_meta WHERE key = 'schema_version'`
+    );
+    const contents = {
+      sessions: await this.listSessions(),
+      results: await this.listResults(),
+      participants: await this.listParticipants(),
+    };
+    const empty = Object.values(contents).every(records => records.length === 0);
+
+    // Databases created before versioning was introduced hold v1 documents; a new, empty one starts current
+    const fromVersion = rows[0] ? Number(rows[0].value) : empty ? CURRENT_SCHEMA_VERSION : 1;
+    const report: MigrationReport = { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied: [], backups: [] };
+
+    if (fromVersion === CURRENT_SCHEMA_VERSION) {
+      if (!rows[0]) {
+        await this.stampSchemaVersion();
+      }
+      return report;
+    }
+
+    const { snapshot, applied } = runMigrations(contents, fromVersion);
+
+    await this.transaction(async tx => {
+      for (const table of [`${this.prefix}_sessions`, `${this.prefix}_results`, `${this.prefix}_participants`]) {
+        const backup = `${table}_v${fromVersion}_backup`;
+        await tx.query(`DROP TABLE IF EXISTS ${backup}`);
+        await tx.query(`CREATE TABLE ${backup} AS SELECT * FROM ${table}`);
+        report.backups.push(backup);
+      }
+
+      await this.replaceContents(tx, snapshot);
+      await this.stampSchemaVersion(tx);
+    });
+
+    report.applied = applied.map(migration => `v${migration.version}: ${migration.description}`);
+    return report;
+  }
+
+  async listSessions(): Promise<DebateSession[]> {
+    const { rows } = await this.db().query<{ data: string }>(
+      `SELECT data FROM ${this.prefix}_sessions ORDER BY created_at, id`
+    );
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async getSession(sessionId: string): Promise<DebateSession | null> {
+    const row = await this.loadSessionRow(sessionId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async insertSession(session: DebateSession, event?: EventBuilder<DebateSession>): Promise<void> {
+    await this.journaled(event, async db => {
+      await this.writeSession(db, session);
+      return session;
+    });
+  }
+
+  /**
+   * Update a single session row, retrying when another writer got there first
+   */
+  async updateSession(sessionId: string, mutate: (session: DebateSession) => void, event?: EventBuilder<DebateSession>): Promise<DebateSession> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const row = await this.loadSessionRow(sessionId);
+      if (!row) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      const session: DebateSession = JSON.parse(row.data);
+      mutate(session);
+
+      const saved = await this.journaled(event, async db => {
+        const { rows } = await db.query(
+          `UPDATE ${this.prefix}_sessions SET data = $1, version = version + 1 WHERE id = $2 AND version = $3 RETURNING id`,
+          [JSON.stringify(session), sessionId, row.version]
+        );
+        return rows.length > 0 ? session : null;
+      });
+      if (saved) {
+        return saved;
+      }
+    }
+
+    throw new Error(`Session ${sessionId} was modified concurrently, please retry`);
+  }
+
+  async deleteSession(sessionId: string, event?: EventBuilder<number>): Promise<number> {
+    return await this.transaction(async tx => {
+      const { rows } = await tx.query(`DELETE FROM ${this.prefix}_sessions WHERE id = $1 RETURNING id`, [sessionId]);
+      if (rows.length === 0) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      const results = await tx.query(`DELETE FROM ${this.prefix}_results WHERE session_id = $1 RETURNING seq`, [sessionId]);
+      await this.appendEntry(tx, results.rows.length, event);
+      return results.rows.length;
+    });
+  }
+
+  async listResults(sessionId?: string): Promise<DebateResult[]> {
+    const { rows } = sessionId === undefined
+      ? await this.db().query<{ data: string }>(`SELECT data FROM ${this.prefix}_results ORDER BY seq`)
+      : await this.db().query<{ data: string }>(
+          `SELECT data FROM ${this.prefix}_results WHERE session_id = $1 ORDER BY seq`,
+          [sessionId]
+        );
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Insert an analysis run, retrying when a concurrent writer claimed the same revision
+   */
+  async insertResult(
+    sessionId: string,
+    build: (existingRuns: DebateResult[]) => DebateResult,
+    event?: EventBuilder<DebateResult>
+  ): Promise<DebateResult> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const result = build(await this.listResults(sessionId));
+      const saved = await this.journaled(event, async db => (await this.writeResult(db, result)) ? result : null);
+      if (saved) {
+        return saved;
+      }
+    }
+
+    throw new Error(`Results for session ${sessionId} were modified concurrently, please retry`);
+  }
+
+  async listParticipants(): Promise<Participant[]> {
+    const { rows } = await this.db().query<{ data: string }>(
+      `SELECT data FROM ${this.prefix}_participants ORDER BY created_at, id`
+    );
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async getParticipant(participantId: string): Promise<Participant | null> {
+    const { rows } = await this.db().query<{ data: string }>(
+      `SELECT data FROM ${this.prefix}_participants WHERE id = $1`,
+      [participantId]
+    );
+    return rows[0] ? JSON.parse(rows[0].data) : null;
+  }
+
+  async insertParticipant(participant: Participant, validate: (existing: Participant[]) => void, event?: EventBuilder<Participant>): Promise<void> {
+    validate(await this.listParticipants());
+    await this.journaled(event, async db => {
+      await this.writeParticipant(db, participant);
+      return participant;
+    });
+  }
+
+  async rewrite(mutate: (contents: StoreContents) => void, event?: EventBuilder<StoreContents>): Promise<void> {
+    const contents: StoreContents = {
+      sessions: await this.listSessions(),
+      results: await this.listResults(),
+      participants: await this.listParticipants(),
+    };
+    mutate(contents);
+
+    await this.transaction(async tx => {
+      await this.replaceContents(tx, contents);
+      await this.appendEntry(tx, contents, event);
+    });
+  }
+
+  async appendEvent(event: DebateEvent): Promise<void> {
+    await this.writeEvent(this.db(), event);
+  }
+
+  async listEvents(query: EventQuery = {}): Promise<DebateEvent[]> {
+    const { rows } = await this.db().query<{ data: string }>(
+      `SELECT data FROM ${this.prefix}_events
+       WHERE ($1::text IS NULL OR session_id = $1) AND ($2::bigint IS NULL OR at <= $2)
+       ORDER BY seq`,
+      [query.sessionId ?? null, query.until ?? null]
+    );
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  forWorkspace(workspaceId: string): SqlBackend {
+    return new SqlBackend({ ...this.options, workspace: workspaceId }, this);
+  }
+
+  async listWorkspaces(): Promise<Workspace[]> {
+    return await this.readWorkspaces(this.db());
+  }
+
+  async updateWorkspaces(mutate: (workspaces: Workspace[]) => void, event?: EventBuilder<Workspace[]>): Promise<Workspace[]> {
+    return await this.transaction(async tx => {
+      const workspaces = await this.readWorkspaces(tx);
+      mutate(workspaces);
+      await tx.query('DELETE FROM debate_workspaces');
+      for (const workspace of workspaces) {
+        await tx.query(
+          'INSERT INTO debate_workspaces (id, created_at, data) VALUES ($1, $2, $3)',
+          [workspace.id, workspace.createdAt, JSON.stringify(workspace)]
+        );
+      }
+      await this.appendEntry(tx, workspaces, event);
+      return workspaces;
+    });
+  }
+
+  async close(): Promise<void> {
+    // Workspace backends borrow their owner's connection, which the owner closes
+    await this.adapter?.close();
+    this.adapter = null;
+    this.connection = null;
+  }
+
+  /**
+   * Replace every session, result and participant row; the caller manages the transaction
+   */
+  private async replaceContents(tx: SqlConnection, contents: StoreContents): Promise<void> {
+    await tx.query(`DELETE FROM ${this.prefix}_sessions`);
+    await tx.query(`DELETE FROM ${this.prefix}_results`);
+    await tx.query(`DELETE FROM ${this.prefix}_participants`);
+    for (const session of contents.sessions) {
+      await this.writeSession(tx, session);
+    }
+    for (const result of contents.results) {
+      await this.writeResult(tx, result);
+    }
+    for (const participant of contents.participants) {
+      await this.writeParticipant(tx, participant);
+    }
+  }
+
+  private async writeSession(db: SqlConnection, session: DebateSession): Promise<void> {
+    await db.query(
+      `INSERT INTO ${this.prefix}_sessions (id, created_at, data) VALUES ($1, $2, $3)`,
+      [session.id, session.createdAt, JSON.stringify(session)]
+    );
+  }
+
+  /**
+   * Insert a result row, returning false when its revision is already taken
+   */
+  private async writeResult(db: SqlConnection, result: DebateResult): Promise<boolean> {
+    const { rows } = await db.query(
+      `INSERT INTO ${this.prefix}_results (session_id, run_id, revision, processed_at, data) VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (session_id, revision) DO NOTHING RETURNING seq`,
+      [result.sessionId, result.runId, result.revision, result.processedAt, JSON.stringify(result)]
+    );
+    return rows.length > 0;
+  }
+
+  private async writeParticipant(db: SqlConnection, participant: Participant): Promise<void> {
+    await db.query(
+      `INSERT INTO ${this.prefix}_participants (id, created_at, data) VALUES ($1, $2, $3)`,
+      [participant.id, participant.createdAt, JSON.stringify(participant)]
+    );
+  }
+
+  private async writeEvent(db: SqlConnection, event: DebateEvent): Promise<void> {
+    await db.query(
+      `INSERT INTO ${this.prefix}_events (id, type, session_id, at, data) VALUES ($1, $2, $3, $4, $5)`,
+      [event.id, event.type, event.sessionId ?? null, event.at, JSON.stringify(event)]
+    );
+  }
+
+  private async readWorkspaces(db: SqlConnection): Promise<Workspace[]> {
+    const { rows } = await db.query<{ data: string }>('SELECT data FROM debate_workspaces ORDER BY created_at, id');
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Run a change and append its journal entry in one transaction. The change returns what it saved,
+   * or null when it saved nothing (and so nothing is journaled). Without an event builder the change
+   * runs as a single statement on the shared connection.
+   */
+  private async journaled<T>(event: EventBuilder<T> | undefined, change: (db: SqlConnection) => Promise<T | null>): Promise<T | null> {
+    if (!event) {
+      return await change(this.db());
+    }
+
+    return await this.transaction(async tx => {
+      const saved = await change(tx);
+      if (saved !== null) {
+        await this.appendEntry(tx, saved, event);
+      }
+      return saved;
+    });
+  }
+
+  /**
+   * Run statements in one transaction. A pool hands each query to whichever client is free, so a
+   * client is checked out for the whole transaction; PGlite runs it through its own transaction API.
+   */
+  private async transaction<T>(work: (tx: SqlConnection) => Promise<T>): Promise<T> {
+    const connection = this.db();
+    if (isTransactional(connection)) {
+      return await connection.transaction(work);
+    }
+
+    const client = isPool(connection) ? await connection.connect() : null;
+    const tx = client ?? connection;
+    try {
+      await tx.query('BEGIN');
+      try {
+        const value = await work(tx);
+        await tx.query('COMMIT');
+        return value;
+      } catch (error) {
+        await tx.query('ROLLBACK');
+        throw error;
+      }
+    } finally {
+      client?.release();
+    }
+  }
+
+  /**
+   * Append the entry for a change just made, if the caller asked for one; the caller manages the transaction
+   */
+  private async appendEntry<T>(tx: SqlConnection, saved: T, event?: EventBuilder<T>): Promise<void> {
+    for (const entry of buildEvents(saved, event)) {
+      await this.writeEvent(tx, entry);
+    }
+  }
+
+  /**
+   * Record that the stored rows are at the current schema version
+   */
+  private async stampSchemaVersion(db: SqlConnection = this.db()): Promise<void> {
+    await db.query(
+      `INSERT INTO ${this.prefix}_meta (key, value) VALUES ('schema_version', $1)
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value`,
+      [String(CURRENT_SCHEMA_VERSION)]
+    );
+  }
+
+  /**
+   * Load the raw row for a session
+   */
+  private async loadSessionRow(sessionId: string): Promise<{ data: string; version: number } | null> {
+    const { rows } = await this.db().query<{ data: string; version: number }>(
+      `SELECT data, version FROM ${this.prefix}_sessions WHERE id = $1`,
+      [sessionId]
+    );
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Get the open connection or fail if initialize() has not run
+   */
+  private db(): SqlConnection {
+    if (!this.connection) {
+      throw new Error('SQL backend not initialized');
+    }
+    return this.connection;
+  }
+}
+
+function isPool(connection: SqlConnection): connection is SqlPool {
+  return typeof (connection as Partial<SqlPool>).connect === 'function';
+}
+
+function isTransactional(connection: SqlConnection): connection is SqlTransactional {
+  return typeof (connection as Partial<SqlTransactional>).transaction === 'function';
+}
+
+/**
+ * Table-safe form of a workspace ID. Long IDs are cut short and end in a hash of the whole ID, so
+ * every table and index name stays within the identifier limit and distinct per workspace.
+ */
+function tableSlug(workspaceId: string): string {
+  const slug = workspaceId.replace(/-/g, '_');
+  if (slug.length <= MAX_TABLE_SLUG) {
+    return slug;
+  }
+  const hash = createHash('sha256').update(workspaceId).digest('hex').slice(0, 8);
+  return `${slug.slice(0, MAX_TABLE_SLUG - hash.length - 1)}_${hash}`;
+}
@@ -0,0 +1,136 @@
+import { type DebateSession, type DebateResult, type Participant, type Workspace } from '../debateStore.js';
+import { type MigrationReport } from './migrations.js';
+import { type DebateEvent, type EventBuilder, type EventQuery } from './journal.js';
+import { type EncryptionConfig } from './encryption.js';
+
+/**
+ * Identifies one of the available storage backends
+ */
+export type StorageBackendKind = 'json' | 'memory' | 'sql';
+
+/**
+ * Everything a backend stores apart from the event journal
+ */
+export interface StoreContents {
+  sessions: DebateSession[];
+  results: DebateResult[];
+  participants: Participant[];
+}
+
+/**
+ * Interface implemented by every persistence layer behind DebateStore. Methods that change data take
+ * an optional event builder and append its entry to the journal atomically with the change.
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+
+  /**
+   * Prepare the underlying storage (create files, tables, connections)
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Upgrade stored data to the current schema version, keeping a backup of the old data
+   */
+  migrate(): Promise<MigrationReport>;
+
+  /**
+   * Load every stored session
+   */
+  listSessions(): Promise<DebateSession[]>;
+
+  /**
+   * Load a single session, or null when it does not exist
+   */
+  getSession(sessionId: string): Promise<DebateSession | null>;
+
+  /**
+   * Persist a newly created session
+   */
+  insertSession(session: DebateSession, event?: EventBuilder<DebateSession>): Promise<void>;
+
+  /**
+   * Apply a change to a stored session and persist it
+   */
+  updateSession(sessionId: string, mutate: (session: DebateSession) => void, event?: EventBuilder<DebateSession>): Promise<DebateSession>;
+
+  /**
+   * Permanently remove a session together with all of its results. Returns the number of results
+   * removed, which is also what the event builder receives.
+   */
+  deleteSession(sessionId: string, event?: EventBuilder<number>): Promise<number>;
+
+  /**
+   * Load stored results, optionally restricted to one session
+   */
+  listResults(sessionId?: string): Promise<DebateResult[]>;
+
+  /**
+   * Persist a new analysis run. The builder receives the session's existing runs, so the
+   * revision number is assigned atomically with the insert.
+   */
+  insertResult(
+    sessionId: string,
+    build: (existingRuns: DebateResult[]) => DebateResult,
+    event?: EventBuilder<DebateResult>
+  ): Promise<DebateResult>;
+
+  /**
+   * Load every registered participant
+   */
+  listParticipants(): Promise<Participant[]>;
+
+  /**
+   * Load a single participant, or null when it is not registered
+   */
+  getParticipant(participantId: string): Promise<Participant | null>;
+
+  /**
+   * Register a participant. The validator sees the existing registry and throws to reject the insert.
+   */
+  insertParticipant(participant: Participant, validate: (existing: Participant[]) => void, event?: EventBuilder<Participant>): Promise<void>;
+
+  /**
+   * Load every collection, apply a change across them and save the result atomically. Meant for
+   * maintenance such as integrity repairs, where records may be malformed or share an ID, and for
+   * changes that must land whole, such as bundle imports.
+   */
+  rewrite(mutate: (contents: StoreContents) => void, event?: EventBuilder<StoreContents>): Promise<void>;
+
+  /**
+   * Append an event to the journal. Journal entries are never changed or removed.
+   */
+  appendEvent(event: DebateEvent): Promise<void>;
+
+  /**
+   * Read journal events in the order they were appended
+   */
+  listEvents(query?: EventQuery): Promise<DebateEvent[]>;
+
+  /**
+   * Backend holding another workspace's data, at the same location and with the same settings as this
+   * one. Called on the default workspace's backend, which also keeps the workspace registry.
+   */
+  forWorkspace(workspaceId: string): StorageBackend;
+
+  /**
+   * Load the workspace registry (workspaces other than the default may be missing their storage until first used)
+   */
+  listWorkspaces(): Promise<Workspace[]>;
+
+  /**
+   * Apply a change to the workspace registry and persist it. Returns the updated registry.
+   */
+  updateWorkspaces(mutate: (workspaces: Workspace[]) => void, event?: EventBuilder<Workspace[]>): Promise<Workspace[]>;
+
+  /**
+   * Rewrite all stored data with a new encryption key, or in plain text when the config has no key.
+   * Only backends that encrypt at rest implement this.
+   */
+  reencrypt?(encryption: EncryptionConfig): Promise<string[]>;
+
+  /**
+   * Release any resources held by the backend
+   */
+  close(): Promise<void>;
+}